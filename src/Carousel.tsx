@@ -1,5 +1,20 @@
-import { useRef, useEffect, useCallback, useLayoutEffect, useMemo, memo, type ReactNode } from 'react'
-import { useDraggableScroll } from './hooks/useDraggableScroll'
+import {
+    useRef,
+    useEffect,
+    useCallback,
+    useLayoutEffect,
+    useMemo,
+    useImperativeHandle,
+    memo,
+    forwardRef,
+    useContext,
+    useState,
+    Fragment,
+    type ForwardedRef,
+    type ReactNode,
+    type Ref,
+} from 'react'
+import { useDraggableScroll, type CarouselFreeModeOptions, type CarouselPhysicsOptions } from './hooks/useDraggableScroll'
 import { useLoadingState } from './hooks/useLoadingState'
 import { useCarouselTeleport } from './hooks/useCarouselTeleport'
 import { useCarouselVisuals } from './hooks/useCarouselVisuals'
@@ -7,8 +22,21 @@ import { useCarouselPersistence } from './hooks/useCarouselPersistence'
 import { useCarouselLayout, measureLayoutFromElement } from './hooks/useCarouselLayout'
 import { useCarouselNavigation } from './hooks/useCarouselNavigation'
 import { useScrollCompletion } from './hooks/useScrollCompletion'
-import { useCarouselCoordinator } from './hooks/useCarouselCoordinator'
+import { useCarouselCoordinator, type CarouselPhase } from './hooks/useCarouselCoordinator'
+import { useCarouselAutoplay, type CarouselAutoplayOptions } from './hooks/useCarouselAutoplay'
+import { useCarouselKeyboard, type CarouselKeyAction } from './hooks/useCarouselKeyboard'
+import { useCarouselVirtualization } from './hooks/useCarouselVirtualization'
+import { useCarouselUrlSync, type CarouselUrlSyncOptions } from './hooks/useCarouselUrlSync'
+import { useCarouselItemResize } from './hooks/useCarouselItemResize'
+import { useCarouselWheel, type CarouselWheelOptions } from './hooks/useCarouselWheel'
 import { CarouselArrow } from './CarouselArrow'
+import { calculateSlideSize, chunkItems, findNearestCloneIndex, getAlignedScroll, getIndexAtScroll, getScrollAtIndex, resolveBreakpoint } from './utils'
+import { createCarouselStore, CarouselStateContext, type CarouselStore } from './carouselState'
+import { CarouselSyncContext, type CarouselSyncMember, type CarouselSyncRole } from './CarouselSyncGroup'
+import type { CarouselStorageAdapter } from './storage'
+import type { CarouselEffect } from './effects'
+import { getAxis, type CarouselAlign, type CarouselDirection, type CarouselOrientation } from './axis'
+import { getSlotElement, getSlotElements, getSlotIndex } from './slots'
 import {
     VISUAL_CONFIG,
     TIMING_CONFIG,
@@ -65,6 +93,86 @@ export const getComputedItemWidth = (
     return parseInt(value, 10) || fallback
 }
 
+/** Visually hidden but announced by screen readers (inline so it works without the stylesheet) */
+const VISUALLY_HIDDEN_STYLE: React.CSSProperties = {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    padding: 0,
+    margin: -1,
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0,
+}
+
+/**
+ * Container padding that rests item 0 aligned at scroll 0, so resting(i) = i * stride for every
+ * alignment. Start/end snap areas keep `inset` from the edge; centered ones mirror the padding.
+ */
+const getAlignPadding = (align: CarouselAlign, cardWidth: number, inset: number) => {
+    if (align === 'center') {
+        const centerPadding = `calc(50% - ${cardWidth / 2}px)`
+        return { start: centerPadding, end: centerPadding, scrollStart: centerPadding, scrollEnd: centerPadding }
+    }
+    const edge = `${inset}px`
+    const start = align === 'end' ? `calc(100% - ${cardWidth + inset}px)` : edge
+    return { start, end: edge, scrollStart: edge, scrollEnd: edge }
+}
+
+/** CSS snap alignment class for each alignment */
+const SNAP_ALIGN_CLASS: Record<CarouselAlign, string> = {
+    start: 'snap-start',
+    center: 'snap-center',
+    end: 'snap-end',
+}
+
+/** Gap in px: the prop when provided, otherwise the viewport default */
+const resolveGap = (gap: number | undefined) => gap ?? (
+    typeof window !== 'undefined' && window.innerWidth < LAYOUT_CONFIG.GAP_BREAKPOINT
+        ? LAYOUT_CONFIG.GAP_MOBILE
+        : LAYOUT_CONFIG.GAP_DESKTOP
+)
+
+/** Default slide label: "3 of 10" (real index, clones excluded) */
+const defaultSlideLabel = (index: number, total: number) => `${index + 1} of ${total}`
+
+/** What caused the active index to change (reported by onActiveIndexChange) */
+export type CarouselChangeReason = 'drag' | 'arrow' | 'click' | 'keyboard' | 'wheel' | 'autoplay' | 'programmatic' | 'sync'
+
+export interface CarouselGoToOptions {
+    /** Smooth-scroll to the target (default: true). When false, jumps instantly. */
+    animate?: boolean
+}
+
+/**
+ * Imperative API exposed through `ref`.
+ * All navigation goes through the coordinator, so it is safe to call from
+ * external buttons, keyboard shortcuts or deep links while the carousel is teleporting.
+ */
+export interface CarouselHandle {
+    /** Navigate to a real item index. Infinite carousels take the shortest path across clones. */
+    goTo: (index: number, options?: CarouselGoToOptions) => void
+    /** Navigate to the next item (same path as the Next arrow) */
+    next: () => void
+    /** Navigate to the previous item (same path as the Previous arrow) */
+    prev: () => void
+    /** Real index of the active item (the pending target while a scroll is in flight) */
+    getActiveIndex: () => number
+    /** Current coordinator phase */
+    getPhase: () => CarouselPhase
+    /** Re-measure layout and refresh position caches (e.g. after fonts or images load) */
+    refreshLayout: () => void
+    /** Start (or resume) autoplay. No-op when the autoplay prop is not set. */
+    play: () => void
+    /** Stop autoplay until play() is called */
+    pause: () => void
+    /** Whether autoplay is currently advancing (not stopped or paused) */
+    isPlaying: () => boolean
+    /** Progress towards the next autoplay advance (0..1) */
+    getAutoplayProgress: () => number
+}
+
 export interface BaseCarouselProps<T> {
     items: T[]
     getItemKey: (item: T, index: number) => string
@@ -72,10 +180,23 @@ export interface BaseCarouselProps<T> {
     infinite?: boolean
     onEndReached?: () => void
     hasNextPage?: boolean
+    /**
+     * Called when the user scrolls near the start while `hasPreviousPage` is true.
+     * Prepend the loaded page to `items`: the visible item stays in place (scroll anchoring).
+     */
+    onStartReached?: () => void
+    hasPreviousPage?: boolean
     /** Custom label for previous button (aria-label). Defaults to 'Previous' */
     prevLabel?: string
     /** Custom label for next button (aria-label). Defaults to 'Next' */
     nextLabel?: string
+    /** Accessible name of the carousel region (aria-label). Defaults to 'Carousel' */
+    label?: string
+    /**
+     * Accessible label for each slide and for the live announcement of the active slide.
+     * Receives the real index (clones excluded). Defaults to "N of M".
+     */
+    slideLabel?: (index: number, total: number) => string
     /** 
      * CSS variable name for item width. Uses native CSS media queries for responsive widths.
      * Options: 'default' | 'review' | 'compact' | 'collection' | 'wide'
@@ -95,21 +216,80 @@ export interface BaseCarouselProps<T> {
     fallbackWidth?: number
     itemClassName?: string
     snapType?: 'mandatory' | 'proximity'
+    /**
+     * Mouse drag feel: a preset ('default', 'ios', 'android', 'heavy', 'free') or individual
+     * overrides on top of one, e.g. `{ preset: 'ios', friction: 0.97 }`
+     */
+    physics?: CarouselPhysicsOptions
+    /**
+     * Free-mode scrolling for tickers and timeline scrubbers: momentum decays naturally and stops
+     * anywhere instead of ending on an item. `{ sticky: true }` settles onto the nearest item once
+     * momentum slows below `stickyThreshold` (touch keeps CSS proximity snapping instead).
+     */
+    freeMode?: boolean | CarouselFreeModeOptions
+    /**
+     * Velocity-aware flicks: a released drag or touch swipe projects its momentum landing and
+     * settles on the item there, at most this many items away. Unset: momentum ends on the
+     * nearest item (mouse) or the next one (touch, CSS snap).
+     */
+    maxSlidesPerSwipe?: number
+    /**
+     * Mouse-wheel and trackpad handling: each wheel notch advances one slide, trackpad swipes
+     * scroll natively and snap once they end, and (`mapVertical`, default true) vertical wheel
+     * input scrolls horizontal carousels. Off: wheel input is left to the browser.
+     */
+    wheel?: boolean | CarouselWheelOptions
+    /**
+     * Rubber-band overscroll for touch on finite carousels: pulling past either end stretches the
+     * track with resistance (a transform, so it stays on the compositor) and it springs back on
+     * release, like mouse drags. The carousel is in the BOUNCING phase while stretched. Default: false
+     */
+    touchOverscroll?: boolean
 
     disableOpacityEffect?: boolean
     disableScaleEffect?: boolean
+    /**
+     * Visual effect plugin(s) run on every scroll frame for items near the viewport
+     * (see `createCoverflowEffect`, `createRotate3dEffect`, `createFadeEffect`, ...).
+     * Replaces the default scale/opacity effect; arrays run in order.
+     */
+    effect?: CarouselEffect | CarouselEffect[]
+    /**
+     * Write each visible item's progress as CSS custom properties for stylesheet-driven effects:
+     * `--carousel-progress` (-1..1, 0 when active), `--carousel-distance` (items from the active
+     * position) and `--carousel-is-active` (1 or 0). Updated every scroll frame without re-rendering.
+     */
+    cssProgress?: boolean
     /** Custom vertical padding for the carousel container. Defaults to '20px'. */
     verticalPadding?: string
     snap?: boolean
     /** Optional custom skeleton renderer. Receives index. */
     renderSkeleton?: (index: number) => ReactNode
     /** 
-     * Optional key for persisting scroll position in sessionStorage.
+     * Optional key for persisting scroll position (sessionStorage by default, see `storage`).
      * When provided, the carousel will restore its scroll position after navigation.
      * Use a unique key per carousel instance, e.g., 'homepage-recommended'.
      */
     persistKey?: string
+    /**
+     * Where to persist the scroll position for this carousel.
+     * Overrides CarouselStorageProvider. Defaults to sessionStorage.
+     */
+    storage?: CarouselStorageAdapter
+    /**
+     * Where to record that this carousel has already loaded (skips the fade-in on return).
+     * Overrides CarouselStorageProvider's `seenStorage`. Defaults to memory.
+     */
+    seenStorage?: CarouselStorageAdapter
     onActiveItemChange?: (item: T) => void
+    /**
+     * Controlled active index (real index, clones excluded).
+     * Changing it smoothly scrolls to the new index (shortest path across clones when infinite).
+     * Takes precedence over initialIndex on mount.
+     */
+    activeIndex?: number
+    /** Called with the real index and the cause whenever the active item changes */
+    onActiveIndexChange?: (index: number, reason: CarouselChangeReason) => void
     /** Optional explicit gap value in pixels. If not provided, uses LAYOUT_CONFIG based on viewport. */
     gap?: number
     /** Optional id for debug logging - helps identify which carousel in console */
@@ -133,6 +313,87 @@ export interface BaseCarouselProps<T> {
      * This makes the carousel select the next/prev item with less swipe distance.
      */
     eagerSelectionOnMobile?: boolean
+    /**
+     * Advance automatically on a timer. Pass `true` for defaults or an options object.
+     * Ticks only fire while the carousel is IDLE, so autoplay never interrupts a bounce or teleport.
+     */
+    autoplay?: boolean | CarouselAutoplayOptions
+    /** Called when autoplay starts or stops advancing (paused by hover, focus, visibility, or the user) */
+    onAutoplayChange?: (isPlaying: boolean) => void
+    /**
+     * Composable children rendered below the track (e.g. `<CarouselPagination />`).
+     * They read the carousel state through context - no prop drilling.
+     */
+    children?: ReactNode
+    /**
+     * Role inside an enclosing CarouselSyncGroup. Defaults to 'peer'.
+     * 'controller' drives the group without following it; 'follower' follows without driving.
+     */
+    syncRole?: CarouselSyncRole
+    /**
+     * Only mount the items near the viewport. Pass `true` for defaults or `{ overscan }`
+     * (items kept beyond each side of the viewport). Spacers sized on the stride stand in for
+     * the rest, so scrolling, snapping and teleports are unchanged. Needs one shared item size:
+     * ignored (with a development warning) with `variableWidth` or `slidesPerView: 'auto'`.
+     */
+    virtualize?: boolean | { overscan?: number }
+    /**
+     * Mirror the active item's key in the URL (`?slide=key` by default) for deep links.
+     * On mount the URL key takes precedence over persistKey, activeIndex and initialIndex.
+     * Use a distinct `param` per carousel when several are synced on one page.
+     */
+    urlSync?: boolean | CarouselUrlSyncOptions
+    /**
+     * Scroll direction. 'vertical' stacks items in a column that scrolls (and drags) along Y;
+     * the item width variables then size items along the vertical axis. Defaults to 'horizontal'.
+     */
+    orientation?: CarouselOrientation
+    /**
+     * Text direction of a horizontal carousel. 'rtl' lays items out right-to-left, mirrors drag,
+     * arrows and ArrowLeft/ArrowRight, and normalizes the browser's RTL scrollLeft. Defaults to 'ltr'.
+     */
+    dir?: CarouselDirection
+    /**
+     * Items size themselves (mixed widths, or heights when vertical). Slots get no width from the
+     * item width variable, and navigation, teleports and culling use a per-item position table kept
+     * up to date by a ResizeObserver on each item. Defaults to false (one shared width).
+     */
+    variableWidth?: boolean
+    /**
+     * Number of items visible at once. A number sizes each item from the container width
+     * (minus gaps and edge padding) instead of the item width variable; 'auto' lets items size
+     * themselves (same as `variableWidth`). Defaults to the item width variable.
+     */
+    slidesPerView?: number | 'auto'
+    /**
+     * Items advanced per page by the arrows, keyboard and pagination dots. In infinite mode with a
+     * numeric `slidesPerView`, onActiveItemChange reports the first item of the visible group. Defaults to 1.
+     */
+    slidesPerGroup?: number
+    /**
+     * Per-breakpoint overrides of `slidesPerView` and `slidesPerGroup`, keyed by minimum window
+     * width in px (e.g. `{ 640: { slidesPerView: 2 }, 1024: { slidesPerView: 4, slidesPerGroup: 4 } }`).
+     */
+    breakpoints?: Record<number, CarouselBreakpointOptions>
+    /**
+     * Where the active item rests in the viewport: initial position, item clicks, arrows, snapping
+     * and active-item detection all follow it. Defaults to 'center' when infinite, 'start' otherwise.
+     */
+    align?: CarouselAlign
+    /** Gap in px between a 'start'/'end'-aligned item and the viewport edge, e.g. to match a page grid. Defaults to 16. */
+    edgeInset?: number
+    /**
+     * Rows per slide: items are grouped into columns of `rows` (a scrolling grid). Callbacks,
+     * `goTo`, `getActiveIndex`, keys and persistence keep real item indexes; the active index is
+     * the first item of the active column. Pagination and `slidesPerView` count columns. Defaults to 1.
+     */
+    rows?: number
+}
+
+/** Options that can change per breakpoint (see BaseCarouselProps.breakpoints) */
+export interface CarouselBreakpointOptions {
+    slidesPerView?: number | 'auto'
+    slidesPerGroup?: number
 }
 
 function BaseCarouselInner<T>({
@@ -142,18 +403,31 @@ function BaseCarouselInner<T>({
     infinite = false,
     onEndReached,
     hasNextPage = false,
+    onStartReached,
+    hasPreviousPage = false,
     itemWidthVar = 'default',
     itemWidthCssVar,
     fallbackWidth = 200,
     itemClassName = '',
     snapType = 'mandatory',
+    physics,
+    freeMode = false,
+    maxSlidesPerSwipe,
+    wheel = false,
+    touchOverscroll = false,
     disableOpacityEffect = false,
     disableScaleEffect = false,
+    effect,
+    cssProgress = false,
     verticalPadding = '20px',
     snap = true,
     renderSkeleton,
     persistKey,
+    storage,
+    seenStorage,
     onActiveItemChange,
+    activeIndex,
+    onActiveIndexChange,
     gap: gapProp,
     debugId = 'carousel',
     debug,
@@ -161,17 +435,58 @@ function BaseCarouselInner<T>({
     initialIndex,
     prevLabel = 'Previous',
     nextLabel = 'Next',
-}: BaseCarouselProps<T>) {
+    label = 'Carousel',
+    slideLabel = defaultSlideLabel,
+    autoplay,
+    onAutoplayChange,
+    children,
+    syncRole = 'peer',
+    virtualize = false,
+    urlSync = false,
+    orientation = 'horizontal',
+    dir = 'ltr',
+    variableWidth: variableWidthProp = false,
+    slidesPerView: slidesPerViewProp,
+    slidesPerGroup: slidesPerGroupProp = 1,
+    breakpoints,
+    align,
+    edgeInset = LAYOUT_CONFIG.EDGE_INSET,
+}: BaseCarouselProps<T>, ref: ForwardedRef<CarouselHandle>) {
     // Resolve gap: use prop if provided, otherwise determine from viewport
-    const resolvedGap = gapProp ?? (
-        typeof window !== 'undefined' && window.innerWidth < LAYOUT_CONFIG.GAP_BREAKPOINT
-            ? LAYOUT_CONFIG.GAP_MOBILE
-            : LAYOUT_CONFIG.GAP_DESKTOP
+    const resolvedGap = resolveGap(gapProp)
+    // Resolve per-breakpoint options against the window width (re-read on every resize render)
+    const { slidesPerView, slidesPerGroup } = resolveBreakpoint(
+        { slidesPerView: slidesPerViewProp, slidesPerGroup: slidesPerGroupProp },
+        breakpoints,
+        typeof window !== 'undefined' ? window.innerWidth : LAYOUT_CONFIG.SSR_VIEWPORT_WIDTH
     )
+    // 'auto' means items size themselves: same machinery as variableWidth
+    const variableWidth = variableWidthProp || slidesPerView === 'auto'
+    const fixedSlidesPerView = typeof slidesPerView === 'number' && slidesPerView > 0 ? slidesPerView : null
+    const alignment: CarouselAlign = align ?? (infinite ? 'center' : 'start')
+    // Infinite mode rests the active slot centered (or at the end): with N visible items the group
+    // starts floor((N-1)/2) (or N-1) items before it, so every target is shifted by that lead to
+    // report the first visible item
+    const groupLead = infinite && fixedSlidesPerView !== null
+        ? (alignment === 'center' ? Math.floor((fixedSlidesPerView - 1) / 2) : alignment === 'end' ? fixedSlidesPerView - 1 : 0)
+        : 0
     // ═══════════════════════════════════════════════════════════════════════════
     // LOGGER 2.0: Factory-created instance for this carousel
     // ═══════════════════════════════════════════════════════════════════════════
     const logger = useMemo(() => createLogger(debugId, debug), [debugId, debug])
+    // Every scroll read/write goes through the axis (scrollLeft vs scrollTop, offsetLeft vs offsetTop...)
+    const axis = getAxis(orientation, dir)
+    const isVertical = orientation === 'vertical'
+    // Item width variables size items along the scroll axis
+    const sizeProperty = isVertical ? 'height' : 'width'
+    // Free mode drops mandatory snapping; sticky keeps proximity snapping so slow touch releases settle
+    const cssSnapType = !snap
+        ? null
+        : !freeMode
+            ? snapType
+            : typeof freeMode === 'object' && freeMode.sticky ? 'proximity' : null
+    // Slots only care whether free mode is on: an inline options object must not re-render them
+    const isFreeMode = !!freeMode
 
     // Resolve width CSS - custom variable takes precedence over named variant
     const widthCssValue = itemWidthCssVar
@@ -190,12 +505,14 @@ function BaseCarouselInner<T>({
         cacheKey: persistKey ? `carousel-${persistKey}` : undefined,
         skeletonDelay: 50,
         fallbackTimeout: 3000,
+        storage: seenStorage,
     })
 
     // Use persistence hook for scroll position save/restore across navigation
-    const { getSavedPosition, savePosition } = useCarouselPersistence({
+    const { getSavedEntry, savePosition } = useCarouselPersistence({
         persistKey,
         debounceMs: 150,
+        storage,
     })
 
     // TELEPORTING BUFFER STRATEGY
@@ -208,13 +525,46 @@ function BaseCarouselInner<T>({
         }
     }
 
+    const handleStartReached = () => {
+        // Scroll is 0 until initialization positions the track: that is not the user reaching the start
+        if (hasPreviousPage && onStartReached && hasInitialized.current) {
+            onStartReached()
+        }
+    }
+
+    // Edge pulls (mouse or touch) hold the coordinator in BOUNCING until the track springs back.
+    // Only a bounce started by the pull is ended by it, never an arrow bounce already running.
+    const isEdgePullBounceRef = useRef(false)
+    const handleEdgePullStart = () => {
+        if (getPhase() !== 'IDLE') return
+        isEdgePullBounceRef.current = true
+        transition({ type: 'START_BOUNCE', timeoutId: null })
+    }
+    const handleEdgePullEnd = () => {
+        if (!isEdgePullBounceRef.current) return
+        isEdgePullBounceRef.current = false
+        transition({ type: 'END_BOUNCE' })
+    }
+
     // Get draggable scroll first (needed for layout hook ref)
     const { ref: draggableRef, isDragging, events, cancelMomentum, adjustScroll } = useDraggableScroll({
         infinite,
         onEndReached: handleEndReached,
         hasNextPage,
+        onStartReached: handleStartReached,
+        hasPreviousPage,
         cardWidth: LAYOUT_CONFIG.INITIAL_CARD_WIDTH,
-        gap: resolvedGap
+        gap: resolvedGap,
+        physics,
+        freeMode,
+        maxSlidesPerSwipe,
+        touchOverscroll,
+        onEdgePullStart: handleEdgePullStart,
+        onEdgePullEnd: handleEdgePullEnd,
+        align: alignment,
+        edgeInset,
+        orientation,
+        direction: dir,
     })
 
     // Use layout hook for stride measurement, viewport detection, and resize handling
@@ -224,9 +574,30 @@ function BaseCarouselInner<T>({
     // resizeCount triggers re-renders when ResizeObserver fires, even if values are unchanged
     const { layout, measureLayout: triggerLayoutMeasure, resizeCount, isMobile } = useCarouselLayout({
         containerRef: draggableRef,
+        orientation,
+        direction: dir,
         logger,
     })
 
+    // SSR-safe useLayoutEffect - falls back to useEffect on the server
+    const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect
+
+    // slidesPerView: item size follows the container size (re-measured on every container resize)
+    const [viewportSize, setViewportSize] = useState(0)
+    useIsomorphicLayoutEffect(() => {
+        if (fixedSlidesPerView === null || !draggableRef.current) return
+        setViewportSize(axis.getClientSize(draggableRef.current))
+    }, [fixedSlidesPerView, resizeCount, axis, draggableRef])
+    const slideSize = fixedSlidesPerView !== null && viewportSize > 0
+        ? calculateSlideSize(viewportSize, fixedSlidesPerView, resolvedGap, alignment === 'center' ? 0 : edgeInset * 2)
+        : null
+    const itemSizeCssValue = slideSize !== null ? `${slideSize}px` : widthCssValue
+    const alignPadding = getAlignPadding(alignment, layout.cardWidth, edgeInset)
+    // The items resized without the container resizing: the layout observer won't notice
+    useIsomorphicLayoutEffect(() => {
+        if (slideSize !== null) triggerLayoutMeasure()
+    }, [slideSize, triggerLayoutMeasure])
+
     // Setup Fixed Buffers
     // We need enough items to cover the screen width + buffer.
     // For safety, we aim for ~3 screens worth of items on each side if possible, or at least ~20 items.
@@ -247,15 +618,33 @@ function BaseCarouselInner<T>({
     const allItems = useMemo(() => [...clonesBefore, ...items, ...clonesAfter], [clonesBefore, items, clonesAfter])
     const bufferBeforeCount = clonesBefore.length
 
+    // Windowed rendering: only slots near the viewport are mounted, between stride-sized spacers.
+    // Spacers cannot stand in for items that size themselves, so variable widths opt out.
+    const isVirtualized = !!virtualize && !variableWidth
+    useEffect(() => {
+        if (virtualize && variableWidth && process.env.NODE_ENV !== 'production') {
+            console.warn('[Carousel] `virtualize` needs one shared item size and is ignored with `variableWidth` or `slidesPerView: \'auto\'`')
+        }
+    }, [virtualize, variableWidth])
+    const { start: renderStart, end: renderEnd } = useCarouselVirtualization({
+        enabled: isVirtualized,
+        containerRef: draggableRef,
+        slotCount: allItems.length,
+        bufferBeforeCount,
+        stride: layout.domStride > 0 ? layout.domStride : layout.cardWidth + layout.gap,
+        overscan: typeof virtualize === 'object' ? virtualize.overscan : undefined,
+        initialIndex: activeIndex ?? initialIndex,
+        orientation,
+        direction: dir,
+        logger,
+    })
+
     // ═══════════════════════════════════════════════════════════════════════════
     // COORDINATOR: Single source of truth for carousel state
     // Replaces: isTeleporting, pendingScrollTarget, isPreTeleportingRef, isBouncing
     // ═══════════════════════════════════════════════════════════════════════════
     const { transition, getPhase, getContext, contextRef } = useCarouselCoordinator({ logger })
 
-    // SSR-safe useLayoutEffect - falls back to useEffect on the server
-    const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect
-
     const hasInitialized = useRef(false)
     // Timer/listener refs are still external (coordinator tracks IDs, we manage lifecycle)
     const scrollEndListenerRef = useRef<(() => void) | null>(null)
@@ -264,8 +653,9 @@ function BaseCarouselInner<T>({
 
     // Note: Timer refs (snapTimeoutRef, scrollIdleTimeoutRef) still needed to manage actual timer handles
     // The coordinator only tracks timeout IDs for coordination, not the actual setTimeout return values
-    // lastActiveItemRef: Used for dedup in onActiveItemChange callback - not coordinator state
+    // lastActiveItemRef/lastActiveIndexRef: Used for dedup in active item callbacks - not coordinator state
     const lastActiveItemRef = useRef<T | null>(null)
+    const lastActiveIndexRef = useRef<number | null>(null)
     const lastInitRef = useRef<{ cardWidth: number, gap: number } | null>(null)
 
     // Use the extracted visuals hook for position cache and visual effects
@@ -280,11 +670,43 @@ function BaseCarouselInner<T>({
         layout,
         itemsCount: items.length,
         bufferBeforeCount,
+        slotCount: allItems.length,
         disableOpacityEffect,
         disableScaleEffect,
+        variableWidth,
+        orientation,
+        direction: dir,
+        effects: effect === undefined ? undefined : Array.isArray(effect) ? effect : [effect],
+        cssProgress,
+        align: alignment,
+        edgeInset,
         logger,
     })
 
+    // Variable width: the visuals position cache doubles as the per-item offset table
+    const getItemPositions = useCallback(() => {
+        const el = draggableRef.current
+        if (el && (isCacheDirty.current || childrenPositions.current.length !== allItems.length)) {
+            updateCache(el)
+            isCacheDirty.current = false
+        }
+        return childrenPositions.current
+    }, [draggableRef, isCacheDirty, childrenPositions, updateCache, allItems.length])
+
+    // Fractional DOM index at a scroll position and its inverse: one stride per item,
+    // or resting positions from the table when item widths vary
+    const getRawIndexAtScroll = useCallback((scrollLeft: number, stride: number) => {
+        const el = draggableRef.current
+        if (variableWidth && el) return getIndexAtScroll(getItemPositions(), scrollLeft, axis.getClientSize(el), alignment)
+        return scrollLeft / stride
+    }, [variableWidth, draggableRef, getItemPositions, axis, alignment])
+
+    const getScrollAtRawIndex = useCallback((index: number, stride: number) => {
+        const el = draggableRef.current
+        if (variableWidth && el) return getScrollAtIndex(getItemPositions(), index, axis.getClientSize(el), alignment)
+        return index * stride
+    }, [variableWidth, draggableRef, getItemPositions, axis, alignment])
+
     // Use the extracted teleport hook for infinite carousels
     // This handles scroll/scrollend/pointerdown events for the hybrid teleport strategy
     const { preTeleport } = useCarouselTeleport({
@@ -305,6 +727,206 @@ function BaseCarouselInner<T>({
             isBusy: () => getPhase() !== 'IDLE',
             isBlocking: () => getPhase() === 'BOUNCING' || getPhase() === 'TELEPORTING',
         },
+        getItemPositions: variableWidth ? getItemPositions : undefined,
+        align: alignment,
+        orientation,
+        direction: dir,
+        logger,
+    })
+
+    const getActiveIndexAtScroll = useCallback((scrollLeft: number, direction: number = 0, overrides?: { cardWidth: number, gap: number }) => {
+        const activeCardWidth = overrides?.cardWidth ?? layout.cardWidth
+        const activeGap = overrides?.gap ?? layout.gap
+        const stride = activeCardWidth + activeGap
+
+        if (stride <= 0 || items.length === 0) return -1
+
+        // Use cached domStride from layout hook (measured on resize, not per-scroll)
+        // This avoids triggering layout reflow on every scroll event
+        const activeStride = layout.domStride > 0 ? layout.domStride : stride
+        const effectiveScroll = scrollLeft
+
+        const rawIndex = getRawIndexAtScroll(effectiveScroll, activeStride)
+        let totalIndex: number
+
+        // DEBUG: Selection Input
+        logger.log('NAV', 'getActiveIndexAtScroll START', {
+            scrollLeft,
+            effectiveScroll,
+            calculatedStride: stride,
+            domStride: activeStride,
+            rawIndex,
+            direction,
+            overrides
+        })
+
+        // EAGER SELECTION: Symmetrical directional bias
+        // Use 30% threshold on mobile for snappy feedback, 50% (standard round) on desktop
+        const EAGER_THRESHOLD = (isMobile && eagerSelectionOnMobile) ? 0.3 : 0.5
+
+        if (direction > 0) {
+            // Swiping forward (left swipe): eagerly select next item at threshold
+            totalIndex = Math.floor(rawIndex + (1 - EAGER_THRESHOLD))
+        } else if (direction < 0) {
+            // Swiping backward (right swipe): eagerly select prev item at threshold
+            totalIndex = Math.ceil(rawIndex - (1 - EAGER_THRESHOLD))
+        } else {
+            // Idle: Standard round (closest item)
+            totalIndex = Math.round(rawIndex)
+        }
+
+        let activeIndex: number
+
+        if (infinite) {
+            // groupLead: report the first visible item of the group rather than the centered one
+            activeIndex = ((totalIndex - bufferBeforeCount - groupLead) % items.length + items.length) % items.length
+        } else {
+            activeIndex = Math.max(0, Math.min(totalIndex, items.length - 1))
+        }
+
+        // DEEP LOG: Selection params
+        logger.log('NAV', 'getActiveIndexAtScroll RESULT', {
+            scrollLeft,
+            stride,
+            rawIndex,
+            totalIndex,
+            activeIndex,
+            bufferBeforeCount,
+            itemId: (items[activeIndex] as any)?.id,
+            title: (items[activeIndex] as any)?.title
+        })
+
+        return activeIndex
+    }, [layout.cardWidth, layout.gap, layout.domStride, items, infinite, bufferBeforeCount, isMobile, eagerSelectionOnMobile, getRawIndexAtScroll, groupLead])
+
+    // Callback refs: always call the latest consumer callbacks without re-attaching listeners
+    const activeItemCallbackRef = useRef(onActiveItemChange)
+    activeItemCallbackRef.current = onActiveItemChange
+    const activeIndexCallbackRef = useRef(onActiveIndexChange)
+    activeIndexCallbackRef.current = onActiveIndexChange
+
+    // Shared state for composable children (pagination). Created once; jumps resolve lazily.
+    const jumpToItemRef = useRef<(index: number) => void>(() => { })
+    const storeRef = useRef<CarouselStore | null>(null)
+    if (!storeRef.current) {
+        const startIndex = activeIndex ?? initialIndex ?? 0
+        storeRef.current = createCarouselStore(
+            { activeIndex: Math.max(0, Math.min(startIndex, items.length - 1)), count: items.length, infinite, slidesPerGroup },
+            (index) => jumpToItemRef.current(index)
+        )
+    }
+    const store = storeRef.current
+
+    // Sync group membership (thumbnails, linked galleries). The member object is the
+    // carousel's identity inside the group; syncTo resolves lazily to the latest navigation.
+    const syncGroup = useContext(CarouselSyncContext)
+    const syncMemberRef = useRef<CarouselSyncMember | null>(null)
+    const syncToRef = useRef<(index: number) => void>(() => { })
+
+    useEffect(() => {
+        if (!syncGroup) return
+        const member: CarouselSyncMember = { role: syncRole, syncTo: (index) => syncToRef.current(index) }
+        syncMemberRef.current = member
+        const unregister = syncGroup.register(member)
+        return () => {
+            unregister()
+            syncMemberRef.current = null
+        }
+    }, [syncGroup, syncRole])
+
+    // URL sync (deep links). Back/forward resolves lazily to the latest navigation.
+    const urlNavigateRef = useRef<(key: string) => void>(() => { })
+    const { readKey: readUrlKey, writeKey: writeUrlKey } = useCarouselUrlSync({
+        enabled: !!urlSync,
+        ...(typeof urlSync === 'object' ? urlSync : {}),
+        onNavigateToKey: (key) => urlNavigateRef.current(key),
+        logger,
+    })
+
+    // Live region text is written imperatively: announcing must not re-render the item list
+    const liveRegionRef = useRef<HTMLDivElement>(null)
+    const slideLabelRef = useRef(slideLabel)
+    slideLabelRef.current = slideLabel
+
+    // Internal observers of the active index (live region, composable children, URL, sync group)
+    const publishActiveIndex = useCallback((index: number, reason: CarouselChangeReason) => {
+        if (liveRegionRef.current) {
+            liveRegionRef.current.textContent = slideLabelRef.current(index, items.length)
+        }
+        store.setSnapshot({ activeIndex: index })
+        const item = items[index]
+        if (item !== undefined) writeUrlKey(getItemKey(item, index))
+        // Changes received from the group are never re-broadcast (no feedback loops)
+        if (reason !== 'sync' && syncGroup && syncMemberRef.current) {
+            syncGroup.broadcast(syncMemberRef.current, index)
+        }
+    }, [items, store, syncGroup, writeUrlKey, getItemKey])
+
+    /**
+     * Single exit point for active item changes.
+     * Dedups on (index, item) so a re-ordered list still reports the new item at the same index.
+     */
+    const emitActiveIndex = useCallback((index: number, reason: CarouselChangeReason) => {
+        const item = items[index]
+        if (index < 0 || item === undefined) return
+        if (index === lastActiveIndexRef.current && item === lastActiveItemRef.current) return
+
+        lastActiveIndexRef.current = index
+        lastActiveItemRef.current = item
+        logger.log('NAV', `Active index → ${index} (${reason})`)
+
+        publishActiveIndex(index, reason)
+
+        activeItemCallbackRef.current?.(item)
+        activeIndexCallbackRef.current?.(index, reason)
+    }, [items, logger, publishActiveIndex])
+
+    // Reason attributed to the next onNavigate call (arrows, handle, keyboard share one nav path)
+    const navReasonRef = useRef<CarouselChangeReason>('arrow')
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // KEYBOARD & ROVING FOCUS: one tabbable slot that follows the active item
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    // DOM slot under the given scroll position (clones included)
+    const getDomIndexAtScroll = useCallback((scrollLeft: number) => {
+        const stride = layout.domStride > 0 ? layout.domStride : layout.cardWidth + layout.gap
+        if (stride <= 0 || allItems.length === 0) return -1
+        return Math.max(0, Math.min(Math.round(getRawIndexAtScroll(scrollLeft, stride)), allItems.length - 1))
+    }, [layout.domStride, layout.cardWidth, layout.gap, allItems.length, getRawIndexAtScroll])
+
+    const getRealIndex = useCallback((domIndex: number) => {
+        if (!infinite || items.length === 0) return domIndex
+        return ((domIndex - bufferBeforeCount) % items.length + items.length) % items.length
+    }, [infinite, items.length, bufferBeforeCount])
+
+    // Persisted position: active item key + offset from its resting position (in strides)
+    const getPersistAnchor = useCallback((scrollLeft: number) => {
+        const stride = layout.domStride > 0 ? layout.domStride : layout.cardWidth + layout.gap
+        const domIndex = getDomIndexAtScroll(scrollLeft)
+        const realIndex = getRealIndex(domIndex)
+        const item = items[realIndex]
+        if (stride <= 0 || item === undefined) return undefined
+        return { itemKey: getItemKey(item, realIndex), offset: getRawIndexAtScroll(scrollLeft, stride) - domIndex }
+    }, [layout.domStride, layout.cardWidth, layout.gap, getDomIndexAtScroll, getRealIndex, items, getItemKey, getRawIndexAtScroll])
+
+    const getPageSize = useCallback(() => {
+        const el = draggableRef.current
+        const stride = layout.domStride > 0 ? layout.domStride : layout.cardWidth + layout.gap
+        if (!el || stride <= 0) return 1
+        return Math.max(1, Math.floor(axis.getClientSize(el) / stride))
+    }, [draggableRef, layout.domStride, layout.cardWidth, layout.gap, axis])
+
+    const { syncRovingFocus, getRovingIndex, events: keyboardEvents } = useCarouselKeyboard({
+        containerRef: draggableRef,
+        itemsCount: items.length,
+        getPageSize,
+        getRealIndex,
+        // Navigation helpers are declared further down; these run only from events
+        onAction: (action) => handleKeyAction(action),
+        onFocusItem: (domIndex) => handleFocusItem(domIndex),
+        orientation,
+        direction: dir,
         logger,
     })
 
@@ -340,19 +962,23 @@ function BaseCarouselInner<T>({
         // Get expected width from CSS variable.
         // CSS variables handle responsive widths natively via media queries,
         // avoiding the SSR timing issues of the old JS-based approach.
-        const expectedWidth = getComputedItemWidth(widthCssVar, fallbackWidth)
+        // slidesPerView sizes items in JS from the container instead.
+        const expectedWidth = slideSize ?? getComputedItemWidth(widthCssVar, fallbackWidth)
         const widthDiff = Math.abs(cardWidth - expectedWidth)
 
         // Consider "measured" if width is within 10px of expected value
         // This handles sub-pixel differences and slight rendering variations
         const TOLERANCE = 10
         const hasNoChildren = node.children.length === 0
-        const isNotExpectedWidth = widthDiff > TOLERANCE
+        // Variable-width items size themselves: the first item says nothing about the width variable
+        const isNotExpectedWidth = !variableWidth && widthDiff > TOLERANCE
 
         // Also check that scroll dimensions are ready (scrollWidth > clientWidth for scrollable content)
         // Without this, we might initialize with maxScroll=0 and clamp positions incorrectly
-        const hasScrollableContent = node.scrollWidth > node.clientWidth
-        const isUnmeasured = hasNoChildren || isNotExpectedWidth || !hasScrollableContent
+        const hasScrollableContent = axis.getScrollSize(node) > axis.getClientSize(node)
+        // slidesPerView: items are sized only once the container has been measured
+        const isAwaitingSlideSize = fixedSlidesPerView !== null && slideSize === null
+        const isUnmeasured = hasNoChildren || isNotExpectedWidth || !hasScrollableContent || isAwaitingSlideSize
 
         if (isUnmeasured && !hasInitialized.current) {
             logger.log('INIT', 'Skipping - not ready for initialization', {
@@ -363,8 +989,8 @@ function BaseCarouselInner<T>({
                 widthDiff,
                 itemWidthVar,
                 hasScrollableContent,
-                scrollWidth: node.scrollWidth,
-                clientWidth: node.clientWidth,
+                scrollWidth: axis.getScrollSize(node),
+                clientWidth: axis.getClientSize(node),
                 gap
             })
             return
@@ -392,51 +1018,75 @@ function BaseCarouselInner<T>({
 
         // If it's a subsequent run (e.g. resize), preserve the current active item
         if (hasInitialized.current) {
-            const currentIndex = Math.round(node.scrollLeft / stride)
-            targetPos = currentIndex * stride
+            // Variable width: index from the cached (pre-resize) table, target from a fresh one
+            const currentIndex = Math.round(getRawIndexAtScroll(axis.getScroll(node), stride))
+            if (variableWidth) isCacheDirty.current = true
+            targetPos = getScrollAtRawIndex(currentIndex, stride)
             // Log the re-init for debugging to understand why it ran
             logger.log('INIT', `Re-initializing (Resize/Update)`, {
                 currentIndex,
                 targetPos,
-                prevScroll: node.scrollLeft,
+                prevScroll: axis.getScroll(node),
                 stride
             })
         } else {
-            const savedPosition = getSavedPosition()
-
-            if (savedPosition !== null) {
+            // Deep link first: an explicit URL beats the last visit's position
+            const urlKey = readUrlKey()
+            const urlIndex = urlKey !== null
+                ? items.findIndex((item, index) => getItemKey(item, index) === urlKey)
+                : -1
+            const saved = urlIndex >= 0 ? null : getSavedEntry()
+            // Prefer the saved item over raw pixels: the viewport, gap or list may have changed since the save
+            const savedIndex = saved?.itemKey !== undefined
+                ? items.findIndex((item, index) => getItemKey(item, index) === saved.itemKey)
+                : -1
+
+            if (saved && savedIndex >= 0) {
+                const maxScroll = Math.max(0, axis.getScrollSize(node) - axis.getClientSize(node))
+                const targetIndex = infinite ? bufferBeforeCount + savedIndex : savedIndex
+                const targetNode = getSlotElement(node, targetIndex)
+                // Same resting positions as the rest of the carousel (aligned per `align`)
+                const restingPos = variableWidth
+                    ? getScrollAtRawIndex(targetIndex + (saved.offset ?? 0), stride)
+                    : (infinite && targetNode
+                        ? getAlignedScroll(axis.getOffset(targetNode), axis.getSize(targetNode), axis.getClientSize(node), alignment, edgeInset)
+                        : targetIndex * stride) + (saved.offset ?? 0) * stride
+                targetPos = Math.max(0, Math.min(restingPos, maxScroll))
+                logger.log('CACHE', `Restoring anchored position`, { itemKey: saved.itemKey, savedIndex, offset: saved.offset, targetPos })
+            } else if (saved) {
                 // Clamp to valid scroll range to handle viewport size changes
-                const maxScroll = Math.max(0, node.scrollWidth - node.clientWidth)
-                targetPos = Math.min(savedPosition, maxScroll)
-                logger.log('CACHE', `Restoring scroll position`, { saved: savedPosition, clamped: targetPos, maxScroll })
+                const maxScroll = Math.max(0, axis.getScrollSize(node) - axis.getClientSize(node))
+                targetPos = Math.min(saved.scrollLeft, maxScroll)
+                logger.log('CACHE', `Restoring scroll position`, { saved: saved.scrollLeft, clamped: targetPos, maxScroll })
             } else {
                 // DOM-BASED INITIALIZATION (Deterministically matches CSS Snap)
                 // Instead of calculating theoretical position (which drifts due to padding/snap logic),
-                // we measure exactly where the target item is and center it manually.
-                const startIdx = typeof initialIndex === 'number' ? initialIndex : 0
-                const targetIndex = infinite ? bufferBeforeCount + startIdx : startIdx
-                const targetNode = node.children[targetIndex] as HTMLElement
-
-                if (targetNode) {
-                    // Center the item: ItemCenter - ContainerCenter
+                // we measure exactly where the target item is and align it manually.
+                const startIdx = urlIndex >= 0 ? urlIndex
+                    : typeof activeIndex === 'number' ? activeIndex
+                        : typeof initialIndex === 'number' ? initialIndex : 0
+                // startIdx is a reported index (first of the group): align the slot groupLead items after it
+                const targetIndex = infinite ? bufferBeforeCount + startIdx + groupLead : startIdx
+                const targetNode = getSlotElement(node, targetIndex)
+
+                if (!infinite) {
+                    // Finite: padding rests item i aligned at i * stride, like persisted restores
+                    targetPos = Math.max(0, getScrollAtRawIndex(targetIndex, stride))
+                } else if (targetNode) {
+                    // Align the item (e.g. ItemCenter - ContainerCenter when centered)
                     // This naturally accounts for all padding, margins, and gaps.
-                    const itemCenter = targetNode.offsetLeft + (targetNode.offsetWidth / 2)
-                    const containerCenter = node.clientWidth / 2
-                    targetPos = Math.max(0, itemCenter - containerCenter)
+                    targetPos = Math.max(0, getAlignedScroll(axis.getOffset(targetNode), axis.getSize(targetNode), axis.getClientSize(node), alignment, edgeInset))
 
                     logger.log('INIT', 'DOM-based positioning used', {
                         targetIndex,
-                        itemCenter,
-                        containerCenter,
+                        alignment,
                         targetPos,
-                        offsetLeft: targetNode.offsetLeft,
+                        offset: axis.getOffset(targetNode),
                         initialIndex
                     })
                 } else {
                     // Fallback to theoretical math if DOM node missing (unlikely in useLayoutEffect)
-                    const startIdx = typeof initialIndex === 'number' ? initialIndex : 0
-                    const targetIdx = infinite ? bufferBeforeCount + startIdx : startIdx
-                    targetPos = targetIdx * stride
+                    targetPos = targetIndex * stride
                     logger.log('INIT', 'Fallback to theoretical positioning', { targetPos, initialIndex })
                 }
             }
@@ -453,12 +1103,12 @@ function BaseCarouselInner<T>({
         }
 
         // Check if correction needed (idempotent - safe to call multiple times)
-        const positionDrift = Math.abs(node.scrollLeft - targetPos)
+        const positionDrift = Math.abs(axis.getScroll(node) - targetPos)
         const needsCorrection = !hasInitialized.current || positionDrift > stride / 2
 
         logger.log('INIT', 'Target Calc Result', {
             targetPos,
-            currentScroll: node.scrollLeft,
+            currentScroll: axis.getScroll(node),
             needsCorrection,
             hasInitialized: hasInitialized.current,
             infinite,
@@ -468,7 +1118,7 @@ function BaseCarouselInner<T>({
         if (needsCorrection) {
             logger.log('INIT', `Applying position correction`, {
                 elapsedMs: getElapsedMs(),
-                current: node.scrollLeft,
+                current: axis.getScroll(node),
                 target: targetPos,
                 drift: positionDrift,
                 firstInit: !hasInitialized.current
@@ -477,26 +1127,27 @@ function BaseCarouselInner<T>({
             // Disable snap during position set
             node.style.scrollSnapType = 'none'
 
-            // Apply padding synchronously (iOS race condition fix)
-            if (infinite) {
-                const centerPadding = `calc(50% - ${cardWidth / 2}px)`
-                node.style.paddingLeft = centerPadding
-                node.style.paddingRight = centerPadding
-                node.style.scrollPaddingLeft = centerPadding
-                node.style.scrollPaddingRight = centerPadding
+            // Apply padding synchronously (iOS race condition fix): centered and end-aligned
+            // padding depends on the card width measured just now
+            if (alignment !== 'start') {
+                const padding = getAlignPadding(alignment, cardWidth, edgeInset)
+                node.style[axis.paddingStart] = padding.start
+                node.style[axis.paddingEnd] = padding.end
+                node.style[axis.scrollPaddingStart] = padding.scrollStart
+                node.style[axis.scrollPaddingEnd] = padding.scrollEnd
             }
 
             logger.log('INIT', 'DRIFT DEBUG: Before scrollLeft set', {
-                currentScroll: node.scrollLeft,
+                currentScroll: axis.getScroll(node),
                 targetPos,
-                paddingLeft: node.style.paddingLeft,
-                clientWidth: node.clientWidth
+                paddingStart: node.style[axis.paddingStart],
+                clientWidth: axis.getClientSize(node)
             })
 
-            node.scrollLeft = targetPos
+            axis.setScroll(node, targetPos)
 
             logger.log('INIT', 'DRIFT DEBUG: After scrollLeft set (before flush)', {
-                scrollLeftNow: node.scrollLeft
+                scrollLeftNow: axis.getScroll(node)
             })
 
             // Force synchronous layout flush to ensure scrollLeft is applied
@@ -504,14 +1155,14 @@ function BaseCarouselInner<T>({
             void node.offsetHeight
 
             logger.log('INIT', 'DRIFT DEBUG: After layout flush (before snap re-enable)', {
-                scrollLeftNow: node.scrollLeft
+                scrollLeftNow: axis.getScroll(node)
             })
 
             // Re-enable snap
             node.style.scrollSnapType = ''
 
             logger.log('INIT', 'DRIFT DEBUG: After snap re-enabled', {
-                scrollLeftNow: node.scrollLeft
+                scrollLeftNow: axis.getScroll(node)
             })
         }
 
@@ -520,10 +1171,18 @@ function BaseCarouselInner<T>({
 
         if (!hasInitialized.current) {
             hasInitialized.current = true
+            // Seed dedup so the initial position is not reported as a change
+            const initialActiveIndex = getActiveIndexAtScroll(axis.getScroll(node))
+            if (initialActiveIndex >= 0) {
+                lastActiveIndexRef.current = initialActiveIndex
+                lastActiveItemRef.current = items[initialActiveIndex]
+                store.setSnapshot({ activeIndex: initialActiveIndex })
+            }
+            syncRovingFocus(getDomIndexAtScroll(axis.getScroll(node)))
             transition({ type: 'INITIALIZE' })
         }
         if (!isReady) markReady()
-    }, [items.length, bufferBeforeCount, applyVisuals, isReady, infinite, markReady, layout.cardWidth, layout.gap, triggerLayoutMeasure, transition, getSavedPosition, resizeCount, itemWidthVar, initialIndex])
+    }, [items.length, bufferBeforeCount, applyVisuals, isReady, infinite, markReady, layout.cardWidth, layout.gap, triggerLayoutMeasure, transition, getSavedEntry, readUrlKey, getItemKey, resizeCount, itemWidthVar, initialIndex, activeIndex, getActiveIndexAtScroll, items, syncRovingFocus, getDomIndexAtScroll, store, axis, variableWidth, getRawIndexAtScroll, getScrollAtRawIndex, isCacheDirty, slideSize, fixedSlidesPerView, groupLead, alignment, edgeInset])
 
     // Ref callback: fast path (might work if timing is good)
     const setCarouselRef = useCallback((node: HTMLDivElement | null) => {
@@ -542,6 +1201,103 @@ function BaseCarouselInner<T>({
         }
     }, [items.length, initializeCarousel, draggableRef, resizeCount])
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // SCROLL ANCHORING: keep the visible item stationary when `items` changes
+    // ═══════════════════════════════════════════════════════════════════════════
+    // Prepending shifts every card right (and in infinite mode any length change
+    // resizes the clone buffers), so the same scrollLeft would show another item.
+    // Re-anchor on the item key that was under the scroll position before the commit.
+    const anchorSourceRef = useRef<{ items: T[], bufferBeforeCount: number, infinite: boolean } | null>(null)
+
+    useIsomorphicLayoutEffect(() => {
+        const prev = anchorSourceRef.current
+        anchorSourceRef.current = { items, bufferBeforeCount, infinite }
+
+        const el = draggableRef.current
+        if (!prev || prev.items === items || prev.infinite !== infinite) return
+        if (!el || !hasInitialized.current || prev.items.length === 0 || items.length === 0) return
+
+        const stride = layout.domStride > 0 ? layout.domStride : layout.cardWidth + layout.gap
+        if (stride <= 0) return
+
+        // Variable width: the position cache still describes the previous items here
+        const prevRawIndex = variableWidth
+            ? getIndexAtScroll(childrenPositions.current, axis.getScroll(el), axis.getClientSize(el), alignment)
+            : axis.getScroll(el) / stride
+        const prevDomIndex = Math.round(prevRawIndex)
+        const prevRealIndex = infinite
+            ? ((prevDomIndex - prev.bufferBeforeCount) % prev.items.length + prev.items.length) % prev.items.length
+            : prevDomIndex
+        const anchorItem = prev.items[prevRealIndex]
+        if (anchorItem === undefined) return
+
+        const anchorKey = getItemKey(anchorItem, prevRealIndex)
+        const nextRealIndex = items.findIndex((item, index) => getItemKey(item, index) === anchorKey)
+        if (nextRealIndex < 0) {
+            logger.log('CACHE', `Anchor item ${anchorKey} removed, keeping scroll position`)
+            return
+        }
+
+        // Infinite: land on the original copy (clones are identical, so the jump is invisible)
+        const nextDomIndex = (infinite ? bufferBeforeCount : 0) + nextRealIndex
+        let delta = (nextDomIndex - prevDomIndex) * stride
+        if (variableWidth) {
+            isCacheDirty.current = true
+            delta = getScrollAtRawIndex(nextDomIndex + prevRawIndex - prevDomIndex, stride) - axis.getScroll(el)
+        }
+        if (Math.abs(delta) < 0.5) return
+
+        logger.log('CACHE', `Anchoring ${anchorKey}: slot ${prevDomIndex} → ${nextDomIndex}`, { delta })
+
+        // Same snap-free write as initialization, so snapping cannot animate the correction
+        const prevSnapType = el.style.scrollSnapType
+        el.style.scrollSnapType = 'none'
+        axis.setScroll(el, axis.getScroll(el) + delta)
+        void el.offsetHeight
+        el.style.scrollSnapType = prevSnapType
+        adjustScroll(delta)
+
+        isCacheDirty.current = true
+        updateCache(el)
+        applyVisuals(el)
+
+        // Same item, new index: keep controlled parents and pagination in step
+        emitActiveIndex(getActiveIndexAtScroll(axis.getScroll(el)), 'programmatic')
+        if (persistKey) savePosition(axis.getScroll(el), getPersistAnchor(axis.getScroll(el)))
+    }, [items])
+
+    // Variable width: one item resizing shifts every item after it. Rebuild the position table
+    // and, while idle, keep the same item (and fraction of it) under the scroll position.
+    useCarouselItemResize({
+        enabled: variableWidth,
+        containerRef: draggableRef,
+        slotCount: allItems.length,
+        onResize: () => {
+            const el = draggableRef.current
+            if (!el) return
+            const prevPositions = childrenPositions.current
+            const viewportSize = axis.getClientSize(el)
+            const rawIndex = getIndexAtScroll(prevPositions, axis.getScroll(el), viewportSize, alignment)
+            isCacheDirty.current = true
+            const positions = getItemPositions()
+
+            const canAnchor = hasInitialized.current && getPhase() === 'IDLE' && !isDragging
+                && prevPositions.length === positions.length
+            const delta = canAnchor ? getScrollAtIndex(positions, rawIndex, viewportSize, alignment) - axis.getScroll(el) : 0
+            if (Math.abs(delta) >= 0.5) {
+                logger.log('LAYOUT', 'Item resize anchoring', { rawIndex, delta })
+                const prevSnapType = el.style.scrollSnapType
+                el.style.scrollSnapType = 'none'
+                axis.setScroll(el, axis.getScroll(el) + delta)
+                void el.offsetHeight
+                el.style.scrollSnapType = prevSnapType
+                adjustScroll(delta)
+            }
+            applyVisuals(el)
+        },
+        logger,
+    })
+
     // NOTE: ResizeObserver is now handled by useCarouselLayout hook internally.
     // This useEffect reacts to layout changes and invalidates caches.
     useEffect(() => {
@@ -560,79 +1316,15 @@ function BaseCarouselInner<T>({
 
         const handleScrollEnd = () => {
             // Save position after scroll animation completes
-            savePosition(el.scrollLeft)
+            savePosition(axis.getScroll(el), getPersistAnchor(axis.getScroll(el)))
         }
 
         el.addEventListener('scrollend', handleScrollEnd)
         return () => el.removeEventListener('scrollend', handleScrollEnd)
-    }, [draggableRef, persistKey, savePosition])
+    }, [draggableRef, persistKey, savePosition, getPersistAnchor, axis])
 
     // NOTE: Teleport logic is now handled by useCarouselTeleport hook
 
-    const getActiveItemAtScroll = useCallback((scrollLeft: number, direction: number = 0, overrides?: { cardWidth: number, gap: number }) => {
-        const activeCardWidth = overrides?.cardWidth ?? layout.cardWidth
-        const activeGap = overrides?.gap ?? layout.gap
-        const stride = activeCardWidth + activeGap
-
-        if (stride <= 0 || items.length === 0) return null
-
-        // Use cached domStride from layout hook (measured on resize, not per-scroll)
-        // This avoids triggering layout reflow on every scroll event
-        const activeStride = layout.domStride > 0 ? layout.domStride : stride
-        const effectiveScroll = scrollLeft
-
-        const rawIndex = effectiveScroll / activeStride
-        let totalIndex: number
-
-        // DEBUG: Selection Input
-        logger.log('NAV', 'getActiveItemAtScroll START', {
-            scrollLeft,
-            effectiveScroll,
-            calculatedStride: stride,
-            domStride: activeStride,
-            rawIndex,
-            direction,
-            overrides
-        })
-
-        // EAGER SELECTION: Symmetrical directional bias
-        // Use 30% threshold on mobile for snappy feedback, 50% (standard round) on desktop
-        const EAGER_THRESHOLD = (isMobile && eagerSelectionOnMobile) ? 0.3 : 0.5
-
-        if (direction > 0) {
-            // Swiping forward (left swipe): eagerly select next item at threshold
-            totalIndex = Math.floor(rawIndex + (1 - EAGER_THRESHOLD))
-        } else if (direction < 0) {
-            // Swiping backward (right swipe): eagerly select prev item at threshold
-            totalIndex = Math.ceil(rawIndex - (1 - EAGER_THRESHOLD))
-        } else {
-            // Idle: Standard round (closest item)
-            totalIndex = Math.round(rawIndex)
-        }
-
-        let activeIndex: number
-
-        if (infinite) {
-            activeIndex = ((totalIndex - bufferBeforeCount) % items.length + items.length) % items.length
-        } else {
-            activeIndex = Math.max(0, Math.min(totalIndex, items.length - 1))
-        }
-
-        // DEEP LOG: Selection params
-        logger.log('NAV', 'getActiveItemAtScroll RESULT', {
-            scrollLeft,
-            stride,
-            rawIndex,
-            totalIndex,
-            activeIndex,
-            bufferBeforeCount,
-            itemId: (items[activeIndex] as any)?.id,
-            title: (items[activeIndex] as any)?.title
-        })
-
-        return items[activeIndex] || null
-    }, [layout.cardWidth, layout.gap, layout.domStride, items, infinite, bufferBeforeCount, isMobile, eagerSelectionOnMobile])
-
     const onScrollToItemComplete = useCallback((source: string) => {
         const el = draggableRef.current
         if (!el) return
@@ -679,17 +1371,15 @@ function BaseCarouselInner<T>({
         const stride = layout.cardWidth + layout.gap
         if (stride <= 0) return
 
-        let targetScroll = index * stride
+        let targetScroll = getScrollAtRawIndex(index, stride)
 
         // CORRECTION: Use DOM positioning for clicks to match initialization logic
         // If we use index * stride, we'll scroll to the wrong place due to the accumulated stride error.
-        if (infinite && el.children[index]) {
-            const targetNode = el.children[index] as HTMLElement
-            // Scroll so item center aligns with container center
-            const itemCenter = targetNode.offsetLeft + (targetNode.offsetWidth / 2)
-            const containerCenter = el.clientWidth / 2
-            targetScroll = Math.max(0, itemCenter - containerCenter)
-            logger.log('INTERACT', `Calculated DOM target for click`, { index, itemCenter, containerCenter, targetScroll })
+        const targetNode = infinite ? getSlotElement(el, index) : undefined
+        if (targetNode) {
+            // Scroll so the item rests aligned (centered by default)
+            targetScroll = Math.max(0, getAlignedScroll(axis.getOffset(targetNode), axis.getSize(targetNode), axis.getClientSize(el), alignment, edgeInset))
+            logger.log('INTERACT', `Calculated DOM target for click`, { index, alignment, targetScroll })
         }
 
         // For infinite carousels, disable snap to prevent interference
@@ -701,44 +1391,322 @@ function BaseCarouselInner<T>({
         logger.log('INTERACT', `━━━ Item Click #${thisClickId} START ━━━`, { index, targetScroll })
 
         transition({ type: 'ITEM_CLICK', targetScroll })
-        el.scrollTo({
-            left: targetScroll,
-            behavior: 'smooth',
-        })
+        el.scrollTo(axis.toScrollOptions(el, targetScroll, 'smooth'))
 
         // SNAPPY: Trigger selection change immediately when the user clicks
-        const targetItem = getActiveItemAtScroll(targetScroll)
-        if (targetItem && onActiveItemChange) {
-            lastActiveItemRef.current = targetItem
-            onActiveItemChange(targetItem)
-        }
+        // (finite lists clamp the scroll near the end, so the clicked index is more precise)
+        emitActiveIndex(infinite ? getActiveIndexAtScroll(targetScroll) : index, 'click')
+        syncRovingFocus(index)
 
         // CLEARANCE LOGIC: Use the shared hook to detect scroll completion
         waitForScrollCompletionForClick()
-    }, [layout, draggableRef, infinite, getActiveItemAtScroll, onActiveItemChange, waitForScrollCompletionForClick, transition])
+    }, [layout, draggableRef, infinite, getActiveIndexAtScroll, emitActiveIndex, syncRovingFocus, waitForScrollCompletionForClick, transition, axis, getScrollAtRawIndex, alignment, edgeInset])
+
+    // Pagination jumps: same path as clicking the item (nearest copy when infinite)
+    jumpToItemRef.current = (index: number) => {
+        const el = draggableRef.current
+        if (!el || items.length === 0) return
+        if (infinite) {
+            const realIndex = (((Math.round(index) + groupLead) % items.length) + items.length) % items.length
+            const currentDomIndex = getDomIndexAtScroll(contextRef.current.pendingTarget ?? axis.getScroll(el))
+            scrollToThisItem(findNearestCloneIndex(currentDomIndex, realIndex, items.length))
+        } else {
+            scrollToThisItem(Math.max(0, Math.min(Math.round(index), items.length - 1)))
+        }
+    }
+
+    useEffect(() => {
+        store.setSnapshot({ count: items.length, infinite, slidesPerGroup })
+    }, [store, items.length, infinite, slidesPerGroup])
 
     // Navigation Hook - Phase 2: uses coordinator as single source of truth
-    const { handleScrollNav, scrollLeft, scrollRight } = useCarouselNavigation({
+    const { handleScrollNav, scrollToIndex } = useCarouselNavigation({
         containerRef: draggableRef,
         infinite: !!infinite,
         layout: { cardWidth: layout.cardWidth, gap: layout.gap },
         cancelMomentum,
         preTeleport,
         coordinator: { transition, getPhase, getContext, contextRef, isBusy: () => getPhase() !== 'IDLE', isBlocking: () => getPhase() === 'BOUNCING' || getPhase() === 'TELEPORTING' },
-        onNavigate: (targetScroll) => {
-            const targetItem = getActiveItemAtScroll(targetScroll)
-            if (targetItem && onActiveItemChange) {
-                lastActiveItemRef.current = targetItem
-                onActiveItemChange(targetItem)
+        onNavigate: (targetScroll, targetIndex) => {
+            // Finite lists clamp the scroll near the end: trust the requested index when known
+            const isExact = !infinite && targetIndex !== undefined
+            emitActiveIndex(isExact ? targetIndex : getActiveIndexAtScroll(targetScroll), navReasonRef.current)
+            syncRovingFocus(isExact ? targetIndex : getDomIndexAtScroll(targetScroll))
+        },
+        getItemPositions: variableWidth ? getItemPositions : undefined,
+        align: alignment,
+        slidesPerGroup,
+        orientation,
+        direction: dir,
+        logger,
+    })
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // IMPERATIVE HANDLE: external buttons, keyboard shortcuts and deep links
+    // ═══════════════════════════════════════════════════════════════════════════
+    const navigateTo = useCallback((index: number, options: CarouselGoToOptions, reason: CarouselChangeReason) => {
+        const el = draggableRef.current
+        if (!el || items.length === 0) return
+
+        let domIndex: number
+        if (infinite) {
+            // Slot to center: groupLead items after the requested first-of-group item
+            const realIndex = (((Math.round(index) + groupLead) % items.length) + items.length) % items.length
+            if (options.animate === false) {
+                // Instant jumps land on the original set (always inside the teleport safe zone)
+                domIndex = bufferBeforeCount + realIndex
+            } else {
+                // Smooth scrolls take the shortest path across clones; preTeleport
+                // re-bases the target if it falls outside the safe zone
+                const stride = layout.domStride > 0 ? layout.domStride : layout.cardWidth + layout.gap
+                const base = contextRef.current.pendingTarget ?? axis.getScroll(el)
+                const currentDomIndex = stride > 0 ? getDomIndexAtScroll(base) : bufferBeforeCount
+                domIndex = findNearestCloneIndex(currentDomIndex, realIndex, items.length)
+            }
+        } else {
+            domIndex = Math.max(0, Math.min(Math.round(index), items.length - 1))
+        }
+
+        logger.log('NAV', `goTo(${index})`, { domIndex, animate: options.animate !== false, reason })
+        navReasonRef.current = reason
+        scrollToIndex(domIndex, options)
+    }, [draggableRef, items.length, infinite, bufferBeforeCount, layout, contextRef, scrollToIndex, logger, axis, getDomIndexAtScroll, groupLead])
+
+    const navigate = useCallback((direction: -1 | 1, reason: CarouselChangeReason) => {
+        navReasonRef.current = reason
+        handleScrollNav(direction)
+    }, [handleScrollNav])
+
+    const goTo = useCallback((index: number, options: CarouselGoToOptions = {}) => {
+        navigateTo(index, options, 'programmatic')
+    }, [navigateTo])
+
+    const getActiveIndex = useCallback(() => {
+        const el = draggableRef.current
+        if (!el) return typeof initialIndex === 'number' ? initialIndex : 0
+        const position = contextRef.current.pendingTarget ?? axis.getScroll(el)
+        return Math.max(0, getActiveIndexAtScroll(position))
+    }, [draggableRef, contextRef, getActiveIndexAtScroll, initialIndex, axis])
+
+    // Keyboard: arrows and pages step, Home/End jump (all reported with reason 'keyboard')
+    const handleKeyAction = (action: CarouselKeyAction) => {
+        const el = draggableRef.current
+        if (!el) return
+
+        if (action.type === 'GO_TO') {
+            navigateTo(action.index, { animate: true }, 'keyboard')
+            return
+        }
+
+        const { delta } = action
+        const direction = delta > 0 ? 1 : -1
+        if (infinite) {
+            if (Math.abs(delta) === 1) {
+                // Same path as the arrows (rapid presses catch up like rapid clicks)
+                navigate(direction, 'keyboard')
+                return
+            }
+            const currentDomIndex = getDomIndexAtScroll(contextRef.current.pendingTarget ?? axis.getScroll(el))
+            navReasonRef.current = 'keyboard'
+            scrollToIndex(currentDomIndex + delta)
+            return
+        }
+
+        // Finite: step by item index so the last items (never centered by scroll) stay reachable
+        // Single steps (arrow keys) advance one group, like the arrow buttons
+        const step = Math.abs(delta) === 1 ? delta * Math.max(1, slidesPerGroup) : delta
+        const current = getRovingIndex() ?? getActiveIndex()
+        const target = Math.max(0, Math.min(current + step, items.length - 1))
+        if (target === current) {
+            navigate(direction, 'keyboard') // At the edge: bounce feedback
+            return
+        }
+        navigateTo(target, { animate: true }, 'keyboard')
+    }
+
+    const handleFocusItem = (domIndex: number) => {
+        if (infinite) {
+            navReasonRef.current = 'keyboard'
+            scrollToIndex(domIndex)
+        } else {
+            navigateTo(domIndex, { animate: true }, 'keyboard')
+        }
+    }
+
+    const refreshLayout = useCallback(() => {
+        const el = draggableRef.current
+        if (!el) return
+        triggerLayoutMeasure()
+        isCacheDirty.current = true
+        isContainerWidthDirty.current = true
+        updateCache(el)
+        isCacheDirty.current = false
+        applyVisuals(el)
+    }, [draggableRef, triggerLayoutMeasure, isCacheDirty, isContainerWidthDirty, updateCache, applyVisuals])
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // WHEEL: notches step like the arrows, trackpad gestures take over from programmatic scrolls
+    // ═══════════════════════════════════════════════════════════════════════════
+    const wheelOptions = typeof wheel === 'object' ? wheel : undefined
+
+    useCarouselWheel({
+        containerRef: draggableRef,
+        enabled: !!wheel && items.length > 0,
+        mapVertical: wheelOptions?.mapVertical,
+        stepPerNotch: wheelOptions?.stepPerNotch,
+        // Teleports and edge bounces own the scroll position; rapid notches while scrolling catch up like arrows
+        canStep: () => hasInitialized.current && getPhase() !== 'TELEPORTING' && getPhase() !== 'BOUNCING',
+        onStep: (direction) => navigate(direction, 'wheel'),
+        onInterrupt: () => {
+            // Clear pending scroll target if user uses mouse wheel
+            if (contextRef.current.pendingTarget !== null) {
+                logger.log('INTERACT', 'Wheel: Interrupting programmatic scroll')
+                transition({ type: 'USER_INTERRUPT' })  // Coordinator: SCROLLING -> IDLE (clears pendingTarget)
+                if (draggableRef.current) draggableRef.current.style.scrollSnapType = ''
+            }
+            if (snapTimeoutRef.current) {
+                logger.log('INTERACT', 'Wheel: Clearing snap timeout')
+                clearTimeout(snapTimeoutRef.current)
+                snapTimeoutRef.current = null
             }
         },
+        orientation,
+        direction: dir,
         logger,
     })
 
-    const activeItemCallbackRef = useRef(onActiveItemChange)
-    activeItemCallbackRef.current = onActiveItemChange
-    const getterRef = useRef(getActiveItemAtScroll)
-    getterRef.current = getActiveItemAtScroll
+    // ═══════════════════════════════════════════════════════════════════════════
+    // AUTOPLAY: timer-driven navigation, gated on the coordinator being IDLE
+    // ═══════════════════════════════════════════════════════════════════════════
+    const rootRef = useRef<HTMLDivElement>(null)
+    const autoplayOptions = typeof autoplay === 'object' ? autoplay : undefined
+
+    const handleAutoplayAdvance = useCallback((direction: -1 | 1) => {
+        const el = draggableRef.current
+        if (!el) return
+
+        if (!infinite) {
+            // Finite lists rewind instead of bouncing against the edge
+            const maxScroll = axis.getScrollSize(el) - axis.getClientSize(el)
+            const isAtStart = axis.getScroll(el) <= LAYOUT_CONFIG.EDGE_TOLERANCE_START
+            const isAtEnd = axis.getScroll(el) >= maxScroll - LAYOUT_CONFIG.EDGE_TOLERANCE_END
+            if (direction === 1 && isAtEnd) {
+                navigateTo(0, { animate: true }, 'autoplay')
+                return
+            }
+            if (direction === -1 && isAtStart) {
+                navigateTo(items.length - 1, { animate: true }, 'autoplay')
+                return
+            }
+        }
+        navigate(direction, 'autoplay')
+    }, [draggableRef, infinite, items.length, navigate, navigateTo, axis])
+
+    const {
+        isPlaying: isAutoplaying,
+        play,
+        pause,
+        getProgress: getAutoplayProgress,
+    } = useCarouselAutoplay({
+        enabled: !!autoplay && items.length > 1,
+        rootRef,
+        canAdvance: () => hasInitialized.current && getPhase() === 'IDLE',
+        onAdvance: handleAutoplayAdvance,
+        interval: autoplayOptions?.interval,
+        direction: autoplayOptions?.direction,
+        stopOnInteraction: autoplayOptions?.stopOnInteraction,
+        pauseOnHover: autoplayOptions?.pauseOnHover,
+        pauseOnFocus: autoplayOptions?.pauseOnFocus,
+        pauseOnHidden: autoplayOptions?.pauseOnHidden,
+        pauseWhenOffscreen: autoplayOptions?.pauseWhenOffscreen,
+        respectReducedMotion: autoplayOptions?.respectReducedMotion,
+        logger,
+    })
+
+    const autoplayCallbackRef = useRef(onAutoplayChange)
+    autoplayCallbackRef.current = onAutoplayChange
+    const isAutoplayingRef = useRef(isAutoplaying)
+    isAutoplayingRef.current = isAutoplaying
+
+    useEffect(() => {
+        if (!autoplay) return
+        autoplayCallbackRef.current?.(isAutoplaying)
+    }, [autoplay, isAutoplaying])
+
+    useImperativeHandle(ref, () => ({
+        goTo,
+        next: () => navigate(1, 'programmatic'),
+        prev: () => navigate(-1, 'programmatic'),
+        getActiveIndex,
+        getPhase,
+        refreshLayout,
+        play,
+        pause,
+        isPlaying: () => isAutoplayingRef.current,
+        getAutoplayProgress,
+    }), [goTo, navigate, getActiveIndex, getPhase, refreshLayout, play, pause, getAutoplayProgress])
+
+    // CONTROLLED MODE: follow the activeIndex prop once initialized.
+    // Dedup refs are updated first so the resulting scroll is not echoed back
+    // through onActiveIndexChange (no feedback loop with the parent's state).
+    const normalizeIndex = (index: number) => infinite
+        ? ((Math.round(index) % items.length) + items.length) % items.length
+        : Math.max(0, Math.min(Math.round(index), items.length - 1))
+
+    useEffect(() => {
+        if (typeof activeIndex !== 'number' || !hasInitialized.current || items.length === 0) return
+        const target = normalizeIndex(activeIndex)
+        if (target === lastActiveIndexRef.current) return
+
+        lastActiveIndexRef.current = target
+        lastActiveItemRef.current = items[target]
+        publishActiveIndex(target, 'programmatic')
+        navigateTo(target, { animate: true }, 'programmatic')
+    }, [activeIndex]) // Only prop changes drive scrolling; user gestures update the dedup refs
+
+    // SYNC GROUP: follow another member. Reported as 'sync' and not re-broadcast.
+    syncToRef.current = (index: number) => {
+        if (!hasInitialized.current || items.length === 0) return
+        const target = normalizeIndex(index)
+        if (target === lastActiveIndexRef.current) return
+        navigateTo(target, { animate: true }, 'sync')
+    }
+
+    // URL SYNC: back/forward to another key. Reported as 'programmatic'.
+    urlNavigateRef.current = (key: string) => {
+        if (!hasInitialized.current) return
+        const target = items.findIndex((item, index) => getItemKey(item, index) === key)
+        if (target < 0 || target === lastActiveIndexRef.current) return
+        navigateTo(target, { animate: true }, 'programmatic')
+    }
+
+    const getterRef = useRef(getActiveIndexAtScroll)
+    getterRef.current = getActiveIndexAtScroll
+    const emitterRef = useRef(emitActiveIndex)
+    emitterRef.current = emitActiveIndex
+    const rovingAtScrollRef = useRef((scrollLeft: number) => syncRovingFocus(getDomIndexAtScroll(scrollLeft)))
+    rovingAtScrollRef.current = (scrollLeft: number) => syncRovingFocus(getDomIndexAtScroll(scrollLeft))
+
+    // Clones are duplicates for screen readers and keyboard users: make them inert.
+    // Set imperatively because React < 19 does not know the boolean `inert` attribute.
+    useIsomorphicLayoutEffect(() => {
+        const el = draggableRef.current
+        if (!el || !infinite) return
+        const originalsEnd = bufferBeforeCount + items.length
+        getSlotElements(el).forEach((slot) => {
+            const index = getSlotIndex(el, slot)
+            const isClone = index < bufferBeforeCount || index >= originalsEnd
+            slot.toggleAttribute('inert', isClone)
+        })
+    }, [allItems, renderStart, renderEnd, infinite, bufferBeforeCount, items.length])
+
+    // Slots re-created by a re-render (new items, buffer change, render window move) start at
+    // tabIndex=-1: hand the roving tabIndex back to the slot that owns it
+    useIsomorphicLayoutEffect(() => {
+        const el = draggableRef.current
+        if (!el || !hasInitialized.current) return
+        syncRovingFocus(getRovingIndex() ?? getDomIndexAtScroll(contextRef.current.pendingTarget ?? axis.getScroll(el)))
+    }, [allItems, renderStart, renderEnd])
 
     // Track last scroll position to determine direction for eager updates
     const lastScrollLeftRef = useRef(0)
@@ -746,8 +1714,7 @@ function BaseCarouselInner<T>({
     const lastMeaningfulDirectionRef = useRef(0)
 
     useEffect(() => {
-        const currentCallback = activeItemCallbackRef.current
-        if (!currentCallback || items.length === 0) return
+        if (items.length === 0) return
         const el = draggableRef.current
         if (!el) return
 
@@ -780,26 +1747,19 @@ function BaseCarouselInner<T>({
             }
 
             // Pass stabilized direction to getter for eager selection
-            const activeItem = getterRef.current(scrollLeft, direction)
-
-            // Use a stable reference check to avoid redundant calls
-            if (activeItem && activeItem !== lastActiveItemRef.current) {
-                lastActiveItemRef.current = activeItem
-                // Always call the latest version of the callback
-                if (activeItemCallbackRef.current) {
-                    activeItemCallbackRef.current(activeItem)
-                }
-            }
+            // (emitter dedups, so redundant scroll events are free)
+            emitterRef.current(getterRef.current(scrollLeft, direction), 'drag')
+            rovingAtScrollRef.current(scrollLeft)
 
             lastScrollLeftRef.current = scrollLeft
         }
 
         const handleScrollEnd = () => {
-            emitActiveItem(el.scrollLeft)
+            emitActiveItem(axis.getScroll(el))
         }
 
         const handleScrollImmediate = () => {
-            emitActiveItem(el.scrollLeft)
+            emitActiveItem(axis.getScroll(el))
         }
 
         const supportsScrollEnd = typeof window !== 'undefined' && 'onscrollend' in window
@@ -823,7 +1783,7 @@ function BaseCarouselInner<T>({
             el.removeEventListener('scroll', handleScrollImmediate)
             clearTimeout(timeoutId)
         }
-    }, [items.length]) // Only items.length matters now, callback changes are handled via ref
+    }, [items.length, axis]) // Only items.length and the axis matter, callback changes are handled via refs
 
     // Re-apply visuals after render
     useIsomorphicLayoutEffect(() => {
@@ -847,16 +1807,32 @@ function BaseCarouselInner<T>({
 
     const handleArrowClick = (direction: 'left' | 'right') => {
         lastInteractionRef.current = Date.now()
-        if (direction === 'left') scrollLeft()
-        else scrollRight()
+        navigate(direction === 'left' ? -1 : 1, 'arrow')
     }
 
+    // Stands in for unmounted slots outside the render window (their sizes plus the gaps between them)
+    const renderSpacer = (slotCount: number) => (
+        <div
+            data-carousel-spacer=""
+            aria-hidden="true"
+            className="flex-shrink-0"
+            style={{ [sizeProperty]: `calc(${slotCount} * (${itemSizeCssValue} + ${resolvedGap}px) - ${resolvedGap}px)` }}
+        />
+    )
+
     return (
         <div
-            className="base-carousel-container relative carousel-hover-group overflow-hidden"
+            ref={rootRef}
+            dir={dir}
+            role="region"
+            aria-roledescription="carousel"
+            aria-label={label}
+            className={`base-carousel-container relative carousel-hover-group overflow-hidden ${isVertical ? 'is-vertical' : ''}`}
             style={{
                 paddingTop: verticalPadding,
-                paddingBottom: verticalPadding
+                paddingBottom: verticalPadding,
+                // A vertical rail scrolls inside the height its parent gives it
+                ...(isVertical ? { height: '100%' } : {}),
             }}
         >
             <CarouselArrow
@@ -864,12 +1840,14 @@ function BaseCarouselInner<T>({
                 onClick={() => handleArrowClick('left')}
                 className="prev"
                 label={prevLabel}
+                orientation={orientation}
+                dir={dir}
             />
 
             {/* SKELETON LOADER OVERLAY - shows while infinite carousel initializes */}
             {infinite && !isReady && (
                 <div
-                    className="absolute inset-0 z-10 flex gap-6 overflow-hidden pointer-events-none px-4"
+                    className={`absolute inset-0 z-10 flex ${isVertical ? 'flex-col' : ''} gap-6 overflow-hidden pointer-events-none px-4`}
                     aria-hidden="true"
                     style={{
                         paddingTop: 0,
@@ -880,7 +1858,7 @@ function BaseCarouselInner<T>({
                         <div
                             key={i}
                             className={`flex-shrink-0 ${itemClassName}`}
-                            style={{ width: widthCssValue }}
+                            style={{ [sizeProperty]: itemSizeCssValue }}
                         >
                             {renderSkeleton ? renderSkeleton(i) : (
                                 <div className="w-full h-full bg-gradient-to-br from-gray-100 via-gray-200 to-gray-100 animate-pulse rounded-md" style={{ minHeight: '200px' }} />
@@ -936,19 +1914,9 @@ function BaseCarouselInner<T>({
                     // 4. Call the draggable hook's handler
                     events.onPointerDown(e)
                 }}
-                onWheel={() => {
-                    // Clear pending scroll target if user uses mouse wheel
-                    if (contextRef.current.pendingTarget !== null) {
-                        logger.log('INTERACT', 'Wheel: Interrupting programmatic scroll')
-                        transition({ type: 'USER_INTERRUPT' })  // Coordinator: SCROLLING -> IDLE (clears pendingTarget)
-                        if (draggableRef.current) draggableRef.current.style.scrollSnapType = ''
-                    }
-                    if (snapTimeoutRef.current) {
-                        logger.log('INTERACT', 'Wheel: Clearing snap timeout')
-                        clearTimeout(snapTimeoutRef.current)
-                        snapTimeoutRef.current = null
-                    }
-                }}
+                onKeyDown={keyboardEvents.onKeyDown}
+                onFocus={keyboardEvents.onFocus}
+                onPointerDownCapture={keyboardEvents.onPointerDownCapture}
                 onTouchStart={() => {
                     // Mobile Optimization: Minimal logic here.
                     // 1. Clear timeout if exists (sync but cheap)
@@ -959,7 +1927,7 @@ function BaseCarouselInner<T>({
                     // 2. Do NOT transition coordinator state here (too expensive).
                     // Let the native scroll happen or useDraggableScroll handle the gesture.
                 }}
-                className={`base-carousel flex items-stretch overflow-x-auto overscroll-x-none scrollbar-hide select-none ${snap ? `snap-x snap-${snapType}` : ''}`}
+                className={`base-carousel flex items-stretch ${isVertical ? 'is-vertical flex-col overflow-y-auto overscroll-y-none' : 'overflow-x-auto overscroll-x-none'} scrollbar-hide select-none ${cssSnapType ? `${isVertical ? 'snap-y' : 'snap-x'} snap-${cssSnapType}` : ''}`}
                 onPointerUp={events.onPointerUp}
                 onPointerMove={events.onPointerMove}
                 onLostPointerCapture={events.onLostPointerCapture}
@@ -970,26 +1938,23 @@ function BaseCarouselInner<T>({
                     gap: `${resolvedGap}px`,
                     cursor: isDragging ? 'grabbing' : 'grab',
                     scrollBehavior: 'auto',
+                    // Scroll anchoring is handled explicitly when items change
+                    overflowAnchor: 'none',
                     // Optimization: tell browser this element is independent for rendering
                     contain: 'paint layout',
-                    // Only apply center-padding for infinite carousels
-                    // Finite carousels should start/end at the edges
-                    ...(infinite ? {
-                        paddingLeft: `calc(50% - ${layout.cardWidth / 2}px)`,
-                        paddingRight: `calc(50% - ${layout.cardWidth / 2}px)`,
-                        scrollPaddingLeft: `calc(50% - ${layout.cardWidth / 2}px)`,
-                        scrollPaddingRight: `calc(50% - ${layout.cardWidth / 2}px)`,
-                    } : {
-                        paddingLeft: '16px',
-                        paddingRight: '16px',
-                        scrollPaddingLeft: '16px',
-                        scrollPaddingRight: '16px',
-                    }),
+                    // Padding rests item 0 aligned at scroll 0 (centered, or inset from an edge)
+                    [axis.paddingStart]: alignPadding.start,
+                    [axis.paddingEnd]: alignPadding.end,
+                    [axis.scrollPaddingStart]: alignPadding.scrollStart,
+                    [axis.scrollPaddingEnd]: alignPadding.scrollEnd,
+                    ...(isVertical ? { height: '100%' } : {}),
                     minHeight: 0,
                     opacity: (isReady || isInstant) ? 1 : 0,
                 }}
             >
-                {useMemo(() => allItems.map((item, index) => {
+                {renderStart > 0 && renderSpacer(renderStart)}
+                {useMemo(() => allItems.slice(renderStart, renderEnd).map((item, windowIndex) => {
+                    const index = renderStart + windowIndex
                     // Unique keys for clones
                     let type = 'item'
                     // Check logic for types if needed or just use index prefixes
@@ -997,13 +1962,16 @@ function BaseCarouselInner<T>({
                     // Original: bufferBeforeCount to bufferBeforeCount + items.length - 1
                     // Buffer After: Rest
                     let realIndex = 0
+                    let copy = 0
                     if (infinite) {
                         if (index < bufferBeforeCount) {
                             type = 'clone-before'
                             realIndex = index % items.length
+                            copy = Math.floor(index / items.length)
                         } else if (index >= bufferBeforeCount + items.length) {
                             type = 'clone-after'
                             realIndex = (index - bufferBeforeCount - items.length) % items.length
+                            copy = Math.floor((index - bufferBeforeCount - items.length) / items.length)
                         } else {
                             type = 'original'
                             realIndex = index - bufferBeforeCount
@@ -1012,37 +1980,197 @@ function BaseCarouselInner<T>({
                         realIndex = index
                     }
 
-                    const key = `${type}-${getItemKey(item, realIndex)}-${index}`
-                    // Use snap-start for finite carousels (edge alignment), snap-center for infinite
-                    const snapAlignment = infinite ? 'snap-center' : 'snap-start'
+                    // Keyed by item (not slot index): prepending pages must not remount every card
+                    const key = `${type}-${copy}-${getItemKey(item, realIndex)}`
+                    const isClone = type === 'clone-before' || type === 'clone-after'
+                    // Snap the item edge (or center) named by the alignment
+                    const snapAlignment = SNAP_ALIGN_CLASS[alignment]
 
                     return (
                         <div
                             key={key}
-                            className={`carousel-item flex-shrink-0 ${itemClassName} cursor-pointer ${snapAlignment} snap-stop-always`}
+                            data-carousel-slot={index}
+                            tabIndex={-1} // Roving tabIndex: the active slot is promoted to 0 imperatively
+                            role="group"
+                            aria-roledescription="slide"
+                            aria-label={slideLabel(realIndex, items.length)}
+                            aria-hidden={isClone || undefined}
+                            className={`carousel-item flex-shrink-0 ${itemClassName} cursor-pointer ${snapAlignment}${isFreeMode ? '' : ' snap-stop-always'}`}
                             style={{
-                                width: widthCssValue,
+                                // Variable-width items size themselves
+                                ...(variableWidth ? {} : { [sizeProperty]: itemSizeCssValue }),
                                 WebkitFontSmoothing: 'subpixel-antialiased',
                                 WebkitTapHighlightColor: 'transparent',
-                                scrollSnapStop: 'always',
+                                scrollSnapStop: isFreeMode ? 'normal' : 'always',
                                 contain: 'layout paint',
                             }}
                         >
                             {renderItem(item, realIndex, { scrollToItem: () => scrollToThisItem(index) })}
                         </div>
                     )
-                }), [allItems, infinite, bufferBeforeCount, items.length, getItemKey, renderItem, widthCssValue, itemClassName, scrollToThisItem])}
+                }), [allItems, renderStart, renderEnd, infinite, bufferBeforeCount, items.length, getItemKey, renderItem, itemSizeCssValue, itemClassName, scrollToThisItem, slideLabel, sizeProperty, variableWidth, alignment, isFreeMode])}
+                {renderEnd < allItems.length && renderSpacer(allItems.length - renderEnd)}
             </div>
+            {/* LIVE REGION: announces the active slide; silent while autoplay rotates (WAI-ARIA APG) */}
+            <div
+                ref={liveRegionRef}
+                aria-live={isAutoplaying ? 'off' : 'polite'}
+                aria-atomic="true"
+                style={VISUALLY_HIDDEN_STYLE}
+            />
+            {children && (
+                <CarouselStateContext.Provider value={store}>
+                    {children}
+                </CarouselStateContext.Provider>
+            )}
             <CarouselArrow
                 direction="right"
                 onClick={() => handleArrowClick('right')}
                 className="next"
                 label={nextLabel}
+                orientation={orientation}
+                dir={dir}
             />
         </div >
     )
 }
 
-// Cast to any to allow generic props to pass through React.memo
+// Cast to restore the generic signature lost through forwardRef
+const CarouselCore = forwardRef(BaseCarouselInner) as <T>(
+    props: BaseCarouselProps<T> & { ref?: Ref<CarouselHandle> }
+) => ReturnType<typeof BaseCarouselInner>
+
+/**
+ * Grid mode: runs the carousel over columns of `rows` items and maps every index the consumer
+ * sees (callbacks, controlled index, imperative handle) back to real items. A remainder column is
+ * simply shorter, and every clone set repeats it, so infinite teleports stay seamless.
+ * When a page is prepended (the previous items reappear, in order, further back) the existing
+ * columns are kept and the page is chunked on its own, ending in a shorter column when it does not
+ * fill whole columns, so column keys and scroll anchoring hold. Any other change re-chunks.
+ */
+function CarouselGridInner<T>({
+    rows,
+    items,
+    getItemKey,
+    renderItem,
+    onActiveItemChange,
+    onActiveIndexChange,
+    activeIndex,
+    initialIndex,
+    slideLabel,
+    gap,
+    orientation,
+    ...rest
+}: BaseCarouselProps<T> & { rows: number }, ref: ForwardedRef<CarouselHandle>) {
+    const getItemKeyRef = useRef(getItemKey)
+    getItemKeyRef.current = getItemKey
+    // Item keys and column starts of the previous render
+    const prevChunkingRef = useRef<{ rows: number, keys: string[], starts: number[] } | null>(null)
+    const { columns, columnStarts } = useMemo(() => {
+        const keys = items.map((item, index) => getItemKeyRef.current(item, index))
+        const prev = prevChunkingRef.current
+        // Where the previous items now start, when they are all still there in order
+        const shift = prev && prev.rows === rows && prev.keys.length > 0 ? keys.indexOf(prev.keys[0]) : -1
+        const isPrepend = shift >= 0 && prev !== null && prev.keys.every((key, i) => keys[shift + i] === key)
+        const keptStarts = new Set(isPrepend ? prev.starts.map(start => start + shift) : [])
+        const nextColumns = chunkItems(items, rows, (_, index) => keptStarts.has(index))
+        // Real index of every column's first item
+        const starts: number[] = []
+        let start = 0
+        nextColumns.forEach((column) => {
+            starts.push(start)
+            start += column.length
+        })
+        prevChunkingRef.current = { rows, keys, starts }
+        return { columns: nextColumns, columnStarts: starts }
+    }, [items, rows])
+    const rowGap = resolveGap(gap)
+    const innerRef = useRef<CarouselHandle>(null)
+
+    // Column holding a real item index
+    const getColumnAt = useCallback((index: number) => {
+        let column = 0
+        while (column + 1 < columnStarts.length && columnStarts[column + 1] <= index) column++
+        return column
+    }, [columnStarts])
+
+    // Columns are keyed by their first item, so persistence and URL sync store real item keys
+    const getColumnKey = useCallback(
+        (column: T[], index: number) => getItemKey(column[0], columnStarts[index]),
+        [getItemKey, columnStarts]
+    )
+    const renderColumn = useCallback((column: T[], index: number, helpers: { scrollToItem: () => void }) => (
+        <div
+            className="carousel-row-group"
+            style={{ display: 'flex', flexDirection: orientation === 'vertical' ? 'row' : 'column', gap: `${rowGap}px` }}
+        >
+            {column.map((item, row) => (
+                <Fragment key={getItemKey(item, columnStarts[index] + row)}>
+                    {renderItem(item, columnStarts[index] + row, helpers)}
+                </Fragment>
+            ))}
+        </div>
+    ), [renderItem, getItemKey, columnStarts, rowGap, orientation])
+    const handleActiveItemChange = useCallback(
+        (column: T[]) => onActiveItemChange?.(column[0]),
+        [onActiveItemChange]
+    )
+    const handleActiveIndexChange = useCallback(
+        (index: number, reason: CarouselChangeReason) => onActiveIndexChange?.(columnStarts[index], reason),
+        [onActiveIndexChange, columnStarts]
+    )
+    const columnLabel = useCallback(
+        (index: number) => (slideLabel ?? defaultSlideLabel)(columnStarts[index], items.length),
+        [slideLabel, columnStarts, items.length]
+    )
+
+    useImperativeHandle(ref, () => {
+        const inner = () => innerRef.current as CarouselHandle
+        return {
+            goTo: (index, options) => inner().goTo(getColumnAt(index), options),
+            next: () => inner().next(),
+            prev: () => inner().prev(),
+            getActiveIndex: () => columnStarts[inner().getActiveIndex()] ?? 0,
+            getPhase: () => inner().getPhase(),
+            refreshLayout: () => inner().refreshLayout(),
+            play: () => inner().play(),
+            pause: () => inner().pause(),
+            isPlaying: () => inner().isPlaying(),
+            getAutoplayProgress: () => inner().getAutoplayProgress(),
+        }
+    }, [getColumnAt, columnStarts])
+
+    return (
+        <CarouselCore
+            {...rest}
+            ref={innerRef}
+            items={columns}
+            getItemKey={getColumnKey}
+            renderItem={renderColumn}
+            onActiveItemChange={onActiveItemChange && handleActiveItemChange}
+            onActiveIndexChange={onActiveIndexChange && handleActiveIndexChange}
+            activeIndex={activeIndex === undefined ? undefined : getColumnAt(activeIndex)}
+            initialIndex={initialIndex === undefined ? undefined : getColumnAt(initialIndex)}
+            slideLabel={columnLabel}
+            gap={gap}
+            orientation={orientation}
+        />
+    )
+}
+
+const CarouselGrid = forwardRef(CarouselGridInner) as <T>(
+    props: BaseCarouselProps<T> & { rows: number, ref?: Ref<CarouselHandle> }
+) => ReturnType<typeof CarouselGridInner>
+
+function CarouselInner<T>(props: BaseCarouselProps<T>, ref: ForwardedRef<CarouselHandle>) {
+    const rows = Math.max(1, Math.floor(props.rows ?? 1))
+    return rows > 1
+        ? <CarouselGrid {...props} rows={rows} ref={ref} />
+        : <CarouselCore {...props} ref={ref} />
+}
+
+// Cast to restore the generic signature lost through forwardRef + React.memo
 // This is a common pattern for generic memoized components
-export const Carousel = memo(BaseCarouselInner) as typeof BaseCarouselInner
+export const Carousel = memo(forwardRef(CarouselInner)) as <T>(
+    props: BaseCarouselProps<T> & { ref?: Ref<CarouselHandle> }
+) => ReturnType<typeof BaseCarouselInner>
@@ -1,5 +1,6 @@
 import clsx from 'clsx'
 import type { ComponentProps } from 'react'
+import type { CarouselDirection, CarouselOrientation } from './axis'
 
 type Direction = 'left' | 'right'
 
@@ -9,6 +10,10 @@ interface CarouselArrowProps extends ComponentProps<'button'> {
     disabled?: boolean
     className?: string
     label?: string
+    /** Vertical arrows sit above and below the rail and point up/down */
+    orientation?: CarouselOrientation
+    /** In 'rtl' the previous arrow sits on the right and points right */
+    dir?: CarouselDirection
 }
 
 export function CarouselArrow({
@@ -17,9 +22,14 @@ export function CarouselArrow({
     disabled = false,
     className,
     label,
+    orientation = 'horizontal',
+    dir = 'ltr',
     ...props
 }: CarouselArrowProps) {
     const defaultLabel = direction === 'left' ? 'Previous' : 'Next'
+    const isRtl = dir === 'rtl' && orientation === 'horizontal'
+    // `direction` is semantic (previous/next); the chevron follows the reading direction
+    const pointsLeft = (direction === 'left') !== isRtl
 
     return (
         <button
@@ -28,6 +38,8 @@ export function CarouselArrow({
             className={clsx(
                 'carousel-button', // Base class from global CSS
                 direction === 'left' ? 'prev' : 'next', // Positioning classes
+                orientation === 'vertical' && 'is-vertical',
+                isRtl && 'is-rtl',
                 'disabled:opacity-0 disabled:cursor-not-allowed disabled:pointer-events-none', // State modifiers
                 className,
             )}
@@ -40,7 +52,7 @@ export function CarouselArrow({
             }}
             {...props}
         >
-            {direction === 'left' ? (
+            {pointsLeft ? (
                 <svg
                     width="24"
                     height="24"
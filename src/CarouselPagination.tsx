@@ -0,0 +1,84 @@
+import clsx from 'clsx'
+import { useCarouselState } from './carouselState'
+import { calculateDotWindow } from './utils'
+
+export interface CarouselPaginationProps {
+    /** 'dots' (clickable), 'fraction' ("3 / 12") or 'progress' (bar). Defaults to 'dots' */
+    variant?: 'dots' | 'fraction' | 'progress'
+    /** Maximum dots rendered at once; longer lists show a window around the active dot. Defaults to 7 */
+    maxDots?: number
+    /** Accessible label for each dot. Defaults to 'Go to slide N' */
+    dotLabel?: (index: number, total: number) => string
+    className?: string
+}
+
+const defaultDotLabel = (index: number) => `Go to slide ${index + 1}`
+
+/**
+ * Pagination indicator for the enclosing Carousel.
+ * Render it as a child of `<Carousel>`; it reads the active real index from context,
+ * so it works the same for finite and infinite carousels.
+ * With `slidesPerGroup` each dot (and the fraction/progress) stands for a page of items.
+ */
+export function CarouselPagination({
+    variant = 'dots',
+    maxDots = 7,
+    dotLabel = defaultDotLabel,
+    className,
+}: CarouselPaginationProps) {
+    const state = useCarouselState()
+    if (!state || state.count === 0) return null
+
+    const group = Math.max(1, state.slidesPerGroup)
+    const count = Math.ceil(state.count / group)
+    const activeIndex = Math.min(Math.floor(state.activeIndex / group), count - 1)
+    const goTo = (page: number) => state.goTo(page * group)
+
+    if (variant === 'fraction') {
+        return (
+            <div className={clsx('carousel-pagination', 'carousel-pagination-fraction', className)}>
+                {activeIndex + 1} / {count}
+            </div>
+        )
+    }
+
+    if (variant === 'progress') {
+        return (
+            <div
+                role="progressbar"
+                aria-valuemin={1}
+                aria-valuemax={count}
+                aria-valuenow={activeIndex + 1}
+                className={clsx('carousel-pagination', 'carousel-pagination-progress', className)}
+            >
+                <div
+                    className="carousel-pagination-progress-bar"
+                    style={{ transform: `scaleX(${(activeIndex + 1) / count})` }}
+                />
+            </div>
+        )
+    }
+
+    // Windowed dots: edge dots shrink when more pages exist beyond them
+    const { start, end } = calculateDotWindow(count, activeIndex, maxDots)
+    const dots = Array.from({ length: end - start }, (_, i) => start + i)
+
+    return (
+        <div className={clsx('carousel-pagination', 'carousel-pagination-dots', className)}>
+            {dots.map(index => {
+                const isActive = index === activeIndex
+                const isTruncatedEdge = (index === start && start > 0) || (index === end - 1 && end < count)
+                return (
+                    <button
+                        key={index}
+                        type="button"
+                        className={clsx('carousel-pagination-dot', isActive && 'is-active', isTruncatedEdge && 'is-small')}
+                        aria-label={dotLabel(index, count)}
+                        aria-current={isActive ? 'true' : undefined}
+                        onClick={() => goTo(index)}
+                    />
+                )
+            })}
+        </div>
+    )
+}
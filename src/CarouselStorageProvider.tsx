@@ -0,0 +1,29 @@
+import { createContext, type ReactNode } from 'react'
+import type { CarouselStorageAdapter } from './storage'
+
+export const CarouselStorageContext = createContext<CarouselStorageAdapter | null>(null)
+
+/** Storage for "seen" loading state, kept apart so per-item flags never land in e.g. the URL */
+export const CarouselSeenStorageContext = createContext<CarouselStorageAdapter | null>(null)
+
+export interface CarouselStorageProviderProps {
+    /** Storage used by every carousel below for scroll positions, unless a carousel passes its own `storage` */
+    storage: CarouselStorageAdapter
+    /** Storage for "seen" loading state, unless a carousel passes its own `seenStorage`. In-memory only without one */
+    seenStorage?: CarouselStorageAdapter
+    children?: ReactNode
+}
+
+/**
+ * Configure where carousels persist scroll positions and "seen" loading state.
+ * Without a provider, positions use sessionStorage and "seen" state stays in memory.
+ */
+export function CarouselStorageProvider({ storage, seenStorage, children }: CarouselStorageProviderProps) {
+    return (
+        <CarouselStorageContext.Provider value={storage}>
+            <CarouselSeenStorageContext.Provider value={seenStorage ?? null}>
+                {children}
+            </CarouselSeenStorageContext.Provider>
+        </CarouselStorageContext.Provider>
+    )
+}
@@ -0,0 +1,65 @@
+import { createContext, useMemo, type ReactNode } from 'react'
+
+/**
+ * How a carousel participates in a sync group.
+ * - 'peer': follows the group and drives it (default)
+ * - 'controller': drives the group but never follows (e.g. a thumbnail strip)
+ * - 'follower': follows the group but never drives it (e.g. a main image)
+ */
+export type CarouselSyncRole = 'peer' | 'controller' | 'follower'
+
+export interface CarouselSyncMember {
+    role: CarouselSyncRole
+    /** Navigate this member to a real index (reported with reason 'sync') */
+    syncTo: (index: number) => void
+}
+
+export interface CarouselSyncRegistry {
+    /** Register a member; returns the unregister function */
+    register: (member: CarouselSyncMember) => () => void
+    /** Propagate an active index change from `source` to the members that follow */
+    broadcast: (source: CarouselSyncMember, index: number) => void
+}
+
+/**
+ * Create the registry behind a CarouselSyncGroup.
+ * Members never re-broadcast changes they received ('sync' reason), so a group
+ * cannot feed back into itself regardless of how roles are mixed.
+ */
+export function createSyncRegistry(): CarouselSyncRegistry {
+    const members = new Set<CarouselSyncMember>()
+
+    return {
+        register: (member) => {
+            members.add(member)
+            return () => { members.delete(member) }
+        },
+        broadcast: (source, index) => {
+            if (source.role === 'follower' || !members.has(source)) return
+            members.forEach(member => {
+                if (member === source || member.role === 'controller') return
+                member.syncTo(index)
+            })
+        },
+    }
+}
+
+export const CarouselSyncContext = createContext<CarouselSyncRegistry | null>(null)
+
+export interface CarouselSyncGroupProps {
+    children?: ReactNode
+}
+
+/**
+ * Keeps the active index of every Carousel rendered inside it in lockstep.
+ * Carousels navigate by real index, so members may differ in item width,
+ * visible count, or infinite/finite mode.
+ */
+export function CarouselSyncGroup({ children }: CarouselSyncGroupProps) {
+    const registry = useMemo(() => createSyncRegistry(), [])
+    return (
+        <CarouselSyncContext.Provider value={registry}>
+            {children}
+        </CarouselSyncContext.Provider>
+    )
+}
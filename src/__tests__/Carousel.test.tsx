@@ -1,10 +1,14 @@
+import { createRef, type ReactNode } from 'react'
 import { render, fireEvent, screen, act } from '@testing-library/react'
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { Carousel as BaseCarousel } from '../Carousel'
-import { LAYOUT_CONFIG } from '../config'
+import { Carousel as BaseCarousel, type CarouselHandle } from '../Carousel'
+import { CarouselPagination } from '../CarouselPagination'
+import { CarouselSyncContext, createSyncRegistry, type CarouselSyncRegistry } from '../CarouselSyncGroup'
+import { LAYOUT_CONFIG, TIMING_CONFIG } from '../config'
 
 // Mock the hook to isolate component logic
 const cancelMomentumMock = vi.fn()
+const draggableOptionsMock = vi.fn()
 const eventsMock = {
     onPointerDown: vi.fn(),
     onPointerUp: vi.fn(),
@@ -18,7 +22,8 @@ const eventsMock = {
 const mockRef = { current: document.createElement('div') }
 
 vi.mock('../hooks/useDraggableScroll', () => ({
-    useDraggableScroll: ({ infinite, cardWidth = 180, gap = 16 }: any) => {
+    useDraggableScroll: (options: any) => {
+        draggableOptionsMock(options)
         // We need a stable adjustScroll that doesn't break teleports
         const adjustScroll = vi.fn()
         return {
@@ -44,6 +49,43 @@ const renderItem = (item: typeof mockItems[0]) => (
 
 const getItemKey = (item: typeof mockItems[0]) => item.id
 
+// Finite carousel with a mocked scroll container: 180px cards + 16px gap = 196px stride
+const renderWithScrollMocks = (
+    props: Partial<Parameters<typeof BaseCarousel>[0]> = {},
+    options: { wrapper?: (props: { children: ReactNode }) => JSX.Element } = {}
+) => {
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+        const width = this.classList.contains('carousel-item') ? 180 : 0
+        return { width, height: 0, top: 0, left: 0, right: 0, bottom: 0, x: 0, y: 0, toJSON: () => { } } as DOMRect
+    })
+    const ref = createRef<CarouselHandle>()
+    // fallbackWidth matches the mocked card width so initialization considers the layout measured
+    const renderCarousel = (nextProps: typeof props) => (
+        <BaseCarousel
+            ref={ref}
+            items={mockItems}
+            getItemKey={getItemKey}
+            renderItem={renderItem}
+            fallbackWidth={180}
+            {...nextProps}
+        />
+    )
+    const { container, rerender } = render(renderCarousel(props), { wrapper: options.wrapper })
+    const carousel = container.querySelector('.base-carousel') as HTMLElement
+    let scrollLeft = 0
+    Object.defineProperty(carousel, 'scrollLeft', {
+        configurable: true,
+        get: () => scrollLeft,
+        set: (value: number) => { scrollLeft = value },
+    })
+    Object.defineProperty(carousel, 'scrollWidth', { value: 5000, configurable: true })
+    Object.defineProperty(carousel, 'clientWidth', { value: 500, configurable: true })
+    carousel.scrollTo = vi.fn((options?: ScrollToOptions | number) => {
+        if (typeof options === 'object' && options.left !== undefined) scrollLeft = options.left
+    }) as any
+    return { ref, carousel, rerender: (nextProps: typeof props) => rerender(renderCarousel(nextProps)) }
+}
+
 describe('BaseCarousel Component', () => {
     let originalResizeObserver: typeof ResizeObserver
 
@@ -1257,4 +1299,1455 @@ describe('BaseCarousel Component', () => {
             expect(carousel.style.scrollSnapType).toBe('')
         })
     })
+
+    describe('Imperative handle (ref)', () => {
+        it('exposes the full handle API', () => {
+            const { ref } = renderWithScrollMocks()
+
+            expect(ref.current).not.toBeNull()
+            expect(ref.current!.goTo).toBeInstanceOf(Function)
+            expect(ref.current!.next).toBeInstanceOf(Function)
+            expect(ref.current!.prev).toBeInstanceOf(Function)
+            expect(ref.current!.getActiveIndex).toBeInstanceOf(Function)
+            expect(ref.current!.getPhase).toBeInstanceOf(Function)
+            expect(ref.current!.refreshLayout).toBeInstanceOf(Function)
+        })
+
+        it('goTo({ animate: false }) jumps instantly and reports the new active index', () => {
+            const onActiveItemChange = vi.fn()
+            const { ref, carousel } = renderWithScrollMocks({ onActiveItemChange })
+
+            act(() => {
+                ref.current!.goTo(3, { animate: false })
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 3 * 196, behavior: 'auto' })
+            expect(ref.current!.getActiveIndex()).toBe(3)
+            expect(onActiveItemChange).toHaveBeenCalledWith(mockItems[3])
+        })
+
+        it('goTo clamps out-of-range indexes for finite carousels', () => {
+            const { ref, carousel } = renderWithScrollMocks()
+
+            act(() => {
+                ref.current!.goTo(99, { animate: false })
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 5 * 196, behavior: 'auto' })
+        })
+
+        it('next() smooth-scrolls through the arrow navigation path', () => {
+            const { ref, carousel } = renderWithScrollMocks()
+
+            act(() => {
+                ref.current!.next()
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 196, behavior: 'smooth' })
+        })
+
+        it('getPhase() reads the coordinator phase', () => {
+            const { ref } = renderWithScrollMocks()
+
+            expect(['UNINITIALIZED', 'IDLE']).toContain(ref.current!.getPhase())
+        })
+    })
+
+    describe('Active index reporting (onActiveIndexChange)', () => {
+        it('reports arrow navigation with reason "arrow"', () => {
+            const onActiveIndexChange = vi.fn()
+            renderWithScrollMocks({ onActiveIndexChange })
+
+            fireEvent.click(screen.getByLabelText('Next'))
+
+            expect(onActiveIndexChange).toHaveBeenCalledWith(1, 'arrow')
+        })
+
+        it('reports handle navigation with reason "programmatic"', () => {
+            const onActiveIndexChange = vi.fn()
+            const { ref } = renderWithScrollMocks({ onActiveIndexChange })
+
+            act(() => {
+                ref.current!.goTo(2, { animate: false })
+            })
+
+            expect(onActiveIndexChange).toHaveBeenCalledWith(2, 'programmatic')
+        })
+
+        it('reports item clicks with reason "click"', () => {
+            const onActiveIndexChange = vi.fn()
+            renderWithScrollMocks({
+                onActiveIndexChange,
+                renderItem: (item: typeof mockItems[0], _index: number, helpers: { scrollToItem: () => void }) => (
+                    <button onClick={helpers.scrollToItem}>{item.title}</button>
+                ),
+            })
+
+            fireEvent.click(screen.getByText('Item 4'))
+
+            expect(onActiveIndexChange).toHaveBeenCalledWith(4, 'click')
+        })
+
+        it('reports user scrolling with reason "drag"', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ onActiveIndexChange })
+
+            carousel.scrollLeft = 3 * 196
+            fireEvent.scroll(carousel)
+
+            expect(onActiveIndexChange).toHaveBeenCalledWith(3, 'drag')
+        })
+
+        it('does not report the same index twice', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ onActiveIndexChange })
+
+            carousel.scrollLeft = 2 * 196
+            fireEvent.scroll(carousel)
+            carousel.scrollLeft = 2 * 196 + 10
+            fireEvent.scroll(carousel)
+
+            expect(onActiveIndexChange).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe('Controlled activeIndex', () => {
+        // Forces initialization: the carousel only follows the prop once it has measured itself
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        it('scrolls to the new index when the prop changes, without echoing it back', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel, rerender } = renderWithScrollMocks({ activeIndex: 0, onActiveIndexChange })
+            initialize()
+
+            rerender({ activeIndex: 3, onActiveIndexChange })
+            act(() => {
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 3 * 196, behavior: 'smooth' })
+            expect(onActiveIndexChange).not.toHaveBeenCalled()
+        })
+
+        it('ignores prop updates that match the current index', () => {
+            const { carousel, rerender } = renderWithScrollMocks({ activeIndex: 0 })
+            initialize()
+
+            carousel.scrollLeft = 2 * 196
+            fireEvent.scroll(carousel)
+            vi.mocked(carousel.scrollTo).mockClear()
+
+            // Parent mirrors the reported index back into the prop
+            rerender({ activeIndex: 2 })
+
+            expect(carousel.scrollTo).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('Accessibility (WAI-ARIA carousel pattern)', () => {
+        it('renders a labelled carousel region', () => {
+            render(<BaseCarousel items={mockItems} getItemKey={getItemKey} renderItem={renderItem} label="Featured" />)
+
+            const region = screen.getByRole('region', { name: 'Featured' })
+            expect(region).toHaveAttribute('aria-roledescription', 'carousel')
+        })
+
+        it('labels slides "N of M" by real index', () => {
+            render(<BaseCarousel items={mockItems} getItemKey={getItemKey} renderItem={renderItem} />)
+
+            const slides = screen.getAllByRole('group')
+            expect(slides).toHaveLength(6)
+            expect(slides[2]).toHaveAttribute('aria-roledescription', 'slide')
+            expect(slides[2]).toHaveAttribute('aria-label', '3 of 6')
+        })
+
+        it('supports custom slide labels', () => {
+            render(
+                <BaseCarousel
+                    items={mockItems}
+                    getItemKey={getItemKey}
+                    renderItem={renderItem}
+                    slideLabel={(index, total) => `Diapositiva ${index + 1} de ${total}`}
+                />
+            )
+
+            expect(screen.getAllByRole('group')[0]).toHaveAttribute('aria-label', 'Diapositiva 1 de 6')
+        })
+
+        it('hides clones from assistive technology and keyboard users', () => {
+            const { container } = render(<BaseCarousel items={mockItems} getItemKey={getItemKey} renderItem={renderItem} infinite />)
+            const slots = Array.from(container.querySelector('.base-carousel')!.children)
+            const originals = slots.filter(slot => !slot.hasAttribute('aria-hidden'))
+
+            // Only the original set is exposed, and every hidden slot is inert
+            expect(originals).toHaveLength(6)
+            expect(originals.every(slot => !slot.hasAttribute('inert'))).toBe(true)
+            expect(slots.filter(slot => slot.hasAttribute('aria-hidden')).every(slot => slot.hasAttribute('inert'))).toBe(true)
+            expect(screen.getAllByRole('group')).toHaveLength(6)
+        })
+
+        it('announces the active slide in a polite live region', () => {
+            const { carousel } = renderWithScrollMocks()
+            const liveRegion = carousel.parentElement!.querySelector('[aria-live]')!
+            expect(liveRegion).toHaveAttribute('aria-live', 'polite')
+
+            fireEvent.click(screen.getByLabelText('Next'))
+
+            expect(liveRegion).toHaveTextContent('2 of 6')
+        })
+
+        it('silences the live region while autoplay rotates', () => {
+            const { ref, carousel } = renderWithScrollMocks({ autoplay: true })
+            const liveRegion = carousel.parentElement!.querySelector('[aria-live]')!
+            expect(liveRegion).toHaveAttribute('aria-live', 'off')
+
+            act(() => {
+                ref.current!.pause()
+            })
+
+            expect(liveRegion).toHaveAttribute('aria-live', 'polite')
+        })
+    })
+
+    describe('CarouselPagination', () => {
+        it('renders one dot per item and jumps through the item-click path', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ onActiveIndexChange, children: <CarouselPagination /> })
+            const dots = screen.getAllByRole('button', { name: /Go to slide/ })
+
+            expect(dots).toHaveLength(6)
+            expect(dots[0]).toHaveAttribute('aria-current', 'true')
+
+            fireEvent.click(dots[3])
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 3 * 196, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenCalledWith(3, 'click')
+            expect(screen.getByRole('button', { name: 'Go to slide 4' })).toHaveAttribute('aria-current', 'true')
+        })
+
+        it('follows user scrolling', () => {
+            const { carousel } = renderWithScrollMocks({ children: <CarouselPagination variant="fraction" /> })
+            expect(screen.getByText('1 / 6')).toBeInTheDocument()
+
+            carousel.scrollLeft = 2 * 196
+            act(() => {
+                fireEvent.scroll(carousel)
+            })
+
+            expect(screen.getByText('3 / 6')).toBeInTheDocument()
+        })
+
+        it('renders a progress bar variant', () => {
+            renderWithScrollMocks({ initialIndex: 2, children: <CarouselPagination variant="progress" /> })
+
+            const progress = screen.getByRole('progressbar')
+            expect(progress).toHaveAttribute('aria-valuenow', '3')
+            expect(progress).toHaveAttribute('aria-valuemax', '6')
+        })
+
+        it('windows the dots for long lists', () => {
+            renderWithScrollMocks({ children: <CarouselPagination maxDots={3} /> })
+
+            const dots = screen.getAllByRole('button', { name: /Go to slide/ })
+            expect(dots).toHaveLength(3)
+            // More pages exist past the window: the trailing dot shrinks
+            expect(dots[2]).toHaveClass('is-small')
+        })
+
+        it('renders nothing outside a carousel', () => {
+            const { container } = render(<CarouselPagination />)
+
+            expect(container).toBeEmptyDOMElement()
+        })
+    })
+
+    describe('Sync groups', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        const withRegistry = (registry: CarouselSyncRegistry) => ({ children }: { children: ReactNode }) => (
+            <CarouselSyncContext.Provider value={registry}>{children}</CarouselSyncContext.Provider>
+        )
+
+        it('broadcasts user navigation to the other members', () => {
+            const registry = createSyncRegistry()
+            const thumbnails = { role: 'peer' as const, syncTo: vi.fn() }
+            registry.register(thumbnails)
+            renderWithScrollMocks({}, { wrapper: withRegistry(registry) })
+            initialize()
+
+            fireEvent.click(screen.getByLabelText('Next'))
+
+            expect(thumbnails.syncTo).toHaveBeenCalledWith(1)
+        })
+
+        it('follows the group with reason "sync" without echoing back', () => {
+            const registry = createSyncRegistry()
+            const thumbnails = { role: 'peer' as const, syncTo: vi.fn() }
+            registry.register(thumbnails)
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ onActiveIndexChange }, { wrapper: withRegistry(registry) })
+            initialize()
+
+            act(() => {
+                registry.broadcast(thumbnails, 4)
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 4 * 196, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenCalledWith(4, 'sync')
+            expect(thumbnails.syncTo).not.toHaveBeenCalled()
+        })
+
+        it('does not follow when it is the controller', () => {
+            const registry = createSyncRegistry()
+            const main = { role: 'peer' as const, syncTo: vi.fn() }
+            registry.register(main)
+            const { carousel } = renderWithScrollMocks({ syncRole: 'controller' }, { wrapper: withRegistry(registry) })
+            initialize()
+
+            act(() => {
+                registry.broadcast(main, 4)
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('Keyboard navigation', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        const slots = (carousel: HTMLElement) => Array.from(carousel.children) as HTMLElement[]
+
+        it('makes only the active item tabbable', () => {
+            const { carousel } = renderWithScrollMocks()
+            initialize()
+
+            const tabbable = slots(carousel).filter(slot => slot.tabIndex === 0)
+            expect(tabbable).toEqual([slots(carousel)[0]])
+        })
+
+        it('ArrowRight steps forward with reason "keyboard" and moves focus along', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ onActiveIndexChange })
+            initialize()
+            slots(carousel)[0].focus()
+
+            fireEvent.keyDown(slots(carousel)[0], { key: 'ArrowRight' })
+            act(() => {
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 196, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenCalledWith(1, 'keyboard')
+            expect(document.activeElement).toBe(slots(carousel)[1])
+            expect(slots(carousel)[0].tabIndex).toBe(-1)
+        })
+
+        it('End reaches the last item even when the scroll is clamped', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ onActiveIndexChange })
+            Object.defineProperty(carousel, 'scrollWidth', { value: 900, configurable: true })
+            initialize()
+            slots(carousel)[0].focus()
+
+            fireEvent.keyDown(slots(carousel)[0], { key: 'End' })
+
+            // maxScroll = 900 - 500: the last item is visible but never centered
+            expect(onActiveIndexChange).toHaveBeenCalledWith(5, 'keyboard')
+            expect(document.activeElement).toBe(slots(carousel)[5])
+        })
+
+        it('selects an item when keyboard focus lands on it', () => {
+            const onActiveItemChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ onActiveItemChange })
+            initialize()
+
+            act(() => {
+                slots(carousel)[3].focus()
+            })
+
+            expect(onActiveItemChange).toHaveBeenCalledWith(mockItems[3])
+        })
+    })
+
+    describe('Autoplay', () => {
+        // Ticks are skipped until the carousel has measured itself
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        it('advances on the interval with reason "autoplay"', () => {
+            const onActiveIndexChange = vi.fn()
+            renderWithScrollMocks({ autoplay: { interval: 1000 }, onActiveIndexChange })
+            initialize()
+
+            act(() => {
+                vi.advanceTimersByTime(1000)
+            })
+
+            expect(onActiveIndexChange).toHaveBeenCalledWith(1, 'autoplay')
+        })
+
+        it('rewinds to the first item at the end of a finite list', () => {
+            const { carousel } = renderWithScrollMocks({ autoplay: { interval: 1000 } })
+            initialize()
+            carousel.scrollLeft = 4500 // scrollWidth - clientWidth
+
+            act(() => {
+                vi.advanceTimersByTime(1000)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 0, behavior: 'smooth' })
+        })
+
+        it('exposes play/pause through the handle and reports state changes', () => {
+            const onAutoplayChange = vi.fn()
+            const { ref, carousel } = renderWithScrollMocks({ autoplay: { interval: 1000 }, onAutoplayChange })
+            initialize()
+
+            expect(ref.current!.isPlaying()).toBe(true)
+            expect(onAutoplayChange).toHaveBeenLastCalledWith(true)
+
+            act(() => {
+                ref.current!.pause()
+            })
+            act(() => {
+                vi.advanceTimersByTime(5000)
+            })
+
+            expect(ref.current!.isPlaying()).toBe(false)
+            expect(onAutoplayChange).toHaveBeenLastCalledWith(false)
+            expect(carousel.scrollTo).not.toHaveBeenCalledWith({ left: 196, behavior: 'smooth' })
+        })
+    })
+
+    describe('Virtualization', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        const manyItems = Array.from({ length: 40 }).map((_, i) => ({ id: `item-${i}`, title: `Item ${i}` }))
+
+        it('mounts only the slots near the viewport, with a spacer for the rest', () => {
+            const { carousel } = renderWithScrollMocks({ items: manyItems, virtualize: { overscan: 1 } })
+            initialize()
+            // The mocked viewport width is applied after mount; a resize re-measures it
+            act(() => {
+                window.dispatchEvent(new Event('resize'))
+            })
+
+            // 500px viewport / 196px stride → 3 visible + 1 overscan on each side of item 0
+            expect(carousel.querySelectorAll('.carousel-item')).toHaveLength(5)
+            expect(screen.getAllByTestId('carousel-item-content').map(node => node.textContent))
+                .toEqual(['Item 0', 'Item 1', 'Item 2', 'Item 3', 'Item 4'])
+            // The trailing spacer keeps the scroll width of the 35 unmounted slots
+            expect(carousel.children).toHaveLength(6)
+            const spacer = carousel.lastElementChild as HTMLElement
+            expect(spacer).toHaveAttribute('data-carousel-spacer')
+            expect(spacer.style.width).toContain('35 *')
+        })
+
+        it('mounts a window of slots in a large infinite list instead of every copy', () => {
+            const catalog = Array.from({ length: 200 }).map((_, i) => ({ id: `item-${i}`, title: `Item ${i}` }))
+            const { carousel } = renderWithScrollMocks({ items: catalog, infinite: true, virtualize: { overscan: 1 } })
+            initialize()
+
+            const slots = carousel.querySelectorAll('.carousel-item')
+            expect(slots.length).toBeLessThan(30)
+            expect(carousel.children).toHaveLength(slots.length + 2)
+            expect(carousel.firstElementChild).toHaveAttribute('data-carousel-spacer')
+            expect(carousel.lastElementChild).toHaveAttribute('data-carousel-spacer')
+            // The window starts on the first original item, after the clone buffer
+            expect(screen.getAllByTestId('carousel-item-content').map(node => node.textContent)).toContain('Item 0')
+        })
+
+        it('jumps to a far, unmounted item of an infinite list without counting the padding twice', () => {
+            // Centered rail: 160px start padding, slot i at 160 + i * 196, the leading spacer where slot 0 starts
+            const padding = 160
+            vi.spyOn(HTMLElement.prototype, 'offsetLeft', 'get').mockImplementation(function (this: HTMLElement) {
+                const slot = this.getAttribute('data-carousel-slot')
+                if (slot !== null) return padding + Number(slot) * 196
+                return this.hasAttribute('data-carousel-spacer') && !this.previousElementSibling ? padding : 0
+            })
+            const catalog = Array.from({ length: 200 }).map((_, i) => ({ id: `item-${i}`, title: `Item ${i}` }))
+            const { ref, carousel } = renderWithScrollMocks({ items: catalog, infinite: true, virtualize: { overscan: 1 } })
+            initialize()
+            expect(screen.queryByText('Item 100')).toBeNull()
+
+            act(() => {
+                ref.current!.goTo(100, { animate: false })
+            })
+
+            const { left } = vi.mocked(carousel.scrollTo).mock.lastCall![0] as ScrollToOptions
+            const domIndex = left! / 196
+            expect(Number.isInteger(domIndex)).toBe(true)
+            expect(domIndex % catalog.length).toBe(100)
+        })
+
+        it('ignores virtualize with variable-width items and warns', () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => { })
+            const { carousel } = renderWithScrollMocks({ items: manyItems, virtualize: true, variableWidth: true })
+            initialize()
+
+            expect(carousel.querySelectorAll('.carousel-item')).toHaveLength(40)
+            expect(carousel.querySelector('[data-carousel-spacer]')).toBeNull()
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('variableWidth'))
+        })
+
+        it('moves the rendered window with the scroll position', () => {
+            const { carousel } = renderWithScrollMocks({ items: manyItems, virtualize: { overscan: 1 } })
+            initialize()
+
+            act(() => {
+                carousel.scrollLeft = 20 * 196
+                carousel.dispatchEvent(new Event('scroll'))
+            })
+
+            const rendered = screen.getAllByTestId('carousel-item-content').map(node => node.textContent)
+            expect(rendered).toContain('Item 21')
+            expect(rendered).not.toContain('Item 0')
+        })
+
+        it('renders every item when virtualize is off', () => {
+            renderWithScrollMocks({ items: manyItems })
+            initialize()
+
+            expect(screen.getAllByTestId('carousel-item-content')).toHaveLength(40)
+        })
+    })
+
+    describe('Prepending pages (scroll anchoring)', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        const previousPage = Array.from({ length: 3 }).map((_, i) => ({ id: `prev-${i}`, title: `Prev ${i}` }))
+
+        it('keeps the visible item in place when items are prepended', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel, rerender } = renderWithScrollMocks({ onActiveIndexChange })
+            initialize()
+            carousel.scrollLeft = 2 * 196
+            const visibleSlot = carousel.children[2]
+
+            rerender({ onActiveIndexChange, items: [...previousPage, ...mockItems] })
+
+            expect(carousel.scrollLeft).toBe(5 * 196)
+            // Slots are keyed by item, so the visible card is moved rather than remounted
+            expect(carousel.children[5]).toBe(visibleSlot)
+            expect(onActiveIndexChange).toHaveBeenLastCalledWith(5, 'programmatic')
+        })
+
+        it('does not load the previous page before the carousel is positioned', () => {
+            const onStartReached = vi.fn()
+            renderWithScrollMocks({ hasPreviousPage: true, onStartReached })
+            // The drag hook's initial check runs at mount, while the track still sits at scroll 0
+            act(() => {
+                draggableOptionsMock.mock.lastCall![0].onStartReached()
+            })
+            expect(onStartReached).not.toHaveBeenCalled()
+
+            initialize()
+            act(() => {
+                draggableOptionsMock.mock.lastCall![0].onStartReached()
+            })
+            expect(onStartReached).toHaveBeenCalledTimes(1)
+        })
+
+        it('leaves the scroll position alone when items are appended', () => {
+            const { carousel, rerender } = renderWithScrollMocks()
+            initialize()
+            carousel.scrollLeft = 2 * 196
+
+            rerender({ items: [...mockItems, ...previousPage] })
+
+            expect(carousel.scrollLeft).toBe(2 * 196)
+        })
+
+        it('keeps the same item in view when an infinite list grows', () => {
+            const { carousel, rerender } = renderWithScrollMocks({ infinite: true })
+            initialize()
+            const stride = 196
+            const bufferBefore = Math.ceil(LAYOUT_CONFIG.MIN_BUFFER_COUNT / mockItems.length) * mockItems.length
+            carousel.scrollLeft = (bufferBefore + 2) * stride
+
+            const nextItems = [...previousPage, ...mockItems]
+            rerender({ infinite: true, items: nextItems })
+
+            const nextBufferBefore = Math.ceil(LAYOUT_CONFIG.MIN_BUFFER_COUNT / nextItems.length) * nextItems.length
+            const domIndex = Math.round(carousel.scrollLeft / stride)
+            expect(domIndex).toBe(nextBufferBefore + 5)
+            expect(carousel.children[domIndex].textContent).toBe('Item 2')
+        })
+    })
+
+    describe('Persistence (item anchors)', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        afterEach(() => {
+            sessionStorage.clear()
+        })
+
+        it('restores the saved item even when its pixel position changed', () => {
+            // Saved on a different layout: the pixel fallback would land elsewhere
+            sessionStorage.setItem('carousel-scroll-anchor', JSON.stringify({ itemKey: 'item-3', offset: 0, scrollLeft: 4000 }))
+            const { carousel } = renderWithScrollMocks({ persistKey: 'anchor' })
+            initialize()
+
+            expect(carousel.scrollLeft).toBe(3 * 196)
+        })
+
+        it('restores the saved item after the list was reordered', () => {
+            sessionStorage.setItem('carousel-scroll-reorder', JSON.stringify({ itemKey: 'item-3', offset: 0, scrollLeft: 3 * 196 }))
+            const { carousel } = renderWithScrollMocks({ persistKey: 'reorder', items: [...mockItems].reverse() })
+            initialize()
+
+            expect(carousel.scrollLeft).toBe(2 * 196)
+        })
+
+        it('falls back to the pixel position when the item is gone', () => {
+            sessionStorage.setItem('carousel-scroll-gone', JSON.stringify({ itemKey: 'deleted', offset: 0, scrollLeft: 392 }))
+            const { carousel } = renderWithScrollMocks({ persistKey: 'gone' })
+            initialize()
+
+            expect(carousel.scrollLeft).toBe(392)
+        })
+
+        it('saves the active item key on scroll end', () => {
+            const { carousel } = renderWithScrollMocks({ persistKey: 'save' })
+            initialize()
+
+            carousel.scrollLeft = 4 * 196
+            act(() => {
+                carousel.dispatchEvent(new Event('scrollend'))
+                vi.advanceTimersByTime(200)
+            })
+
+            expect(JSON.parse(sessionStorage.getItem('carousel-scroll-save')!)).toEqual({ itemKey: 'item-4', offset: 0, scrollLeft: 784 })
+        })
+    })
+
+    describe('URL sync', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        afterEach(() => {
+            window.history.replaceState(null, '', '/')
+            sessionStorage.clear()
+        })
+
+        it('opens on the item named in the URL, ahead of persisted and initial positions', () => {
+            // Slot geometry for DOM-based initialization
+            vi.spyOn(HTMLElement.prototype, 'offsetLeft', 'get').mockImplementation(function (this: HTMLElement) {
+                return this.classList.contains('carousel-item')
+                    ? Array.prototype.indexOf.call(this.parentElement!.children, this) * 196
+                    : 0
+            })
+            vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockReturnValue(180)
+            window.history.replaceState(null, '', '/gallery?slide=item-4')
+            sessionStorage.setItem('carousel-scroll-deep', JSON.stringify({ itemKey: 'item-1', offset: 0, scrollLeft: 196 }))
+            const { carousel } = renderWithScrollMocks({ urlSync: true, persistKey: 'deep', initialIndex: 2 })
+            initialize()
+
+            // Finite carousels start-align by default: item 4 rests at 4 strides
+            expect(carousel.scrollLeft).toBe(4 * 196)
+        })
+
+        it('ignores unknown keys in the URL', () => {
+            window.history.replaceState(null, '', '/gallery?slide=missing')
+            const { ref } = renderWithScrollMocks({ urlSync: true })
+            initialize()
+
+            expect(ref.current!.getActiveIndex()).toBe(0)
+        })
+
+        it('writes the active item key to the URL', () => {
+            renderWithScrollMocks({ urlSync: { param: 'photo' } })
+            initialize()
+
+            fireEvent.click(screen.getByLabelText('Next'))
+
+            expect(new URLSearchParams(window.location.search).get('photo')).toBe('item-1')
+        })
+
+        it('follows back/forward navigation', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ urlSync: true, onActiveIndexChange })
+            initialize()
+
+            window.history.replaceState(null, '', '/gallery?slide=item-3')
+            act(() => {
+                window.dispatchEvent(new PopStateEvent('popstate'))
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 3 * 196, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenCalledWith(3, 'programmatic')
+        })
+    })
+
+    describe('Vertical orientation', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        // Same geometry as renderWithScrollMocks, measured along Y
+        const renderVertical = (props: Partial<Parameters<typeof BaseCarousel>[0]> = {}) => {
+            vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+                const height = this.classList.contains('carousel-item') ? 180 : 0
+                return { width: 0, height, top: 0, left: 0, right: 0, bottom: 0, x: 0, y: 0, toJSON: () => { } } as DOMRect
+            })
+            const { container } = render(
+                <BaseCarousel
+                    items={mockItems}
+                    getItemKey={getItemKey}
+                    renderItem={renderItem}
+                    fallbackWidth={180}
+                    orientation="vertical"
+                    {...props}
+                />
+            )
+            const carousel = container.querySelector('.base-carousel') as HTMLElement
+            let scrollTop = 0
+            Object.defineProperty(carousel, 'scrollTop', {
+                configurable: true,
+                get: () => scrollTop,
+                set: (value: number) => { scrollTop = value },
+            })
+            Object.defineProperty(carousel, 'scrollHeight', { value: 5000, configurable: true })
+            Object.defineProperty(carousel, 'clientHeight', { value: 500, configurable: true })
+            carousel.scrollTo = vi.fn((options?: ScrollToOptions | number) => {
+                if (typeof options === 'object' && options.top !== undefined) scrollTop = options.top
+            }) as any
+            return { carousel }
+        }
+
+        it('stacks items in a column sized by the item width variable', () => {
+            const { carousel } = renderVertical()
+
+            expect(carousel.className).toContain('is-vertical')
+            expect(carousel.className).toContain('snap-y')
+            const slot = carousel.children[0] as HTMLElement
+            expect(slot.style.height).toBe('var(--carousel-item-width-default, 200px)')
+            expect(slot.style.width).toBe('')
+        })
+
+        it('arrows scroll along the vertical axis', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderVertical({ onActiveIndexChange })
+            initialize()
+
+            fireEvent.click(screen.getByLabelText('Next'))
+            act(() => {
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ top: 196, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenCalledWith(1, 'arrow')
+        })
+
+        it('ArrowDown steps to the next item', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderVertical({ onActiveIndexChange })
+            initialize()
+            const first = carousel.children[0] as HTMLElement
+            first.focus()
+
+            fireEvent.keyDown(first, { key: 'ArrowDown' })
+
+            expect(onActiveIndexChange).toHaveBeenCalledWith(1, 'keyboard')
+        })
+    })
+
+    describe('Right-to-left', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        // RTL slot geometry: slots are laid out leftward from the rail's right edge (500px wide).
+        // Without it jsdom reports every slot at offsetLeft 0, i.e. at the far (end) side of an RTL rail.
+        const mockRtlOffsets = () => {
+            vi.spyOn(HTMLElement.prototype, 'offsetLeft', 'get').mockImplementation(function (this: HTMLElement) {
+                return this.classList.contains('carousel-item')
+                    ? 500 - Array.prototype.indexOf.call(this.parentElement!.children, this) * 196 - 180
+                    : 0
+            })
+            vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockReturnValue(180)
+        }
+
+        const bufferBeforeCount = Math.ceil(LAYOUT_CONFIG.MIN_BUFFER_COUNT / mockItems.length) * mockItems.length
+
+        it('scrolls finite carousels toward negative scrollLeft', () => {
+            mockRtlOffsets()
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ dir: 'rtl', onActiveIndexChange })
+            initialize()
+
+            fireEvent.click(screen.getByLabelText('Next'))
+            act(() => {
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: -196, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenCalledWith(1, 'arrow')
+        })
+
+        it('reads the active item from the normalized scroll position', () => {
+            mockRtlOffsets()
+            const { ref, carousel } = renderWithScrollMocks({ dir: 'rtl' })
+            initialize()
+
+            carousel.scrollLeft = -2 * 196
+            act(() => {
+                fireEvent.scroll(carousel)
+            })
+
+            expect(ref.current!.getActiveIndex()).toBe(2)
+        })
+
+        it('bounces at the start edge of a finite carousel in the mirrored direction', () => {
+            mockRtlOffsets()
+            const { carousel } = renderWithScrollMocks({ dir: 'rtl' })
+            initialize()
+
+            fireEvent.click(screen.getByLabelText('Previous'))
+
+            expect(carousel.scrollTo).not.toHaveBeenCalledWith(expect.objectContaining({ behavior: 'smooth' }))
+            expect(carousel.style.transform).toBe(`translateX(-${TIMING_CONFIG.BOUNCE_DISTANCE_PX}px)`)
+        })
+
+        it('ArrowLeft moves forward', () => {
+            mockRtlOffsets()
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ dir: 'rtl', onActiveIndexChange })
+            initialize()
+            const first = carousel.children[0] as HTMLElement
+            first.focus()
+
+            fireEvent.keyDown(first, { key: 'ArrowLeft' })
+
+            expect(onActiveIndexChange).toHaveBeenCalledWith(1, 'keyboard')
+        })
+
+        it('mirrors the arrows', () => {
+            renderWithScrollMocks({ dir: 'rtl' })
+
+            expect(screen.getByLabelText('Previous').className).toContain('is-rtl')
+            expect(screen.getByLabelText('Previous').closest('[dir]')!.getAttribute('dir')).toBe('rtl')
+        })
+
+        it('centers the start item of an infinite carousel', () => {
+            mockRtlOffsets()
+            const { carousel } = renderWithScrollMocks({ dir: 'rtl', infinite: true })
+            initialize()
+
+            expect(carousel.scrollLeft).toBe(-(bufferBeforeCount * 196 + 90 - 250))
+        })
+
+        it('teleports infinite carousels back by one set past the end threshold', () => {
+            mockRtlOffsets()
+            const { carousel } = renderWithScrollMocks({ dir: 'rtl', infinite: true })
+            Object.defineProperty(carousel, 'scrollWidth', { value: 50000, configurable: true })
+            initialize()
+
+            const setWidth = mockItems.length * 196
+            const pastEnd = (bufferBeforeCount * 196) + setWidth + 10
+            carousel.scrollLeft = -pastEnd
+            fireEvent.scroll(carousel)
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+
+            expect(carousel.scrollLeft).toBe(-(pastEnd - setWidth))
+        })
+    })
+
+    describe('Variable width', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        // Alternating narrow and wide items after 16px of padding, 16px gaps.
+        // Resting scroll positions (finite): 0, 116, 532, 648, 1064, 1180. One set is 1596px.
+        const mockItemWidths = (widths: number[]) => {
+            const slotIndex = (el: HTMLElement) => Array.prototype.indexOf.call(el.parentElement!.children, el)
+            vi.spyOn(HTMLElement.prototype, 'offsetLeft', 'get').mockImplementation(function (this: HTMLElement) {
+                if (!this.classList.contains('carousel-item')) return 0
+                const index = slotIndex(this)
+                const stride = (i: number) => widths[i] + 16
+                const setWidth = widths.reduce((sum, _, i) => sum + stride(i), 0)
+                let left = 16 + Math.floor(index / widths.length) * setWidth
+                for (let i = 0; i < index % widths.length; i++) left += stride(i)
+                return left
+            })
+            vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockImplementation(function (this: HTMLElement) {
+                return this.classList.contains('carousel-item') ? widths[slotIndex(this) % widths.length] : 0
+            })
+        }
+
+        const bufferBeforeCount = Math.ceil(LAYOUT_CONFIG.MIN_BUFFER_COUNT / mockItems.length) * mockItems.length
+
+        it('leaves item sizing to the items', () => {
+            const { carousel } = renderWithScrollMocks({ variableWidth: true })
+
+            expect((carousel.children[0] as HTMLElement).style.width).toBe('')
+        })
+
+        it('steps arrows between item positions, catching up on rapid clicks', () => {
+            mockItemWidths([100, 400, 100, 400, 100, 400])
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ variableWidth: true, onActiveIndexChange })
+            initialize()
+
+            fireEvent.click(screen.getByLabelText('Next'))
+            fireEvent.click(screen.getByLabelText('Next'))
+            act(() => {
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 116, behavior: 'smooth' })
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 532, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenLastCalledWith(2, 'arrow')
+        })
+
+        it('reads the active item from the position table', () => {
+            mockItemWidths([100, 400, 100, 400, 100, 400])
+            const { ref, carousel } = renderWithScrollMocks({ variableWidth: true })
+            initialize()
+
+            // 532 / 196 would round to 3 with a single stride
+            carousel.scrollLeft = 532
+            act(() => {
+                fireEvent.scroll(carousel)
+            })
+
+            expect(ref.current!.getActiveIndex()).toBe(2)
+        })
+
+        it('goTo scrolls to the item position', () => {
+            mockItemWidths([100, 400, 100, 400, 100, 400])
+            const { ref, carousel } = renderWithScrollMocks({ variableWidth: true })
+            initialize()
+
+            act(() => {
+                ref.current!.goTo(4)
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 1064, behavior: 'smooth' })
+        })
+
+        it('teleports infinite carousels by the measured set width', () => {
+            mockItemWidths([100, 400, 100, 400, 100, 400])
+            const { carousel } = renderWithScrollMocks({ variableWidth: true, infinite: true })
+            Object.defineProperty(carousel, 'scrollWidth', { value: 200000, configurable: true })
+            initialize()
+
+            // Item 54 starts at 16 + 9 * 1596 and is 100px wide: centered at 14430 - 250
+            const restingStart = 16 + (bufferBeforeCount / mockItems.length) * 1596 + 50 - 250
+            expect(carousel.scrollLeft).toBe(restingStart)
+
+            carousel.scrollLeft = restingStart + 1596 + 10
+            fireEvent.scroll(carousel)
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+
+            expect(carousel.scrollLeft).toBe(restingStart + 10)
+        })
+
+        it('keeps the active item in place when an earlier item resizes', () => {
+            // The container observer fires once as usual; item observers are triggered by hand
+            const itemObservers: ResizeObserverCallback[] = []
+            global.ResizeObserver = class {
+                constructor(private callback: ResizeObserverCallback) { }
+                observe(target: Element) {
+                    if (!target.classList.contains('carousel-item')) {
+                        setTimeout(() => this.callback([{ target } as ResizeObserverEntry], this as unknown as ResizeObserver), 0)
+                    } else if (!itemObservers.includes(this.callback)) {
+                        itemObservers.push(this.callback)
+                    }
+                }
+                unobserve() { }
+                disconnect() { }
+            } as unknown as typeof ResizeObserver
+            const widths = [100, 400, 100, 400, 100, 400]
+            mockItemWidths(widths)
+            const { carousel } = renderWithScrollMocks({ variableWidth: true })
+            initialize()
+
+            carousel.scrollLeft = 532
+            widths[0] = 200
+            act(() => {
+                itemObservers.forEach(callback => callback([], {} as ResizeObserver))
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollLeft).toBe(632)
+        })
+    })
+
+    describe('Slides per view', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        // Items report the width the carousel assigned them; `padding` is the container's start padding
+        const mockSlideSizes = (padding: (width: number) => number) => {
+            const widthOf = (el: HTMLElement) => parseFloat(el.style.width) || 180
+            vi.spyOn(HTMLElement.prototype, 'offsetLeft', 'get').mockImplementation(function (this: HTMLElement) {
+                if (!this.classList.contains('carousel-item')) return 0
+                const index = Array.prototype.indexOf.call(this.parentElement!.children, this)
+                return padding(widthOf(this)) + index * (widthOf(this) + 16)
+            })
+            const itemWidth = (el: HTMLElement) => el.classList.contains('carousel-item') ? widthOf(el) : 0
+            vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockImplementation(function (this: HTMLElement) {
+                return itemWidth(this)
+            })
+            return itemWidth
+        }
+
+        const renderSized = (props: Partial<Parameters<typeof BaseCarousel>[0]>, padding = (_: number) => 16) => {
+            const itemWidth = mockSlideSizes(padding)
+            const result = renderWithScrollMocks(props)
+            vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+                return { width: itemWidth(this), height: 0, top: 0, left: 0, right: 0, bottom: 0, x: 0, y: 0, toJSON: () => { } } as DOMRect
+            })
+            return result
+        }
+
+        it('sizes items from the container width', () => {
+            const { carousel } = renderSized({ slidesPerView: 2 })
+            initialize()
+
+            // (500 - 2 * 16 edge padding - 16 gap) / 2
+            expect((carousel.children[0] as HTMLElement).style.width).toBe('226px')
+        })
+
+        it('advances one group per arrow click', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderSized({ slidesPerView: 2, slidesPerGroup: 2, onActiveIndexChange })
+            initialize()
+
+            fireEvent.click(screen.getByLabelText('Next'))
+            act(() => {
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 2 * 242, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenLastCalledWith(2, 'arrow')
+        })
+
+        it('applies the breakpoint matching the window width', () => {
+            // jsdom windows are 1024px wide
+            const { carousel } = renderSized({
+                slidesPerView: 1,
+                breakpoints: { 768: { slidesPerView: 4 }, 1280: { slidesPerView: 6 } },
+            })
+            initialize()
+
+            // (500 - 32 - 3 * 16) / 4
+            expect((carousel.children[0] as HTMLElement).style.width).toBe('105px')
+        })
+
+        it('renders one pagination dot per group', () => {
+            const onActiveIndexChange = vi.fn()
+            renderSized({ slidesPerView: 2, slidesPerGroup: 2, onActiveIndexChange, children: <CarouselPagination /> })
+            initialize()
+
+            const dots = screen.getAllByRole('button', { name: /Go to slide/ })
+            expect(dots).toHaveLength(3)
+
+            fireEvent.click(dots[2])
+
+            expect(onActiveIndexChange).toHaveBeenCalledWith(4, 'click')
+            expect(dots[2]).toHaveAttribute('aria-current', 'true')
+        })
+
+        it('reports the first item of the visible group when infinite', () => {
+            const onActiveIndexChange = vi.fn()
+            // Centered padding: calc(50% - width / 2)
+            const { ref, carousel } = renderSized({ slidesPerView: 3, infinite: true, onActiveIndexChange }, (width) => 250 - width / 2)
+            Object.defineProperty(carousel, 'scrollWidth', { value: 200000, configurable: true })
+            initialize()
+
+            const bufferBeforeCount = Math.ceil(LAYOUT_CONFIG.MIN_BUFFER_COUNT / mockItems.length) * mockItems.length
+            // (500 - 2 * 16) / 3 = 156px items: item 0 is first of three, so its neighbour is centered
+            expect(carousel.scrollLeft).toBe((bufferBeforeCount + 1) * 172)
+            expect(ref.current!.getActiveIndex()).toBe(0)
+
+            act(() => {
+                ref.current!.goTo(3, { animate: false })
+            })
+
+            expect(carousel.scrollLeft).toBe((bufferBeforeCount + 4) * 172)
+            expect(onActiveIndexChange).toHaveBeenLastCalledWith(3, 'programmatic')
+        })
+    })
+
+    describe('Alignment', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        const bufferBeforeCount = Math.ceil(LAYOUT_CONFIG.MIN_BUFFER_COUNT / mockItems.length) * mockItems.length
+
+        // Slots laid out after `padding`, 180px wide with 16px gaps
+        const mockOffsets = (padding: number) => {
+            vi.spyOn(HTMLElement.prototype, 'offsetLeft', 'get').mockImplementation(function (this: HTMLElement) {
+                return this.classList.contains('carousel-item')
+                    ? padding + Array.prototype.indexOf.call(this.parentElement!.children, this) * 196
+                    : 0
+            })
+            vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockImplementation(function (this: HTMLElement) {
+                return this.classList.contains('carousel-item') ? 180 : 0
+            })
+        }
+
+        it('centers infinite carousels by default', () => {
+            const { carousel } = renderWithScrollMocks({ infinite: true })
+
+            expect(carousel.children[0]).toHaveClass('snap-center')
+            expect(carousel.style.paddingLeft).toBe('calc(50% - 90px)')
+        })
+
+        it('start-aligns finite carousels by default', () => {
+            const { carousel } = renderWithScrollMocks()
+
+            expect(carousel.children[0]).toHaveClass('snap-start')
+            expect(carousel.style.paddingLeft).toBe('16px')
+        })
+
+        it('pads end-aligned carousels so the first item rests at the end', () => {
+            const { carousel } = renderWithScrollMocks({ align: 'end', edgeInset: 24 })
+
+            expect(carousel.children[0]).toHaveClass('snap-end')
+            expect(carousel.style.paddingLeft).toBe('calc(100% - 204px)')
+            expect(carousel.style.paddingRight).toBe('24px')
+            expect(carousel.style.scrollPaddingRight).toBe('24px')
+        })
+
+        it('centers finite carousels on request', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel } = renderWithScrollMocks({ align: 'center', onActiveIndexChange })
+            initialize()
+
+            expect(carousel.children[0]).toHaveClass('snap-center')
+            expect(carousel.style.paddingRight).toBe('calc(50% - 90px)')
+
+            fireEvent.click(screen.getByLabelText('Next'))
+            act(() => {
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 196, behavior: 'smooth' })
+            expect(onActiveIndexChange).toHaveBeenLastCalledWith(1, 'arrow')
+        })
+
+        it('start-aligns the initial item of an infinite carousel with the edge inset', () => {
+            mockOffsets(40)
+            const { carousel, ref } = renderWithScrollMocks({ infinite: true, align: 'start', edgeInset: 40, initialIndex: 2 })
+            Object.defineProperty(carousel, 'scrollWidth', { value: 50000, configurable: true })
+            initialize()
+
+            expect(carousel.style.paddingLeft).toBe('40px')
+            expect(carousel.scrollLeft).toBe((bufferBeforeCount + 2) * 196)
+            expect(ref.current!.getActiveIndex()).toBe(2)
+        })
+
+        it('end-aligns the initial and clicked items of an infinite carousel', () => {
+            // calc(100% - 180px - 16px) in a 500px viewport
+            mockOffsets(304)
+            const { carousel } = renderWithScrollMocks({ infinite: true, align: 'end', children: <CarouselPagination /> })
+            Object.defineProperty(carousel, 'scrollWidth', { value: 50000, configurable: true })
+            initialize()
+
+            expect(carousel.scrollLeft).toBe(bufferBeforeCount * 196)
+
+            // Dots take the item-click path
+            fireEvent.click(screen.getByRole('button', { name: 'Go to slide 2' }))
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: (bufferBeforeCount + 1) * 196, behavior: 'smooth' })
+        })
+    })
+
+    describe('Rows (grid)', () => {
+        const initialize = () => act(() => {
+            vi.advanceTimersByTime(100)
+        })
+
+        it('groups items into columns of `rows` items', () => {
+            const { carousel } = renderWithScrollMocks({ rows: 2 })
+
+            expect(carousel.children).toHaveLength(3)
+            expect(carousel.children[1]).toHaveTextContent('Item 2Item 3')
+            expect(carousel.children[1]).toHaveAttribute('aria-label', '3 of 6')
+        })
+
+        it('reports real item indexes and items', () => {
+            const onActiveIndexChange = vi.fn()
+            const onActiveItemChange = vi.fn()
+            renderWithScrollMocks({ rows: 2, onActiveIndexChange, onActiveItemChange })
+            initialize()
+
+            fireEvent.click(screen.getByLabelText('Next'))
+            act(() => {
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(onActiveIndexChange).toHaveBeenLastCalledWith(2, 'arrow')
+            expect(onActiveItemChange).toHaveBeenLastCalledWith(mockItems[2])
+        })
+
+        it('maps goTo and getActiveIndex to the column holding the item', () => {
+            const { ref, carousel } = renderWithScrollMocks({ rows: 2 })
+            initialize()
+
+            act(() => {
+                ref.current!.goTo(3)
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 196, behavior: 'smooth' })
+            expect(ref.current!.getActiveIndex()).toBe(2)
+        })
+
+        it('persists the key of the first item in the active column', () => {
+            const { carousel } = renderWithScrollMocks({ rows: 2, persistKey: 'grid' })
+            initialize()
+
+            carousel.scrollLeft = 2 * 196
+            act(() => {
+                carousel.dispatchEvent(new Event('scrollend'))
+                vi.advanceTimersByTime(200)
+            })
+
+            expect(JSON.parse(sessionStorage.getItem('carousel-scroll-grid')!)).toEqual({ itemKey: 'item-4', offset: 0, scrollLeft: 392 })
+            sessionStorage.clear()
+        })
+
+        it('keeps the visible column in place when a page that does not fill whole columns is prepended', () => {
+            const onActiveIndexChange = vi.fn()
+            const { carousel, rerender } = renderWithScrollMocks({ rows: 2, onActiveIndexChange })
+            initialize()
+            carousel.scrollLeft = 196
+            const visibleColumn = carousel.children[1]
+            const previousPage = Array.from({ length: 3 }).map((_, i) => ({ id: `prev-${i}`, title: `Prev ${i}` }))
+
+            rerender({ rows: 2, onActiveIndexChange, items: [...previousPage, ...mockItems] })
+
+            // The page ends in a one-item column; the existing columns are not re-split
+            expect(carousel.children).toHaveLength(5)
+            expect(carousel.children[1]).toHaveTextContent('Prev 2')
+            expect(carousel.scrollLeft).toBe(3 * 196)
+            expect(carousel.children[3]).toBe(visibleColumn)
+            expect(visibleColumn).toHaveTextContent('Item 2Item 3')
+            expect(onActiveIndexChange).toHaveBeenLastCalledWith(5, 'programmatic')
+        })
+
+        it('regroups from the start when items are reordered or filtered', () => {
+            const columnTexts = (carousel: HTMLElement) => Array.from(carousel.children).map(column => column.textContent)
+            const { carousel, rerender } = renderWithScrollMocks({ rows: 2 })
+            const regular = ['Item 0Item 1', 'Item 2Item 3', 'Item 4Item 5']
+
+            rerender({ rows: 2, items: mockItems.slice(1) })
+            expect(columnTexts(carousel)).toEqual(['Item 1Item 2', 'Item 3Item 4', 'Item 5'])
+            rerender({ rows: 2, items: mockItems.filter((_, i) => i !== 3) })
+            expect(columnTexts(carousel)).toEqual(['Item 0Item 1', 'Item 2Item 4', 'Item 5'])
+            rerender({ rows: 2, items: mockItems })
+            expect(columnTexts(carousel)).toEqual(regular)
+
+            rerender({ rows: 2, items: [...mockItems].reverse() })
+            expect(columnTexts(carousel)).toEqual(['Item 5Item 4', 'Item 3Item 2', 'Item 1Item 0'])
+            rerender({ rows: 2, items: mockItems })
+            expect(columnTexts(carousel)).toEqual(regular)
+        })
+
+        it('teleports by whole column sets when the count is not divisible by rows', () => {
+            // 6 items in 4 rows: one full column and one of two items
+            const { carousel } = renderWithScrollMocks({ rows: 4, infinite: true })
+            Object.defineProperty(carousel, 'scrollWidth', { value: 50000, configurable: true })
+            initialize()
+
+            const bufferBeforeCount = Math.ceil(LAYOUT_CONFIG.MIN_BUFFER_COUNT / 2) * 2
+            expect(carousel.children).toHaveLength(bufferBeforeCount * 2 + 2)
+            expect(carousel.children[bufferBeforeCount + 1].textContent).toBe('Item 4Item 5')
+
+            const setWidth = 2 * 196
+            const pastEnd = (bufferBeforeCount * 196) + setWidth + 10
+            carousel.scrollLeft = pastEnd
+            fireEvent.scroll(carousel)
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+
+            expect(carousel.scrollLeft).toBe(pastEnd - setWidth)
+        })
+    })
+
+    describe('Effects', () => {
+        it('runs custom effects on the items instead of the default look', () => {
+            const effect = vi.fn()
+            const { carousel } = renderWithScrollMocks({ effect })
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+
+            expect(effect).toHaveBeenCalled()
+            const [progress, element, context] = effect.mock.calls[0]
+            expect(typeof progress).toBe('number')
+            expect(element).toHaveClass('carousel-item')
+            expect(context).toMatchObject({ orientation: 'horizontal', direction: 'ltr' })
+            expect((carousel.children[0] as HTMLElement).style.transform).not.toMatch(/scale/)
+        })
+
+        it('accepts an array of effects and runs them in order', () => {
+            const order: string[] = []
+            const first = vi.fn(() => order.push('first'))
+            const second = vi.fn(() => order.push('second'))
+            renderWithScrollMocks({ effect: [first, second] })
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+
+            expect(first).toHaveBeenCalledTimes(second.mock.calls.length)
+            expect(order.slice(0, 2)).toEqual(['first', 'second'])
+        })
+
+        it('writes progress custom properties when cssProgress is set', () => {
+            const { carousel } = renderWithScrollMocks({ cssProgress: true })
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+
+            const item = carousel.children[0] as HTMLElement
+            expect(item.style.getPropertyValue('--carousel-progress')).not.toBe('')
+            expect(item.style.getPropertyValue('--carousel-is-active')).toMatch(/^[01]$/)
+        })
+    })
+
+    describe('Physics', () => {
+        it('forwards the physics option to the drag hook', () => {
+            draggableOptionsMock.mockClear()
+            renderWithScrollMocks({ physics: { preset: 'ios', friction: 0.97 } })
+
+            expect(draggableOptionsMock).toHaveBeenLastCalledWith(expect.objectContaining({
+                physics: { preset: 'ios', friction: 0.97 },
+            }))
+        })
+    })
+
+    describe('Free mode', () => {
+        it('drops CSS snapping and forwards the option to the drag hook', () => {
+            draggableOptionsMock.mockClear()
+            const { carousel } = renderWithScrollMocks({ freeMode: true })
+
+            expect(carousel).not.toHaveClass('snap-x')
+            expect(carousel.children[0]).not.toHaveClass('snap-stop-always')
+            expect(draggableOptionsMock).toHaveBeenLastCalledWith(expect.objectContaining({ freeMode: true }))
+        })
+
+        it('updates the slots when free mode is toggled', () => {
+            const { carousel, rerender } = renderWithScrollMocks({ freeMode: false })
+            expect(carousel.children[0]).toHaveClass('snap-stop-always')
+            expect((carousel.children[0] as HTMLElement).style.scrollSnapStop).toBe('always')
+
+            rerender({ freeMode: true })
+            expect(carousel.children[0]).not.toHaveClass('snap-stop-always')
+            expect((carousel.children[0] as HTMLElement).style.scrollSnapStop).toBe('normal')
+
+            rerender({ freeMode: false })
+            expect(carousel.children[0]).toHaveClass('snap-stop-always')
+        })
+
+        it('keeps proximity snapping in sticky free mode', () => {
+            const { carousel } = renderWithScrollMocks({ freeMode: { sticky: true } })
+
+            expect(carousel).toHaveClass('snap-x', 'snap-proximity')
+            expect(carousel).not.toHaveClass('snap-mandatory')
+        })
+    })
+
+    describe('Flick navigation', () => {
+        it('forwards maxSlidesPerSwipe and the alignment to the drag hook', () => {
+            draggableOptionsMock.mockClear()
+            renderWithScrollMocks({ maxSlidesPerSwipe: 3, align: 'end', edgeInset: 24 })
+
+            expect(draggableOptionsMock).toHaveBeenLastCalledWith(expect.objectContaining({
+                maxSlidesPerSwipe: 3,
+                align: 'end',
+                edgeInset: 24,
+            }))
+        })
+    })
+
+    describe('Touch overscroll', () => {
+        it('forwards touchOverscroll to the drag hook', () => {
+            draggableOptionsMock.mockClear()
+            renderWithScrollMocks({ touchOverscroll: true })
+
+            expect(draggableOptionsMock).toHaveBeenLastCalledWith(expect.objectContaining({ touchOverscroll: true }))
+        })
+
+        it('holds the BOUNCING phase while an edge pull is stretched', () => {
+            const { ref } = renderWithScrollMocks({ touchOverscroll: true })
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+            const { onEdgePullStart, onEdgePullEnd } = draggableOptionsMock.mock.lastCall![0]
+
+            act(() => {
+                onEdgePullStart()
+            })
+            expect(ref.current!.getPhase()).toBe('BOUNCING')
+
+            act(() => {
+                onEdgePullEnd()
+            })
+            expect(ref.current!.getPhase()).toBe('IDLE')
+        })
+    })
+
+    describe('Wheel', () => {
+        it('advances one slide per wheel notch when enabled', () => {
+            const { carousel } = renderWithScrollMocks({ wheel: true })
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+
+            act(() => {
+                carousel.dispatchEvent(new WheelEvent('wheel', { deltaY: 100, cancelable: true }))
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(carousel.scrollTo).toHaveBeenCalledWith({ left: 196, behavior: 'smooth' })
+        })
+
+        it('leaves wheel input to the browser by default', () => {
+            const { carousel } = renderWithScrollMocks()
+            act(() => {
+                vi.advanceTimersByTime(100)
+            })
+
+            const event = new WheelEvent('wheel', { deltaY: 100, cancelable: true })
+            act(() => {
+                carousel.dispatchEvent(event)
+                vi.advanceTimersByTime(16)
+            })
+
+            expect(event.defaultPrevented).toBe(false)
+            expect(carousel.scrollTo).not.toHaveBeenCalled()
+        })
+    })
 })
@@ -0,0 +1,89 @@
+import { useContext, useEffect } from 'react'
+import { render } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import {
+    CarouselSyncGroup,
+    CarouselSyncContext,
+    createSyncRegistry,
+    type CarouselSyncRegistry,
+    type CarouselSyncRole,
+} from '../CarouselSyncGroup'
+
+const member = (role: CarouselSyncRole) => ({ role, syncTo: vi.fn() })
+
+describe('createSyncRegistry', () => {
+    it('propagates a peer change to every other member', () => {
+        const registry = createSyncRegistry()
+        const a = member('peer')
+        const b = member('peer')
+        const c = member('follower')
+        registry.register(a)
+        registry.register(b)
+        registry.register(c)
+
+        registry.broadcast(a, 3)
+
+        expect(a.syncTo).not.toHaveBeenCalled()
+        expect(b.syncTo).toHaveBeenCalledWith(3)
+        expect(c.syncTo).toHaveBeenCalledWith(3)
+    })
+
+    it('never makes a controller follow', () => {
+        const registry = createSyncRegistry()
+        const thumbnails = member('controller')
+        const main = member('peer')
+        registry.register(thumbnails)
+        registry.register(main)
+
+        registry.broadcast(main, 2)
+
+        expect(thumbnails.syncTo).not.toHaveBeenCalled()
+    })
+
+    it('ignores changes coming from a follower', () => {
+        const registry = createSyncRegistry()
+        const main = member('follower')
+        const thumbnails = member('peer')
+        registry.register(main)
+        registry.register(thumbnails)
+
+        registry.broadcast(main, 4)
+
+        expect(thumbnails.syncTo).not.toHaveBeenCalled()
+    })
+
+    it('stops notifying unregistered members', () => {
+        const registry = createSyncRegistry()
+        const a = member('peer')
+        const b = member('peer')
+        registry.register(a)
+        const unregister = registry.register(b)
+
+        unregister()
+        registry.broadcast(a, 1)
+
+        expect(b.syncTo).not.toHaveBeenCalled()
+    })
+})
+
+describe('CarouselSyncGroup', () => {
+    it('provides one registry to all of its children', () => {
+        const seen: (CarouselSyncRegistry | null)[] = []
+        const Probe = () => {
+            const registry = useContext(CarouselSyncContext)
+            useEffect(() => { seen.push(registry) }, [registry])
+            return null
+        }
+
+        render(
+            <CarouselSyncGroup>
+                <Probe />
+                <Probe />
+            </CarouselSyncGroup>
+        )
+
+        expect(seen).toHaveLength(2)
+        expect(seen[0]).not.toBeNull()
+        expect(seen[0]).toBe(seen[1])
+    })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { getAxis, getRtlScrollType, HORIZONTAL_AXIS, HORIZONTAL_RTL_AXIS, VERTICAL_AXIS } from '../axis'
+
+describe('axis', () => {
+    const createRail = () => {
+        const rail = document.createElement('div')
+        Object.defineProperty(rail, 'scrollWidth', { value: 2000 })
+        Object.defineProperty(rail, 'clientWidth', { value: 500 })
+        return rail
+    }
+
+    it('picks the axis from orientation and direction', () => {
+        expect(getAxis()).toBe(HORIZONTAL_AXIS)
+        expect(getAxis('horizontal', 'rtl')).toBe(HORIZONTAL_RTL_AXIS)
+        // Vertical feeds scroll top-to-bottom in RTL documents too
+        expect(getAxis('vertical', 'rtl')).toBe(VERTICAL_AXIS)
+    })
+
+    it('normalizes negative RTL scrollLeft to logical positions', () => {
+        expect(getRtlScrollType()).toBe('negative') // jsdom keeps negative values, like current engines
+        const rail = createRail()
+        const axis = HORIZONTAL_RTL_AXIS
+
+        axis.setScroll(rail, 300)
+
+        expect(rail.scrollLeft).toBe(-300)
+        expect(axis.getScroll(rail)).toBe(300)
+        expect(axis.toScrollOptions(rail, 196, 'smooth')).toEqual({ left: -196, behavior: 'smooth' })
+    })
+
+    it('measures RTL offsets from the right edge and mirrors pointer and transforms', () => {
+        const rail = createRail()
+        const slot = document.createElement('div')
+        Object.defineProperty(slot, 'offsetLeft', { value: 304 })
+        Object.defineProperty(slot, 'offsetWidth', { value: 180 })
+        rail.appendChild(slot)
+        const axis = HORIZONTAL_RTL_AXIS
+
+        expect(axis.getOffset(slot)).toBe(16)
+        expect(axis.getPointer({ pageX: 120, pageY: 0 })).toBe(-120)
+        expect(axis.translate(30)).toBe('translateX(-30px)')
+        expect(axis.paddingStart).toBe('paddingRight')
+    })
+})
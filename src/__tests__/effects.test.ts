@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+    createScaleOpacityEffect,
+    createCoverflowEffect,
+    createRotate3dEffect,
+    createFadeEffect,
+    createParallaxEffect,
+    createDepthBlurEffect,
+    type CarouselEffectContext,
+} from '../effects'
+import { VISUAL_CONFIG } from '../config'
+
+const createContext = (overrides: Partial<CarouselEffectContext> = {}): CarouselEffectContext => ({
+    index: 0,
+    size: 200,
+    viewportSize: 800,
+    centerDistance: 0,
+    breakpoint: 'desktop',
+    orientation: 'horizontal',
+    direction: 'ltr',
+    ...overrides,
+})
+
+describe('Carousel effects', () => {
+    it('scale/opacity effect renders the centered item at full size', () => {
+        const el = document.createElement('div')
+        createScaleOpacityEffect()(0, el, createContext())
+
+        expect(el.style.opacity).toBe('1')
+        expect(el.style.transform).toBe('scale(1)')
+        expect(el.style.zIndex).toBe('100')
+    })
+
+    it('scale/opacity effect bottoms out beyond the max distance', () => {
+        const el = document.createElement('div')
+        createScaleOpacityEffect()(3, el, createContext({ centerDistance: VISUAL_CONFIG.MAX_DIST_DESKTOP * 2 }))
+
+        expect(el.style.opacity).toBe('0.5')
+        expect(el.style.transform).toBe(`scale(${VISUAL_CONFIG.BASE_SCALE_DESKTOP})`)
+        expect(el.style.zIndex).toBe('0')
+    })
+
+    it('scale/opacity effect honours the disable flags', () => {
+        const el = document.createElement('div')
+        createScaleOpacityEffect({ opacity: false, scale: false })(1, el, createContext({ centerDistance: 300 }))
+
+        expect(el.style.opacity).toBe('')
+        expect(el.style.transform).toBe('')
+    })
+
+    it('coverflow turns neighbours away in opposite directions', () => {
+        const prev = document.createElement('div')
+        const next = document.createElement('div')
+        const effect = createCoverflowEffect({ rotate: 40, depth: 50 })
+        effect(-1, prev, createContext())
+        effect(1, next, createContext())
+
+        expect(prev.style.transform).toContain('rotateY(40deg)')
+        expect(next.style.transform).toContain('rotateY(-40deg)')
+        expect(next.style.transform).toContain('translateZ(-50px)')
+    })
+
+    it('coverflow mirrors rotation in RTL and uses rotateX when vertical', () => {
+        const rtl = document.createElement('div')
+        const vertical = document.createElement('div')
+        const effect = createCoverflowEffect({ rotate: 40 })
+        effect(1, rtl, createContext({ direction: 'rtl' }))
+        effect(1, vertical, createContext({ orientation: 'vertical' }))
+
+        expect(rtl.style.transform).toContain('rotateY(40deg)')
+        expect(vertical.style.transform).toContain('rotateX(-40deg)')
+        expect(vertical.style.transform).toContain('translateY(')
+    })
+
+    it('3D rotation pulls items onto the cylinder and hides those facing away', () => {
+        const near = document.createElement('div')
+        const behind = document.createElement('div')
+        const effect = createRotate3dEffect({ angle: 60 })
+        effect(1, near, createContext({ centerDistance: 200 }))
+        effect(2, behind, createContext({ centerDistance: 400 }))
+
+        expect(near.style.transform).toContain('translateX(-200px)')
+        expect(near.style.transform).toContain('rotateY(60deg)')
+        expect(near.style.visibility).toBe('')
+        expect(behind.style.visibility).toBe('hidden')
+    })
+
+    it('fade stacks items on the resting slot and crossfades by progress', () => {
+        const el = document.createElement('div')
+        createFadeEffect()(0.25, el, createContext({ centerDistance: 50 }))
+
+        expect(el.style.transform).toBe('translateX(-50px)')
+        expect(el.style.opacity).toBe('0.75')
+        expect(el.style.pointerEvents).toBe('')
+
+        createFadeEffect()(1, el, createContext({ centerDistance: 200 }))
+        expect(el.style.opacity).toBe('0')
+        expect(el.style.pointerEvents).toBe('none')
+    })
+
+    it('parallax moves inner layers by their own amount or the default', () => {
+        const el = document.createElement('div')
+        el.innerHTML = '<img data-carousel-parallax /><p data-carousel-parallax="0.5"></p>'
+        createParallaxEffect({ amount: 0.25 })(1, el, createContext({ size: 200 }))
+
+        const [img, text] = Array.from(el.querySelectorAll<HTMLElement>('[data-carousel-parallax]'))
+        expect(img.style.transform).toBe('translateX(-50px)')
+        expect(text.style.transform).toBe('translateX(-100px)')
+    })
+
+    it('depth blur grows with distance up to the maximum', () => {
+        const active = document.createElement('div')
+        const near = document.createElement('div')
+        const far = document.createElement('div')
+        const effect = createDepthBlurEffect({ blurPerItem: 2, maxBlur: 5 })
+        effect(0, active, createContext())
+        effect(-1, near, createContext())
+        effect(4, far, createContext())
+
+        expect(active.style.filter).toBe('')
+        expect(near.style.filter).toBe('blur(2.00px)')
+        expect(far.style.filter).toBe('blur(5.00px)')
+    })
+})
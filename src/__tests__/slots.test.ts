@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { getSlotElement, getSlotElements, getSlotIndex, SLOT_INDEX_ATTRIBUTE, SPACER_ATTRIBUTE } from '../slots'
+
+describe('slots', () => {
+    // Slots 5..7 mounted between a leading and a trailing spacer
+    const createWindowedRail = () => {
+        const rail = document.createElement('div')
+        const spacer = () => {
+            const node = document.createElement('div')
+            node.setAttribute(SPACER_ATTRIBUTE, '')
+            return node
+        }
+        rail.appendChild(spacer())
+        for (let i = 5; i < 8; i++) {
+            const slot = document.createElement('div')
+            slot.setAttribute(SLOT_INDEX_ATTRIBUTE, String(i))
+            rail.appendChild(slot)
+        }
+        rail.appendChild(spacer())
+        return rail
+    }
+
+    it('resolves slots by slot index around the spacers', () => {
+        const rail = createWindowedRail()
+
+        expect(getSlotElement(rail, 5)).toBe(rail.children[1])
+        expect(getSlotElement(rail, 7)).toBe(rail.children[3])
+        expect(getSlotElement(rail, 4)).toBeUndefined()
+        expect(getSlotElement(rail, 8)).toBeUndefined()
+    })
+
+    it('lists mounted slots and their indices', () => {
+        const rail = createWindowedRail()
+        const slots = getSlotElements(rail)
+
+        expect(slots).toHaveLength(3)
+        expect(slots.map(slot => getSlotIndex(rail, slot))).toEqual([5, 6, 7])
+        expect(getSlotIndex(rail, rail.children[0])).toBe(-1)
+    })
+
+    it('falls back to child indices when slots are not marked', () => {
+        const rail = document.createElement('div')
+        rail.append(document.createElement('div'), document.createElement('div'))
+
+        expect(getSlotElement(rail, 1)).toBe(rail.children[1])
+        expect(getSlotIndex(rail, rail.children[1])).toBe(1)
+    })
+})
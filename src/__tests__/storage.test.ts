@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+    createSessionStorageAdapter,
+    createLocalStorageAdapter,
+    createMemoryStorageAdapter,
+    createUrlSearchParamsAdapter,
+} from '../storage'
+
+describe('Storage adapters', () => {
+    afterEach(() => {
+        sessionStorage.clear()
+        localStorage.clear()
+        window.history.replaceState(null, '', '/')
+        vi.restoreAllMocks()
+    })
+
+    it('sessionStorage adapter reads and writes sessionStorage', () => {
+        const storage = createSessionStorageAdapter()
+
+        storage.setItem('key', 'value')
+        expect(sessionStorage.getItem('key')).toBe('value')
+        expect(storage.getItem('key')).toBe('value')
+
+        storage.removeItem('key')
+        expect(storage.getItem('key')).toBeNull()
+    })
+
+    it('localStorage adapter reads and writes localStorage', () => {
+        const storage = createLocalStorageAdapter()
+
+        storage.setItem('key', 'value')
+        expect(localStorage.getItem('key')).toBe('value')
+    })
+
+    it('web storage adapters swallow errors (webviews, private mode)', () => {
+        vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => { throw new Error('SecurityError') })
+        vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new Error('QuotaExceededError') })
+        const storage = createSessionStorageAdapter()
+
+        expect(() => storage.setItem('key', 'value')).not.toThrow()
+        expect(storage.getItem('key')).toBeNull()
+    })
+
+    it('memory adapters are isolated per instance', () => {
+        const a = createMemoryStorageAdapter()
+        const b = createMemoryStorageAdapter()
+
+        a.setItem('key', 'value')
+
+        expect(a.getItem('key')).toBe('value')
+        expect(b.getItem('key')).toBeNull()
+    })
+
+    it('URL adapter stores entries as search params without adding history entries', () => {
+        window.history.replaceState(null, '', '/products?page=2')
+        const historyLength = window.history.length
+        const storage = createUrlSearchParamsAdapter({ prefix: 'c.' })
+
+        storage.setItem('carousel-scroll-home', '392')
+
+        expect(new URLSearchParams(window.location.search).get('c.carousel-scroll-home')).toBe('392')
+        expect(new URLSearchParams(window.location.search).get('page')).toBe('2')
+        expect(window.history.length).toBe(historyLength)
+        expect(storage.getItem('carousel-scroll-home')).toBe('392')
+
+        storage.removeItem('carousel-scroll-home')
+        expect(window.location.search).toBe('?page=2')
+    })
+})
@@ -6,6 +6,17 @@ import {
     calculateVisualOpacity,
     calculateRapidClickTarget,
     calculateTeleportOffset,
+    findNearestCloneIndex,
+    calculateDotWindow,
+    getAlignedScroll,
+    getScrollAtIndex,
+    getIndexAtScroll,
+    getItemRangeInView,
+    resolveBreakpoint,
+    calculateSlideSize,
+    chunkItems,
+    getMomentumDistance,
+    getFlickTargetIndex,
     isAtTarget,
     createTripleBuffer
 } from '../utils'
@@ -145,6 +156,179 @@ describe('calculateTeleportOffset', () => {
     })
 })
 
+describe('findNearestCloneIndex', () => {
+    // 6 items, buffer of 54 clones before the originals (9 full sets)
+    const count = 6
+
+    it('moves forward within the same set', () => {
+        // DOM 56 = real 2 → real 4 is two slots ahead
+        expect(findNearestCloneIndex(56, 4, count)).toBe(58)
+    })
+
+    it('wraps forward across the set boundary when shorter', () => {
+        // DOM 59 = real 5 → real 0 is one slot ahead (next copy), not five back
+        expect(findNearestCloneIndex(59, 0, count)).toBe(60)
+    })
+
+    it('wraps backward across the set boundary when shorter', () => {
+        // DOM 54 = real 0 → real 5 is one slot behind (previous copy)
+        expect(findNearestCloneIndex(54, 5, count)).toBe(53)
+    })
+
+    it('returns the current index when already on the target', () => {
+        expect(findNearestCloneIndex(57, 3, count)).toBe(57)
+    })
+
+    it('returns the current index for an empty set', () => {
+        expect(findNearestCloneIndex(10, 3, 0)).toBe(10)
+    })
+})
+
+describe('calculateDotWindow', () => {
+    it('renders every dot for short lists', () => {
+        expect(calculateDotWindow(5, 3, 7)).toEqual({ start: 0, end: 5 })
+    })
+
+    it('centers the window on the active index', () => {
+        expect(calculateDotWindow(20, 10, 7)).toEqual({ start: 7, end: 14 })
+    })
+
+    it('clamps the window at both ends', () => {
+        expect(calculateDotWindow(20, 1, 7)).toEqual({ start: 0, end: 7 })
+        expect(calculateDotWindow(20, 19, 7)).toEqual({ start: 13, end: 20 })
+    })
+})
+
+describe('per-item positions', () => {
+    // Widths 100, 300, 200 with a 10px gap, 20px leading padding
+    const positions = [
+        { start: 20, size: 100 },
+        { start: 130, size: 300 },
+        { start: 440, size: 200 },
+    ]
+
+    it('getScrollAtIndex aligns starts', () => {
+        expect(getScrollAtIndex(positions, 0, 400, 'start')).toBe(0)
+        expect(getScrollAtIndex(positions, 1, 400, 'start')).toBe(110)
+        expect(getScrollAtIndex(positions, 2, 400, 'start')).toBe(420)
+    })
+
+    it('getScrollAtIndex centers items', () => {
+        // 130 + 150 - 200
+        expect(getScrollAtIndex(positions, 1, 400, 'center')).toBe(80)
+        // 440 + 100 - 200
+        expect(getScrollAtIndex(positions, 2, 400, 'center')).toBe(340)
+    })
+
+    it('getScrollAtIndex aligns ends', () => {
+        // (130 + 300) - (20 + 100)
+        expect(getScrollAtIndex(positions, 1, 400, 'end')).toBe(310)
+        expect(getScrollAtIndex(positions, 2, 400, 'end')).toBe(520)
+    })
+
+    it('getAlignedScroll aligns an item with the viewport edge or center', () => {
+        expect(getAlignedScroll(130, 300, 400, 'start', 16)).toBe(114)
+        expect(getAlignedScroll(130, 300, 400, 'center', 16)).toBe(80)
+        // 130 + 300 + 16 - 400
+        expect(getAlignedScroll(130, 300, 400, 'end', 16)).toBe(46)
+    })
+
+    it('getScrollAtIndex interpolates fractional indices', () => {
+        expect(getScrollAtIndex(positions, 1.5, 400, 'start')).toBe(265)
+    })
+
+    it('getIndexAtScroll is the inverse of getScrollAtIndex', () => {
+        expect(getIndexAtScroll(positions, 110, 400, 'start')).toBe(1)
+        expect(getIndexAtScroll(positions, 265, 400, 'start')).toBe(1.5)
+        expect(getIndexAtScroll(positions, 340, 400, 'center')).toBe(2)
+    })
+
+    it('getIndexAtScroll clamps to the first and last item', () => {
+        expect(getIndexAtScroll(positions, -50, 400, 'start')).toBe(0)
+        expect(getIndexAtScroll(positions, 9999, 400, 'start')).toBe(2)
+        expect(getIndexAtScroll([], 100, 400, 'start')).toBe(0)
+    })
+
+    it('getItemRangeInView returns the overlapping items', () => {
+        expect(getItemRangeInView(positions, 0, 125)).toEqual({ start: 0, end: 1 })
+        expect(getItemRangeInView(positions, 125, 450)).toEqual({ start: 1, end: 3 })
+        expect(getItemRangeInView(positions, 700, 900)).toEqual({ start: 3, end: 3 })
+    })
+})
+
+describe('resolveBreakpoint', () => {
+    const breakpoints = { 640: { slidesPerView: 2 }, 1024: { slidesPerView: 4, slidesPerGroup: 2 } }
+
+    it('returns the base options below the first breakpoint', () => {
+        expect(resolveBreakpoint({ slidesPerView: 1, slidesPerGroup: 1 }, breakpoints, 375)).toEqual({ slidesPerView: 1, slidesPerGroup: 1 })
+    })
+
+    it('applies every breakpoint up to the width, larger ones last', () => {
+        expect(resolveBreakpoint({ slidesPerView: 1, slidesPerGroup: 1 }, breakpoints, 800)).toEqual({ slidesPerView: 2, slidesPerGroup: 1 })
+        expect(resolveBreakpoint({ slidesPerView: 1, slidesPerGroup: 1 }, breakpoints, 1024)).toEqual({ slidesPerView: 4, slidesPerGroup: 2 })
+    })
+
+    it('returns the base object without breakpoints', () => {
+        const base = { slidesPerView: 3 }
+        expect(resolveBreakpoint(base, undefined, 1200)).toBe(base)
+    })
+})
+
+describe('calculateSlideSize', () => {
+    it('fits the items and their gaps into the viewport', () => {
+        // (500 - 32 - 2 * 16) / 3
+        expect(calculateSlideSize(500, 3, 16, 32)).toBeCloseTo(145.33, 2)
+        expect(calculateSlideSize(500, 1, 16, 0)).toBe(500)
+    })
+
+    it('never returns a negative or infinite size', () => {
+        expect(calculateSlideSize(0, 3, 16, 32)).toBe(0)
+        expect(calculateSlideSize(500, 0, 16, 0)).toBe(0)
+    })
+})
+
+describe('chunkItems', () => {
+    it('groups items in order, leaving the remainder in the last group', () => {
+        expect(chunkItems([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]])
+        expect(chunkItems([1, 2, 3], 3)).toEqual([[1, 2, 3]])
+    })
+
+    it('treats sizes below one as single-item groups', () => {
+        expect(chunkItems([1, 2], 0)).toEqual([[1], [2]])
+        expect(chunkItems([], 2)).toEqual([])
+    })
+
+    it('opens a new group at every forced group start', () => {
+        expect(chunkItems([1, 2, 3, 4, 5, 6], 2, item => item === 4)).toEqual([[1, 2], [3], [4, 5], [6]])
+        expect(chunkItems([1, 2, 3], 2, () => true)).toEqual([[1], [2], [3]])
+    })
+})
+
+describe('flick projection', () => {
+    it('sums the geometric momentum decay', () => {
+        expect(getMomentumDistance(10, 0.5)).toBe(10)
+        expect(getMomentumDistance(-40, 0.96)).toBeCloseTo(-960)
+        expect(getMomentumDistance(10, 1)).toBe(0)
+    })
+
+    const points = [0, 100, 200, 300, 400, 500, 600]
+
+    it('lands on the snap point nearest the projected scroll', () => {
+        expect(getFlickTargetIndex(points, 100, 340, Infinity)).toBe(3)
+        expect(getFlickTargetIndex(points, 500, 160, Infinity)).toBe(2)
+    })
+
+    it('limits the landing to maxItems from where the gesture started', () => {
+        expect(getFlickTargetIndex(points, 110, 590, 2)).toBe(3)
+        expect(getFlickTargetIndex(points, 590, -200, 1)).toBe(5)
+        expect(getFlickTargetIndex(points, 210, 400, 0)).toBe(2)
+    })
+
+    it('returns -1 without snap points', () => {
+        expect(getFlickTargetIndex([], 0, 100, 1)).toBe(-1)
+    })
+})
+
 describe('Numeric edge cases', () => {
     describe('Very large scrollLeft values', () => {
         it('calculateCenterIndex handles scrollLeft > 100,000 without precision loss', () => {
@@ -0,0 +1,154 @@
+/** Scroll direction of a carousel */
+export type CarouselOrientation = 'horizontal' | 'vertical'
+
+/** Inline direction of a horizontal carousel (items flow right-to-left in 'rtl') */
+export type CarouselDirection = 'ltr' | 'rtl'
+
+/** Where the active item rests in the viewport along the scroll axis */
+export type CarouselAlign = 'start' | 'center' | 'end'
+
+/**
+ * How the browser reports scrollLeft in RTL scroll containers:
+ * - 'negative': 0 at the start (right edge), decreasing toward the end (spec; all current engines)
+ * - 'reverse': 0 at the start, increasing toward the end (legacy Edge)
+ * - 'default': 0 at the far left, i.e. at the end (Chrome before 85)
+ */
+export type RtlScrollType = 'negative' | 'reverse' | 'default'
+
+/**
+ * Axis-specific DOM access.
+ * Every hook reads and writes positions through an axis, so the same measuring,
+ * teleport, snapping and drag logic drives horizontal rails and vertical feeds.
+ * "Size" always means the extent along the scroll axis (width or height).
+ *
+ * Positions are logical: 0 is the start of the content and grows toward the end,
+ * in RTL too. The RTL axis converts from and to the browser's scrollLeft flavor.
+ */
+export interface CarouselAxis {
+    orientation: CarouselOrientation
+    direction: CarouselDirection
+    /** scrollLeft / scrollTop */
+    getScroll: (el: Element) => number
+    setScroll: (el: Element, position: number) => void
+    /** scrollTo() options targeting a position along the axis */
+    toScrollOptions: (el: Element, position: number, behavior?: ScrollBehavior) => ScrollToOptions
+    /** scrollWidth / scrollHeight */
+    getScrollSize: (el: Element) => number
+    /** clientWidth / clientHeight */
+    getClientSize: (el: Element) => number
+    /** offsetLeft / offsetTop (distance from the start edge of the parent in RTL) */
+    getOffset: (el: HTMLElement) => number
+    /** offsetWidth / offsetHeight */
+    getSize: (el: HTMLElement) => number
+    /** Sub-pixel size from getBoundingClientRect() */
+    getRectSize: (rect: Pick<DOMRect, 'width' | 'height'>) => number
+    /** Pointer coordinate along the axis (pageX / pageY, mirrored in RTL) */
+    getPointer: (e: { pageX: number, pageY: number }) => number
+    /** CSS transform moving an element along the axis */
+    translate: (px: number) => string
+    /** Inline style keys for padding and scroll padding at the start and end of the axis */
+    paddingStart: 'paddingLeft' | 'paddingRight' | 'paddingTop'
+    paddingEnd: 'paddingRight' | 'paddingLeft' | 'paddingBottom'
+    scrollPaddingStart: 'scrollPaddingLeft' | 'scrollPaddingRight' | 'scrollPaddingTop'
+    scrollPaddingEnd: 'scrollPaddingRight' | 'scrollPaddingLeft' | 'scrollPaddingBottom'
+}
+
+let rtlScrollType: RtlScrollType | null = null
+
+/**
+ * Detect (once) how this browser reports scrollLeft in RTL containers.
+ * Falls back to the spec behavior during SSR.
+ */
+export function getRtlScrollType(): RtlScrollType {
+    if (rtlScrollType) return rtlScrollType
+    if (typeof document === 'undefined' || !document.body) return 'negative'
+
+    const probe = document.createElement('div')
+    probe.dir = 'rtl'
+    probe.style.cssText = 'position:absolute;top:-1000px;width:4px;height:1px;overflow:scroll;visibility:hidden'
+    const content = document.createElement('div')
+    content.style.cssText = 'width:8px;height:1px'
+    probe.appendChild(content)
+    document.body.appendChild(probe)
+
+    if (probe.scrollLeft > 0) {
+        rtlScrollType = 'default'
+    } else {
+        probe.scrollLeft = -1
+        rtlScrollType = probe.scrollLeft < 0 ? 'negative' : 'reverse'
+    }
+    document.body.removeChild(probe)
+    return rtlScrollType
+}
+
+/** Convert between logical positions and RTL scrollLeft (the mapping is its own inverse) */
+const flipRtlScroll = (el: Element, value: number): number => {
+    switch (getRtlScrollType()) {
+        case 'negative': return -value
+        case 'reverse': return value
+        case 'default': return el.scrollWidth - el.clientWidth - value
+    }
+}
+
+export const HORIZONTAL_AXIS: CarouselAxis = {
+    orientation: 'horizontal',
+    direction: 'ltr',
+    getScroll: (el) => el.scrollLeft,
+    setScroll: (el, position) => { el.scrollLeft = position },
+    toScrollOptions: (_el, position, behavior) => (behavior ? { left: position, behavior } : { left: position }),
+    getScrollSize: (el) => el.scrollWidth,
+    getClientSize: (el) => el.clientWidth,
+    getOffset: (el) => el.offsetLeft,
+    getSize: (el) => el.offsetWidth,
+    getRectSize: (rect) => rect.width,
+    getPointer: (e) => e.pageX,
+    translate: (px) => `translateX(${px}px)`,
+    paddingStart: 'paddingLeft',
+    paddingEnd: 'paddingRight',
+    scrollPaddingStart: 'scrollPaddingLeft',
+    scrollPaddingEnd: 'scrollPaddingRight',
+}
+
+export const HORIZONTAL_RTL_AXIS: CarouselAxis = {
+    ...HORIZONTAL_AXIS,
+    direction: 'rtl',
+    getScroll: (el) => flipRtlScroll(el, el.scrollLeft),
+    setScroll: (el, position) => { el.scrollLeft = flipRtlScroll(el, position) },
+    toScrollOptions: (el, position, behavior) => {
+        const left = flipRtlScroll(el, position)
+        return behavior ? { left, behavior } : { left }
+    },
+    // Items are laid out from the parent's right edge
+    getOffset: (el) => (el.parentElement?.clientWidth ?? 0) - el.offsetLeft - el.offsetWidth,
+    getPointer: (e) => -e.pageX,
+    translate: (px) => `translateX(${-px}px)`,
+    paddingStart: 'paddingRight',
+    paddingEnd: 'paddingLeft',
+    scrollPaddingStart: 'scrollPaddingRight',
+    scrollPaddingEnd: 'scrollPaddingLeft',
+}
+
+export const VERTICAL_AXIS: CarouselAxis = {
+    orientation: 'vertical',
+    direction: 'ltr',
+    getScroll: (el) => el.scrollTop,
+    setScroll: (el, position) => { el.scrollTop = position },
+    toScrollOptions: (_el, position, behavior) => (behavior ? { top: position, behavior } : { top: position }),
+    getScrollSize: (el) => el.scrollHeight,
+    getClientSize: (el) => el.clientHeight,
+    getOffset: (el) => el.offsetTop,
+    getSize: (el) => el.offsetHeight,
+    getRectSize: (rect) => rect.height,
+    getPointer: (e) => e.pageY,
+    translate: (px) => `translateY(${px}px)`,
+    paddingStart: 'paddingTop',
+    paddingEnd: 'paddingBottom',
+    scrollPaddingStart: 'scrollPaddingTop',
+    scrollPaddingEnd: 'scrollPaddingBottom',
+}
+
+/** Vertical carousels scroll top-to-bottom regardless of the text direction */
+export function getAxis(orientation: CarouselOrientation = 'horizontal', direction: CarouselDirection = 'ltr'): CarouselAxis {
+    if (orientation === 'vertical') return VERTICAL_AXIS
+    return direction === 'rtl' ? HORIZONTAL_RTL_AXIS : HORIZONTAL_AXIS
+}
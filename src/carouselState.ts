@@ -0,0 +1,74 @@
+import { createContext, useContext, useEffect, useState } from 'react'
+
+/** Public carousel state shared with composable children (pagination, custom indicators) */
+export interface CarouselSnapshot {
+    /** Real index of the active item (clones excluded) */
+    activeIndex: number
+    /** Number of real items */
+    count: number
+    /** Whether the carousel wraps around */
+    infinite: boolean
+    /** Items advanced per page (arrows, keyboard, pagination dots) */
+    slidesPerGroup: number
+}
+
+/**
+ * Minimal external store owned by each Carousel.
+ * Active index changes are pushed imperatively (scroll events never re-render the carousel),
+ * so subscribers re-render on their own without touching the item list.
+ */
+export interface CarouselStore {
+    getSnapshot: () => CarouselSnapshot
+    setSnapshot: (patch: Partial<CarouselSnapshot>) => void
+    subscribe: (listener: () => void) => () => void
+    /** Jump to a real index through the item-click path (shortest path when infinite) */
+    goTo: (index: number) => void
+}
+
+export function createCarouselStore(initial: CarouselSnapshot, goTo: (index: number) => void): CarouselStore {
+    let snapshot = initial
+    const listeners = new Set<() => void>()
+
+    return {
+        getSnapshot: () => snapshot,
+        setSnapshot: (patch) => {
+            const changed = (Object.keys(patch) as (keyof CarouselSnapshot)[])
+                .some(key => patch[key] !== undefined && patch[key] !== snapshot[key])
+            if (!changed) return
+            snapshot = { ...snapshot, ...patch }
+            listeners.forEach(listener => listener())
+        },
+        subscribe: (listener) => {
+            listeners.add(listener)
+            return () => { listeners.delete(listener) }
+        },
+        goTo,
+    }
+}
+
+/** Provided by every Carousel to its children */
+export const CarouselStateContext = createContext<CarouselStore | null>(null)
+
+export interface UseCarouselStateReturn extends CarouselSnapshot {
+    goTo: (index: number) => void
+}
+
+/**
+ * Read the enclosing carousel's state and re-render when it changes.
+ * Returns null when used outside a Carousel.
+ * (useState + subscribe instead of useSyncExternalStore to keep React 17 support)
+ */
+export function useCarouselState(): UseCarouselStateReturn | null {
+    const store = useContext(CarouselStateContext)
+    const [snapshot, setSnapshot] = useState<CarouselSnapshot | null>(() => store?.getSnapshot() ?? null)
+
+    useEffect(() => {
+        if (!store) return
+        // Catch up with changes that happened between render and subscription
+        setSnapshot(store.getSnapshot())
+        return store.subscribe(() => setSnapshot(store.getSnapshot()))
+    }, [store])
+
+    if (!store || !snapshot) return null
+    return { ...snapshot, goTo: store.goTo }
+}
@@ -27,6 +27,16 @@ export const TIMING_CONFIG = {
     SCROLL_COMPLETION_DEBOUNCE_MS: 150,
     // Tolerance for target arrival check (ratio of stride)
     SCROLL_TARGET_TOLERANCE_RATIO: 0.5,
+    // Default delay between autoplay advances
+    AUTOPLAY_INTERVAL_MS: 5000,
+    // Retry delay when an autoplay tick lands while the carousel is busy
+    AUTOPLAY_RETRY_MS: 100,
+    // Focus arriving this soon after a pointerdown is pointer-initiated (does not select)
+    POINTER_FOCUS_GRACE_MS: 500,
+    // Minimum delay between URL writes (browsers rate-limit history.replaceState)
+    URL_SYNC_THROTTLE_MS: 300,
+    // Wheel events closer than this belong to one gesture (trackpad streams include their inertia)
+    WHEEL_STREAM_GAP_MS: 150,
 } as const
 
 // Layout configuration
@@ -40,6 +50,14 @@ export const LAYOUT_CONFIG = {
     // Initial fallback values (should match --carousel-item-width-default in tailwind.css)
     INITIAL_CARD_WIDTH: 180,
     INITIAL_GAP: 16,
+    // Items rendered beyond each side of the viewport when virtualizing
+    VIRTUALIZATION_OVERSCAN: 3,
+    // Window width assumed when resolving breakpoints without a window (SSR)
+    SSR_VIEWPORT_WIDTH: 1024,
+    // Default gap between a start/end-aligned item and the viewport edge (edgeInset prop)
+    EDGE_INSET: 16,
+    // Smallest whole-pixel wheel delta that starts a mouse-notch gesture (trackpads start smaller)
+    WHEEL_NOTCH_MIN_DELTA: 50,
 } as const
 
 export const DEBUG_CONFIG = {
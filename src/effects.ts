@@ -0,0 +1,202 @@
+import { VISUAL_CONFIG } from './config'
+import type { CarouselDirection, CarouselOrientation } from './axis'
+
+/** Responsive tier of the window, resolved once per frame */
+export type CarouselBreakpoint = 'mobile' | 'tablet' | 'desktop'
+
+/**
+ * Per-item data handed to effects. One object is reused for every item of a frame,
+ * so effects must read it synchronously and never keep a reference.
+ */
+export interface CarouselEffectContext {
+    /** Slot index in the track (clones included) */
+    index: number
+    /** Item size along the scroll axis in px */
+    size: number
+    /** Viewport size along the scroll axis in px */
+    viewportSize: number
+    /** Signed distance in px from the item center to the viewport center (positive toward the end) */
+    centerDistance: number
+    /** Responsive tier of the window */
+    breakpoint: CarouselBreakpoint
+    /** Scroll axis */
+    orientation: CarouselOrientation
+    /** Text direction (positive progress runs leftward in horizontal RTL) */
+    direction: CarouselDirection
+}
+
+/**
+ * Visual effect applied to every item near the viewport on each scroll frame.
+ * `progress` is the signed distance in items from the active resting position:
+ * 0 for the active item, 1 for the next one, -0.5 halfway to the previous one.
+ */
+export type CarouselEffect = (progress: number, element: HTMLElement, context: CarouselEffectContext) => void
+
+const MAX_DIST: Record<CarouselBreakpoint, number> = {
+    mobile: VISUAL_CONFIG.MAX_DIST_MOBILE,
+    tablet: VISUAL_CONFIG.MAX_DIST_TABLET,
+    desktop: VISUAL_CONFIG.MAX_DIST_DESKTOP,
+}
+
+const BASE_SCALE: Record<CarouselBreakpoint, number> = {
+    mobile: VISUAL_CONFIG.BASE_SCALE_MOBILE,
+    tablet: VISUAL_CONFIG.BASE_SCALE_TABLET,
+    desktop: VISUAL_CONFIG.BASE_SCALE_DESKTOP,
+}
+
+/** Transform helpers that follow the scroll axis and mirror horizontal RTL */
+const axisOf = (context: CarouselEffectContext) => {
+    const isVertical = context.orientation === 'vertical'
+    return {
+        translate: isVertical ? 'translateY' : 'translateX',
+        // Rotating around the cross axis turns items toward the viewer along the scroll axis
+        rotate: isVertical ? 'rotateX' : 'rotateY',
+        sign: !isVertical && context.direction === 'rtl' ? -1 : 1,
+    }
+}
+
+export interface ScaleOpacityEffectOptions {
+    /** Fade items away from the center. Defaults to true */
+    opacity?: boolean
+    /** Shrink items away from the center. Defaults to true */
+    scale?: boolean
+}
+
+/**
+ * The default look: items shrink and fade with a cubic falloff from the viewport center,
+ * and nearer items stack above farther ones.
+ */
+export function createScaleOpacityEffect({ opacity = true, scale = true }: ScaleOpacityEffectOptions = {}): CarouselEffect {
+    return (_progress, element, context) => {
+        const dist = Math.abs(context.centerDistance)
+
+        // Cubic easing for smooth falloff
+        const normDist = Math.min(dist / MAX_DIST[context.breakpoint], 1)
+        const factor = 1 - normDist
+        const easeFactor = 1 - Math.pow(1 - factor, 3)
+
+        if (opacity) {
+            element.style.opacity = dist < VISUAL_CONFIG.CENTER_THRESHOLD ? '1' : `${0.5 + (0.5 * easeFactor)}`
+        }
+
+        element.style.zIndex = `${Math.round(easeFactor * 100)}`
+
+        // PERF: Dynamic box-shadow animations trigger a "Paint" on every frame, which is very expensive (>1ms/frame).
+        // We disable this by default to maintain 60fps, especially with many items on screen.
+        if (scale && !VISUAL_CONFIG.DISABLE_DYNAMIC_SHADOW) {
+            element.style.boxShadow = `0 10px 20px -5px rgba(0, 0, 0, ${0.12 * easeFactor})`
+        }
+
+        if (scale) {
+            const baseScale = BASE_SCALE[context.breakpoint]
+            element.style.transform = `scale(${baseScale + ((1 - baseScale) * easeFactor)})`
+        }
+    }
+}
+
+export interface CoverflowEffectOptions {
+    /** Rotation in degrees of the items next to the active one. Defaults to 50 */
+    rotate?: number
+    /** Depth in px each item steps back per item of distance. Defaults to 100 */
+    depth?: number
+    /** Px that neighbours slide toward the active item (overlap). Defaults to 0 */
+    stretch?: number
+    /** Perspective distance in px. Defaults to 1200 */
+    perspective?: number
+}
+
+/** Coverflow: neighbours turn away and step back while the active item faces the viewer */
+export function createCoverflowEffect({
+    rotate = 50,
+    depth = 100,
+    stretch = 0,
+    perspective = 1200,
+}: CoverflowEffectOptions = {}): CarouselEffect {
+    return (progress, element, context) => {
+        const { translate, rotate: rotateFn, sign } = axisOf(context)
+        const clamped = Math.max(-1, Math.min(progress, 1))
+        element.style.transform = `perspective(${perspective}px) ${translate}(${-sign * stretch * progress}px) `
+            + `translateZ(${-depth * Math.abs(progress)}px) ${rotateFn}(${-sign * rotate * clamped}deg)`
+        element.style.zIndex = `${100 - Math.round(Math.abs(progress) * 10)}`
+    }
+}
+
+export interface Rotate3dEffectOptions {
+    /** Degrees between neighbouring items around the cylinder. Defaults to 30 */
+    angle?: number
+    /** Cylinder radius in px. Defaults to 400 */
+    radius?: number
+    /** Perspective distance in px. Defaults to 1200 */
+    perspective?: number
+}
+
+/**
+ * 3D carousel: items sit on a rotating cylinder around the viewport center. Items are pulled
+ * back from their track slot onto the cylinder; those facing away are hidden.
+ */
+export function createRotate3dEffect({ angle = 30, radius = 400, perspective = 1200 }: Rotate3dEffectOptions = {}): CarouselEffect {
+    return (progress, element, context) => {
+        const { translate, rotate, sign } = axisOf(context)
+        const itemAngle = progress * angle
+        element.style.transform = `perspective(${perspective}px) ${translate}(${-sign * context.centerDistance}px) `
+            + `translateZ(${-radius}px) ${rotate}(${sign * itemAngle}deg) translateZ(${radius}px)`
+        element.style.visibility = Math.abs(itemAngle) > 90 ? 'hidden' : ''
+        element.style.zIndex = `${100 - Math.round(Math.abs(progress) * 10)}`
+    }
+}
+
+/**
+ * Crossfade: every item is stacked on the resting slot and only the active one is opaque.
+ * Pair with one item per view (e.g. `slidesPerView={1}`).
+ */
+export function createFadeEffect(): CarouselEffect {
+    return (progress, element, context) => {
+        const { translate, sign } = axisOf(context)
+        const opacity = Math.max(0, 1 - Math.abs(progress))
+        element.style.transform = `${translate}(${-sign * context.centerDistance}px)`
+        element.style.opacity = `${opacity}`
+        element.style.zIndex = `${Math.round(opacity * 100)}`
+        // Only the visible item takes clicks
+        element.style.pointerEvents = opacity > 0.5 ? '' : 'none'
+    }
+}
+
+export interface ParallaxEffectOptions {
+    /** Selector of the inner layers to move. Defaults to '[data-carousel-parallax]' */
+    selector?: string
+    /**
+     * Fraction of the item size a layer moves per item of progress. A layer's own
+     * `data-carousel-parallax` value (e.g. "0.5") takes precedence. Defaults to 0.3
+     */
+    amount?: number
+}
+
+/** Parallax: inner layers of each item lag behind the item as it scrolls */
+export function createParallaxEffect({
+    selector = '[data-carousel-parallax]',
+    amount = 0.3,
+}: ParallaxEffectOptions = {}): CarouselEffect {
+    return (progress, element, context) => {
+        const { translate, sign } = axisOf(context)
+        const layers = element.querySelectorAll<HTMLElement>(selector)
+        for (let i = 0; i < layers.length; i++) {
+            const layerAmount = parseFloat(layers[i].dataset.carouselParallax ?? '') || amount
+            layers[i].style.transform = `${translate}(${-sign * progress * context.size * layerAmount}px)`
+        }
+    }
+}
+
+export interface DepthBlurEffectOptions {
+    /** Blur in px added per item of distance from the active one. Defaults to 2 */
+    blurPerItem?: number
+    /** Maximum blur in px. Defaults to 6 */
+    maxBlur?: number
+}
+
+/** Depth of field: items blur with their distance from the active one */
+export function createDepthBlurEffect({ blurPerItem = 2, maxBlur = 6 }: DepthBlurEffectOptions = {}): CarouselEffect {
+    return (progress, element) => {
+        const blur = Math.min(maxBlur, Math.abs(progress) * blurPerItem)
+        element.style.filter = blur > 0.05 ? `blur(${blur.toFixed(2)}px)` : ''
+    }
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useCarouselAutoplay, type UseCarouselAutoplayOptions } from '../useCarouselAutoplay'
+
+describe('useCarouselAutoplay', () => {
+    let root: HTMLDivElement
+
+    const setup = (overrides: Partial<UseCarouselAutoplayOptions> = {}) => {
+        const onAdvance = vi.fn()
+        const canAdvance = vi.fn(() => true)
+        const rootRef = { current: root }
+        const hook = renderHook(
+            (props: Partial<UseCarouselAutoplayOptions>) => useCarouselAutoplay({
+                enabled: true,
+                rootRef,
+                canAdvance,
+                onAdvance,
+                interval: 1000,
+                ...props,
+            }),
+            { initialProps: overrides }
+        )
+        return { ...hook, onAdvance, canAdvance }
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        root = document.createElement('div')
+        document.body.appendChild(root)
+    })
+
+    afterEach(() => {
+        root.remove()
+        vi.useRealTimers()
+        vi.unstubAllGlobals()
+    })
+
+    it('advances forward after each interval', () => {
+        const { onAdvance, result } = setup()
+
+        expect(result.current.isPlaying).toBe(true)
+        act(() => { vi.advanceTimersByTime(999) })
+        expect(onAdvance).not.toHaveBeenCalled()
+
+        act(() => { vi.advanceTimersByTime(1) })
+        expect(onAdvance).toHaveBeenCalledWith(1)
+
+        act(() => { vi.advanceTimersByTime(1000) })
+        expect(onAdvance).toHaveBeenCalledTimes(2)
+    })
+
+    it('advances backward when direction is backward', () => {
+        const { onAdvance } = setup({ direction: 'backward' })
+
+        act(() => { vi.advanceTimersByTime(1000) })
+        expect(onAdvance).toHaveBeenCalledWith(-1)
+    })
+
+    it('does nothing when disabled', () => {
+        const { onAdvance, result } = setup({ enabled: false })
+
+        act(() => { vi.advanceTimersByTime(5000) })
+        expect(onAdvance).not.toHaveBeenCalled()
+        expect(result.current.isPlaying).toBe(false)
+    })
+
+    it('defers the tick while the carousel is busy', () => {
+        const { onAdvance, canAdvance } = setup()
+        canAdvance.mockReturnValue(false)
+
+        act(() => { vi.advanceTimersByTime(1000) })
+        expect(onAdvance).not.toHaveBeenCalled()
+
+        // Becomes IDLE: the retry fires shortly instead of waiting a full interval
+        canAdvance.mockReturnValue(true)
+        act(() => { vi.advanceTimersByTime(100) })
+        expect(onAdvance).toHaveBeenCalledTimes(1)
+    })
+
+    it('pauses on hover and resumes with the remaining time', () => {
+        const { onAdvance, result } = setup()
+
+        act(() => { vi.advanceTimersByTime(600) })
+        act(() => { root.dispatchEvent(new MouseEvent('mouseenter')) })
+        expect(result.current.isPlaying).toBe(false)
+        expect(result.current.pauseReasons).toContain('hover')
+
+        act(() => { vi.advanceTimersByTime(5000) })
+        expect(onAdvance).not.toHaveBeenCalled()
+
+        act(() => { root.dispatchEvent(new MouseEvent('mouseleave')) })
+        act(() => { vi.advanceTimersByTime(400) })
+        expect(onAdvance).toHaveBeenCalledTimes(1)
+    })
+
+    it('ignores hover when pauseOnHover is false', () => {
+        const { result } = setup({ pauseOnHover: false })
+
+        act(() => { root.dispatchEvent(new MouseEvent('mouseenter')) })
+        expect(result.current.isPlaying).toBe(true)
+    })
+
+    it('pauses while focus is inside the carousel', () => {
+        const button = document.createElement('button')
+        root.appendChild(button)
+        const { result } = setup()
+
+        act(() => { button.focus() })
+        expect(result.current.pauseReasons).toContain('focus')
+
+        act(() => { button.blur() })
+        expect(result.current.isPlaying).toBe(true)
+    })
+
+    it('pauses while the document is hidden', () => {
+        const { result } = setup()
+        const hidden = vi.spyOn(document, 'hidden', 'get').mockReturnValue(true)
+
+        act(() => { document.dispatchEvent(new Event('visibilitychange')) })
+        expect(result.current.pauseReasons).toContain('hidden')
+
+        hidden.mockReturnValue(false)
+        act(() => { document.dispatchEvent(new Event('visibilitychange')) })
+        expect(result.current.isPlaying).toBe(true)
+        hidden.mockRestore()
+    })
+
+    it('pauses while off-screen', () => {
+        let callback: IntersectionObserverCallback = () => { }
+        vi.stubGlobal('IntersectionObserver', class {
+            constructor(cb: IntersectionObserverCallback) { callback = cb }
+            observe() { }
+            disconnect() { }
+        })
+        const { result } = setup()
+
+        act(() => { callback([{ isIntersecting: false } as IntersectionObserverEntry], {} as IntersectionObserver) })
+        expect(result.current.pauseReasons).toContain('offscreen')
+
+        act(() => { callback([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver) })
+        expect(result.current.isPlaying).toBe(true)
+    })
+
+    it('does not autoplay when the user prefers reduced motion', () => {
+        vi.stubGlobal('matchMedia', vi.fn(() => ({
+            matches: true,
+            addEventListener: vi.fn(),
+            removeEventListener: vi.fn(),
+        })))
+        const { onAdvance, result } = setup()
+
+        expect(result.current.pauseReasons).toContain('reducedMotion')
+        act(() => { vi.advanceTimersByTime(5000) })
+        expect(onAdvance).not.toHaveBeenCalled()
+
+        // An explicit play() overrides the preference
+        act(() => { result.current.play() })
+        expect(result.current.isPlaying).toBe(true)
+    })
+
+    it('stops for good on interaction when stopOnInteraction is set', () => {
+        const { onAdvance, result } = setup({ stopOnInteraction: true })
+
+        act(() => { root.dispatchEvent(new Event('pointerdown')) })
+        expect(result.current.isStopped).toBe(true)
+
+        act(() => { vi.advanceTimersByTime(5000) })
+        expect(onAdvance).not.toHaveBeenCalled()
+
+        act(() => { result.current.play() })
+        act(() => { vi.advanceTimersByTime(1000) })
+        expect(onAdvance).toHaveBeenCalledTimes(1)
+    })
+
+    it('restarts the countdown on interaction otherwise', () => {
+        const { onAdvance } = setup()
+
+        act(() => { vi.advanceTimersByTime(800) })
+        act(() => { root.dispatchEvent(new Event('pointerdown')) })
+        act(() => { vi.advanceTimersByTime(800) })
+        expect(onAdvance).not.toHaveBeenCalled()
+    })
+
+    it('pause() and play() stop and resume', () => {
+        const { onAdvance, result } = setup()
+
+        act(() => { result.current.pause() })
+        expect(result.current.isPlaying).toBe(false)
+        act(() => { vi.advanceTimersByTime(5000) })
+        expect(onAdvance).not.toHaveBeenCalled()
+
+        act(() => { result.current.play() })
+        act(() => { vi.advanceTimersByTime(1000) })
+        expect(onAdvance).toHaveBeenCalledTimes(1)
+    })
+
+    it('reports progress towards the next advance', () => {
+        const { result } = setup()
+
+        expect(result.current.getProgress()).toBe(0)
+        act(() => { vi.advanceTimersByTime(250) })
+        expect(result.current.getProgress()).toBeCloseTo(0.25, 2)
+
+        act(() => { result.current.pause() })
+        act(() => { vi.advanceTimersByTime(1000) })
+        // Progress freezes while paused
+        expect(result.current.getProgress()).toBeCloseTo(0.25, 2)
+    })
+})
@@ -328,6 +328,40 @@ describe('useCarouselCoordinator reducer', () => {
         })
     })
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // GO_TO
+    // ═══════════════════════════════════════════════════════════════════════════
+    describe('GO_TO', () => {
+        it('IDLE → SCROLLING: sets target without direction', () => {
+            const context = createTestContext({ phase: 'IDLE' })
+            const action: CarouselAction = { type: 'GO_TO', targetScroll: 1200 }
+
+            const next = reduce(context, action)
+
+            expect(next.phase).toBe('SCROLLING')
+            expect(next.pendingTarget).toBe(1200)
+            expect(next.scrollDirection).toBeNull()
+        })
+
+        it('SCROLLING → SCROLLING: retargets an in-flight scroll', () => {
+            const context = createTestContext({ phase: 'SCROLLING', pendingTarget: 500, scrollDirection: 1 })
+
+            const next = reduce(context, { type: 'GO_TO', targetScroll: 900 })
+
+            expect(next.phase).toBe('SCROLLING')
+            expect(next.pendingTarget).toBe(900)
+            expect(next.scrollDirection).toBeNull()
+        })
+
+        it('blocked when in BOUNCING', () => {
+            const context = createTestContext({ phase: 'BOUNCING' })
+
+            const next = reduce(context, { type: 'GO_TO', targetScroll: 900 })
+
+            expect(next).toBe(context)
+        })
+    })
+
     // ═══════════════════════════════════════════════════════════════════════════
     // UTILITY ACTIONS
     // ═══════════════════════════════════════════════════════════════════════════
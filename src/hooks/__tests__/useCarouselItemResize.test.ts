@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { useCarouselItemResize } from '../useCarouselItemResize'
+
+// Mock ResizeObserver
+class MockResizeObserver {
+    callback: ResizeObserverCallback
+    observed: Element[] = []
+    disconnected = false
+    static instances: MockResizeObserver[] = []
+
+    constructor(callback: ResizeObserverCallback) {
+        this.callback = callback
+        MockResizeObserver.instances.push(this)
+    }
+
+    observe(target: Element) { this.observed.push(target) }
+    unobserve(target: Element) { this.observed = this.observed.filter(node => node !== target) }
+    disconnect() { this.disconnected = true }
+
+    trigger(count = 1) {
+        const entries = this.observed.slice(0, count).map(target => ({ target }))
+        this.callback(entries as ResizeObserverEntry[], this as unknown as ResizeObserver)
+    }
+
+    static reset() {
+        MockResizeObserver.instances = []
+    }
+}
+
+const createContainer = (childCount: number) => {
+    const container = document.createElement('div')
+    for (let i = 0; i < childCount; i++) container.appendChild(document.createElement('div'))
+    return { current: container }
+}
+
+describe('useCarouselItemResize', () => {
+    beforeEach(() => {
+        vi.useFakeTimers()
+        vi.stubGlobal('ResizeObserver', MockResizeObserver)
+        MockResizeObserver.reset()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+        vi.unstubAllGlobals()
+    })
+
+    it('observes every item when enabled', () => {
+        const containerRef = createContainer(4)
+        renderHook(() => useCarouselItemResize({ enabled: true, containerRef, slotCount: 4, onResize: vi.fn() }))
+
+        expect(MockResizeObserver.instances).toHaveLength(1)
+        expect(MockResizeObserver.instances[0].observed).toEqual(Array.from(containerRef.current.children))
+    })
+
+    it('attaches nothing when disabled', () => {
+        const containerRef = createContainer(4)
+        renderHook(() => useCarouselItemResize({ enabled: false, containerRef, slotCount: 4, onResize: vi.fn() }))
+
+        expect(MockResizeObserver.instances).toHaveLength(0)
+    })
+
+    it('batches resize notifications into one call per frame', () => {
+        const onResize = vi.fn()
+        const containerRef = createContainer(4)
+        renderHook(() => useCarouselItemResize({ enabled: true, containerRef, slotCount: 4, onResize }))
+
+        const observer = MockResizeObserver.instances[0]
+        observer.trigger(2)
+        observer.trigger(1)
+        expect(onResize).not.toHaveBeenCalled()
+
+        vi.advanceTimersToNextFrame()
+        expect(onResize).toHaveBeenCalledTimes(1)
+    })
+
+    it('re-observes the items when the slot count changes', () => {
+        const containerRef = createContainer(2)
+        const { rerender } = renderHook(
+            ({ slotCount }) => useCarouselItemResize({ enabled: true, containerRef, slotCount, onResize: vi.fn() }),
+            { initialProps: { slotCount: 2 } }
+        )
+
+        containerRef.current.appendChild(document.createElement('div'))
+        rerender({ slotCount: 3 })
+
+        expect(MockResizeObserver.instances[0].disconnected).toBe(true)
+        expect(MockResizeObserver.instances[1].observed).toHaveLength(3)
+    })
+
+    it('re-observes items replaced without a slot count change', async () => {
+        const containerRef = createContainer(2)
+        renderHook(() => useCarouselItemResize({ enabled: true, containerRef, slotCount: 2, onResize: vi.fn() }))
+
+        // e.g. a keyed re-render swapping the items
+        const replacement = document.createElement('div')
+        containerRef.current.replaceChild(replacement, containerRef.current.children[1])
+        await Promise.resolve()
+
+        const observer = MockResizeObserver.instances[0]
+        expect(MockResizeObserver.instances).toHaveLength(1)
+        expect(observer.observed).toEqual(Array.from(containerRef.current.children))
+        expect(observer.observed).toContain(replacement)
+    })
+})
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { useCarouselKeyboard, type UseCarouselKeyboardOptions } from '../useCarouselKeyboard'
+
+describe('useCarouselKeyboard', () => {
+    // 3 real items rendered twice (e.g. original set + one clone set): slots 0..5
+    const itemsCount = 3
+    let container: HTMLDivElement
+
+    const setup = (overrides: Partial<UseCarouselKeyboardOptions> = {}) => {
+        const onAction = vi.fn()
+        const onFocusItem = vi.fn()
+        const containerRef = { current: container }
+        const { result } = renderHook(() => useCarouselKeyboard({
+            containerRef,
+            itemsCount,
+            getPageSize: () => 2,
+            getRealIndex: (domIndex) => domIndex % itemsCount,
+            onAction,
+            onFocusItem,
+            ...overrides,
+        }))
+        return { result, onAction, onFocusItem }
+    }
+
+    const keyEvent = (key: string, init: Partial<React.KeyboardEvent<HTMLElement>> = {}) => ({
+        key,
+        target: container,
+        altKey: false,
+        ctrlKey: false,
+        metaKey: false,
+        preventDefault: vi.fn(),
+        ...init,
+    }) as unknown as React.KeyboardEvent<HTMLElement>
+
+    const slot = (index: number) => container.children[index] as HTMLElement
+
+    beforeEach(() => {
+        container = document.createElement('div')
+        for (let i = 0; i < itemsCount * 2; i++) {
+            const item = document.createElement('div')
+            item.tabIndex = -1
+            const button = document.createElement('button')
+            button.textContent = `Item ${i % itemsCount}`
+            item.appendChild(button)
+            container.appendChild(item)
+        }
+        document.body.appendChild(container)
+    })
+
+    afterEach(() => {
+        container.remove()
+        vi.useRealTimers()
+    })
+
+    describe('key mapping', () => {
+        it.each([
+            ['ArrowRight', { type: 'STEP', delta: 1 }],
+            ['ArrowLeft', { type: 'STEP', delta: -1 }],
+            ['PageDown', { type: 'STEP', delta: 2 }],
+            ['PageUp', { type: 'STEP', delta: -2 }],
+            ['Home', { type: 'GO_TO', index: 0 }],
+            ['End', { type: 'GO_TO', index: 2 }],
+        ])('maps %s and prevents native scrolling', (key, action) => {
+            const { result, onAction } = setup()
+            const event = keyEvent(key)
+
+            result.current.events.onKeyDown(event)
+
+            expect(onAction).toHaveBeenCalledWith(action)
+            expect(event.preventDefault).toHaveBeenCalled()
+        })
+
+        it('steps with ArrowDown/ArrowUp in vertical carousels', () => {
+            const { result, onAction } = setup({ orientation: 'vertical' })
+
+            result.current.events.onKeyDown(keyEvent('ArrowDown'))
+            result.current.events.onKeyDown(keyEvent('ArrowUp'))
+            result.current.events.onKeyDown(keyEvent('ArrowRight'))
+
+            expect(onAction.mock.calls).toEqual([
+                [{ type: 'STEP', delta: 1 }],
+                [{ type: 'STEP', delta: -1 }],
+            ])
+        })
+
+        it('mirrors ArrowLeft/ArrowRight in RTL', () => {
+            const { result, onAction } = setup({ direction: 'rtl' })
+
+            result.current.events.onKeyDown(keyEvent('ArrowLeft'))
+            result.current.events.onKeyDown(keyEvent('ArrowRight'))
+
+            expect(onAction.mock.calls).toEqual([
+                [{ type: 'STEP', delta: 1 }],
+                [{ type: 'STEP', delta: -1 }],
+            ])
+        })
+
+        it('ignores unrelated keys', () => {
+            const { result, onAction } = setup()
+            const event = keyEvent('Enter')
+
+            result.current.events.onKeyDown(event)
+
+            expect(onAction).not.toHaveBeenCalled()
+            expect(event.preventDefault).not.toHaveBeenCalled()
+        })
+
+        it('ignores keys with modifiers (browser shortcuts)', () => {
+            const { result, onAction } = setup()
+
+            result.current.events.onKeyDown(keyEvent('ArrowRight', { altKey: true }))
+            result.current.events.onKeyDown(keyEvent('Home', { metaKey: true }))
+
+            expect(onAction).not.toHaveBeenCalled()
+        })
+
+        it('ignores keys typed into editable elements', () => {
+            const { result, onAction } = setup()
+            const input = document.createElement('input')
+
+            result.current.events.onKeyDown(keyEvent('ArrowLeft', { target: input }))
+
+            expect(onAction).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('roving tabIndex', () => {
+        it('makes exactly one slot tabbable', () => {
+            const { result } = setup()
+
+            result.current.syncRovingFocus(1)
+            expect(slot(1).tabIndex).toBe(0)
+
+            result.current.syncRovingFocus(2)
+            expect(slot(1).tabIndex).toBe(-1)
+            expect(slot(2).tabIndex).toBe(0)
+            expect(result.current.getRovingIndex()).toBe(2)
+        })
+
+        it('moves focus to the new active slot when focus was on the previous one', () => {
+            const { result } = setup()
+            result.current.syncRovingFocus(1)
+            slot(1).focus()
+
+            result.current.syncRovingFocus(2)
+
+            expect(document.activeElement).toBe(slot(2))
+        })
+
+        it('keeps focus on the equivalent node when a clone is teleported', () => {
+            const { result } = setup()
+            result.current.syncRovingFocus(1)
+            const button = slot(1).querySelector('button')!
+            button.focus()
+
+            // Teleport: same real item, one set further
+            result.current.syncRovingFocus(1 + itemsCount)
+
+            expect(document.activeElement).toBe(slot(1 + itemsCount).querySelector('button'))
+        })
+
+        it('leaves focus in place when the new slot is an inert clone', () => {
+            const { result } = setup()
+            result.current.syncRovingFocus(1)
+            slot(1).focus()
+            slot(4).setAttribute('inert', '')
+
+            result.current.syncRovingFocus(4)
+
+            expect(document.activeElement).toBe(slot(1))
+        })
+
+        it('never steals focus from outside the carousel', () => {
+            const outside = document.createElement('button')
+            document.body.appendChild(outside)
+            const { result } = setup()
+            result.current.syncRovingFocus(0)
+            outside.focus()
+
+            result.current.syncRovingFocus(1)
+
+            expect(document.activeElement).toBe(outside)
+            outside.remove()
+        })
+    })
+
+    describe('focus follows selection', () => {
+        const focusEvent = (target: HTMLElement) => ({ target }) as unknown as React.FocusEvent<HTMLElement>
+
+        it('selects a slot that receives keyboard focus', () => {
+            const { result, onFocusItem } = setup()
+            result.current.syncRovingFocus(0)
+
+            result.current.events.onFocus(focusEvent(slot(2).querySelector('button')!))
+
+            expect(onFocusItem).toHaveBeenCalledWith(2)
+        })
+
+        it('ignores focus on the active slot', () => {
+            const { result, onFocusItem } = setup()
+            result.current.syncRovingFocus(0)
+
+            result.current.events.onFocus(focusEvent(slot(0)))
+
+            expect(onFocusItem).not.toHaveBeenCalled()
+        })
+
+        it('ignores focus caused by a pointer press', () => {
+            vi.useFakeTimers()
+            const { result, onFocusItem } = setup()
+            result.current.syncRovingFocus(0)
+
+            result.current.events.onPointerDownCapture()
+            result.current.events.onFocus(focusEvent(slot(2)))
+            expect(onFocusItem).not.toHaveBeenCalled()
+
+            vi.advanceTimersByTime(1000)
+            result.current.events.onFocus(focusEvent(slot(2)))
+            expect(onFocusItem).toHaveBeenCalledWith(2)
+        })
+    })
+})
@@ -80,6 +80,21 @@ describe('measureLayoutFromElement', () => {
         expect(result!.gap).toBe(LAYOUT_CONFIG.GAP_DESKTOP)
     })
 
+    it('measures along the vertical axis', () => {
+        const container = document.createElement('div')
+        const first = document.createElement('div')
+        const second = document.createElement('div')
+        first.getBoundingClientRect = () => ({ width: 500, height: 240 } as DOMRect)
+        Object.defineProperty(first, 'offsetTop', { value: 16 })
+        Object.defineProperty(second, 'offsetTop', { value: 280 })
+        container.append(first, second)
+
+        const result = measureLayoutFromElement(container, 'vertical')
+
+        expect(result!.cardWidth).toBe(240)
+        expect(result!.domStride).toBe(264)
+    })
+
     describe('when no children exist', () => {
         it('returns null to signal inability to measure', () => {
             const container = document.createElement('div') // No children
@@ -34,6 +34,11 @@ function createMockCoordinator(): UseCarouselCoordinatorReturn {
                     contextRef.current.pendingTarget = action.targetScroll
                     contextRef.current.scrollDirection = action.direction
                     break
+                case 'GO_TO':
+                    contextRef.current.phase = 'SCROLLING'
+                    contextRef.current.pendingTarget = action.targetScroll
+                    contextRef.current.scrollDirection = null
+                    break
                 case 'SCROLL_COMPLETE':
                     contextRef.current.phase = 'IDLE'
                     contextRef.current.pendingTarget = null
@@ -597,6 +602,285 @@ describe('useCarouselNavigation', () => {
         })
     })
 
+    describe('scrollToIndex (direct navigation)', () => {
+        it('should target index * stride for finite carousels via GO_TO', () => {
+            const container = createMockContainer({ scrollLeft: 0 })
+            const containerRef = { current: container }
+            const cancelMomentum = vi.fn()
+            const onNavigate = vi.fn()
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef,
+                    infinite: false,
+                    layout: defaultLayout,
+                    cancelMomentum,
+                    onNavigate,
+                    coordinator,
+                })
+            )
+
+            act(() => {
+                result.current.scrollToIndex(3)
+            })
+
+            expect(cancelMomentum).toHaveBeenCalled()
+            expect(coordinator.transition).toHaveBeenCalledWith({ type: 'GO_TO', targetScroll: 3 * stride })
+            expect(onNavigate).toHaveBeenCalledWith(3 * stride, 3)
+        })
+
+        it('should clamp finite targets to the scrollable range', () => {
+            const container = createMockContainer({ scrollLeft: 0, scrollWidth: 1000, clientWidth: 800 })
+            const containerRef = { current: container }
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef,
+                    infinite: false,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    coordinator,
+                })
+            )
+
+            act(() => {
+                result.current.scrollToIndex(5)
+            })
+
+            expect(coordinator.transition).toHaveBeenCalledWith({ type: 'GO_TO', targetScroll: 200 })
+        })
+
+        it('should route infinite targets through preTeleport', () => {
+            const container = createMockContainer({ scrollLeft: 2240 })
+            const containerRef = { current: container }
+            const preTeleport = vi.fn((target: number) => target + 1000)
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef,
+                    infinite: true,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    preTeleport,
+                    coordinator,
+                })
+            )
+
+            act(() => {
+                result.current.scrollToIndex(12)
+            })
+
+            expect(preTeleport).toHaveBeenCalledWith(12 * stride)
+            expect(coordinator.transition).toHaveBeenCalledWith({ type: 'GO_TO', targetScroll: 12 * stride + 1000 })
+        })
+
+        it('should jump instantly and settle back to IDLE when animate is false', () => {
+            const container = createMockContainer({ scrollLeft: 0 })
+            const containerRef = { current: container }
+            const preTeleport = vi.fn((target: number) => target)
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef,
+                    infinite: true,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    preTeleport,
+                    coordinator,
+                })
+            )
+
+            act(() => {
+                result.current.scrollToIndex(4, { animate: false })
+            })
+
+            expect(preTeleport).not.toHaveBeenCalled()
+            expect(mockScrollTo).toHaveBeenCalledWith({ left: 4 * stride, behavior: 'auto' })
+            expect(coordinator.transition).toHaveBeenLastCalledWith({ type: 'SCROLL_COMPLETE' })
+            expect(coordinator.getPhase()).toBe('IDLE')
+        })
+
+        it('should ignore navigation while bouncing', () => {
+            const container = createMockContainer({ scrollLeft: 0 })
+            const containerRef = { current: container }
+            const cancelMomentum = vi.fn()
+            const coordinator = createMockCoordinator()
+            coordinator.contextRef.current.phase = 'BOUNCING'
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef,
+                    infinite: false,
+                    layout: defaultLayout,
+                    cancelMomentum,
+                    coordinator,
+                })
+            )
+
+            act(() => {
+                result.current.scrollToIndex(2)
+            })
+
+            expect(cancelMomentum).not.toHaveBeenCalled()
+            expect(coordinator.transition).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('Slide groups', () => {
+        it('should advance slidesPerGroup items per click', () => {
+            const container = createMockContainer({ scrollLeft: 448 })
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef: { current: container },
+                    infinite: false,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    coordinator,
+                    slidesPerGroup: 3,
+                })
+            )
+
+            act(() => {
+                result.current.handleScrollNav(1)
+            })
+
+            // (2 + 3) * 224
+            expect(coordinator.transition).toHaveBeenCalledWith({ type: 'ARROW_CLICK', direction: 1, targetScroll: 1120 })
+        })
+
+        it('should land on the end of a finite list when a group overshoots it', () => {
+            // maxScroll = 2000 - 800 = 1200
+            const container = createMockContainer({ scrollLeft: 896 })
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef: { current: container },
+                    infinite: false,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    coordinator,
+                    slidesPerGroup: 3,
+                })
+            )
+
+            act(() => {
+                result.current.handleScrollNav(1)
+            })
+
+            expect(coordinator.transition).toHaveBeenCalledWith({ type: 'ARROW_CLICK', direction: 1, targetScroll: 1200 })
+        })
+    })
+
+    describe('Variable width (per-item positions)', () => {
+        // 100 / 400 / 100 / 400px items with 16px gaps: resting positions 0, 116, 532, 648
+        const positions = [
+            { start: 16, size: 100 },
+            { start: 132, size: 400 },
+            { start: 548, size: 100 },
+            { start: 664, size: 400 },
+        ]
+
+        it('should step to the next item position instead of one stride', () => {
+            const container = createMockContainer({ scrollLeft: 116 })
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef: { current: container },
+                    infinite: false,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    coordinator,
+                    getItemPositions: () => positions,
+                })
+            )
+
+            act(() => {
+                result.current.handleScrollNav(1)
+            })
+
+            expect(coordinator.transition).toHaveBeenCalledWith({ type: 'ARROW_CLICK', direction: 1, targetScroll: 532 })
+        })
+
+        it('should advance from the pending target on rapid clicks', () => {
+            const container = createMockContainer({ scrollLeft: 0 })
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef: { current: container },
+                    infinite: false,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    coordinator,
+                    getItemPositions: () => positions,
+                })
+            )
+
+            act(() => {
+                result.current.handleScrollNav(1)
+                result.current.handleScrollNav(1)
+            })
+
+            expect(mockScrollTo).toHaveBeenCalledWith({ left: 116, behavior: 'auto' })
+            expect(coordinator.getContext().pendingTarget).toBe(532)
+        })
+
+        it('should center items of infinite carousels in scrollToIndex', () => {
+            const container = createMockContainer({ scrollLeft: 0, clientWidth: 800 })
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef: { current: container },
+                    infinite: true,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    coordinator,
+                    getItemPositions: () => positions,
+                })
+            )
+
+            act(() => {
+                result.current.scrollToIndex(3)
+            })
+
+            // 664 + 200 - 400
+            expect(coordinator.transition).toHaveBeenCalledWith({ type: 'GO_TO', targetScroll: 464 })
+        })
+
+        it('should align item ends when end-aligned', () => {
+            const container = createMockContainer({ scrollLeft: 0 })
+            const coordinator = createMockCoordinator()
+
+            const { result } = renderHook(() =>
+                useCarouselNavigation({
+                    containerRef: { current: container },
+                    infinite: false,
+                    layout: defaultLayout,
+                    cancelMomentum: vi.fn(),
+                    coordinator,
+                    getItemPositions: () => positions,
+                    align: 'end',
+                })
+            )
+
+            act(() => {
+                result.current.handleScrollNav(1)
+            })
+
+            // Item 1 ends at 532, item 0 at 116
+            expect(coordinator.transition).toHaveBeenCalledWith({ type: 'ARROW_CLICK', direction: 1, targetScroll: 416 })
+        })
+    })
+
     describe('Edge cases', () => {
         it('should handle layout with cardWidth = 0 gracefully', () => {
             const container = createMockContainer({ scrollLeft: 0 })
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { renderHook, act } from '@testing-library/react'
+import { createElement, type ReactNode } from 'react'
 import { useCarouselPersistence } from '../useCarouselPersistence'
+import { createMemoryStorageAdapter } from '../../storage'
+import { CarouselStorageProvider } from '../../CarouselStorageProvider'
 import type { CarouselLoggerInstance } from '../../logger'
 describe('useCarouselPersistence', () => {
     beforeEach(() => {
@@ -172,6 +175,87 @@ describe('useCarouselPersistence', () => {
         })
     })
 
+    describe('Item anchors', () => {
+        it('should store the anchor item key and offset alongside the pixel position', () => {
+            const { result } = renderHook(() =>
+                useCarouselPersistence({ persistKey: 'anchor-test' })
+            )
+
+            act(() => {
+                result.current.savePositionImmediate(1960.4, { itemKey: 'product-10', offset: 0.12345 })
+            })
+
+            expect(result.current.getSavedEntry()).toEqual({ itemKey: 'product-10', offset: 0.123, scrollLeft: 1960 })
+            expect(result.current.getSavedPosition()).toBe(1960)
+        })
+
+        it('should read legacy pixel-only entries without an anchor', () => {
+            sessionStorage.setItem('carousel-scroll-legacy-test', '1234')
+
+            const { result } = renderHook(() =>
+                useCarouselPersistence({ persistKey: 'legacy-test' })
+            )
+
+            expect(result.current.getSavedEntry()).toEqual({ scrollLeft: 1234 })
+        })
+
+        it('should return null for malformed JSON entries', () => {
+            sessionStorage.setItem('carousel-scroll-broken-test', '{"itemKey":')
+
+            const { result } = renderHook(() =>
+                useCarouselPersistence({ persistKey: 'broken-test' })
+            )
+
+            expect(result.current.getSavedEntry()).toBeNull()
+        })
+    })
+
+    describe('Storage adapters', () => {
+        it('should use the storage option instead of sessionStorage', () => {
+            const storage = createMemoryStorageAdapter()
+            const { result } = renderHook(() =>
+                useCarouselPersistence({ persistKey: 'adapter-test', storage })
+            )
+
+            act(() => {
+                result.current.savePositionImmediate(500)
+            })
+
+            expect(storage.getItem('carousel-scroll-adapter-test')).toBe('500')
+            expect(sessionStorage.getItem('carousel-scroll-adapter-test')).toBeNull()
+        })
+
+        it('should keep the callbacks stable when an inline adapter is recreated on render', () => {
+            const storage = createMemoryStorageAdapter()
+            const { result, rerender } = renderHook(() =>
+                useCarouselPersistence({ persistKey: 'inline-test', storage: { ...storage } })
+            )
+            const { getSavedEntry, savePosition } = result.current
+
+            rerender()
+
+            expect(result.current.getSavedEntry).toBe(getSavedEntry)
+            expect(result.current.savePosition).toBe(savePosition)
+            act(() => {
+                result.current.savePositionImmediate(300)
+            })
+            expect(storage.getItem('carousel-scroll-inline-test')).toBe('300')
+        })
+
+        it('should use the CarouselStorageProvider storage when no option is given', () => {
+            const storage = createMemoryStorageAdapter()
+            storage.setItem('carousel-scroll-provider-test', '700')
+            const wrapper = ({ children }: { children: ReactNode }) =>
+                createElement(CarouselStorageProvider, { storage }, children)
+
+            const { result } = renderHook(() =>
+                useCarouselPersistence({ persistKey: 'provider-test' }), { wrapper }
+            )
+
+            expect(result.current.getSavedPosition()).toBe(700)
+        })
+    })
+
     describe('Edge cases', () => {
         it('should handle NaN scrollLeft gracefully', () => {
             const { result } = renderHook(() =>
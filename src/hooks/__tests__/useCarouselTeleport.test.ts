@@ -351,9 +351,13 @@ describe('useCarouselTeleport', () => {
             // Calculated stride = 220 + 12 = 232
             // DOM stride = 236 (4px difference per item = 40px drift per 10-item cycle)
             const mockChildren = [
-                { offsetLeft: 54 },   // paddingOffset
-                { offsetLeft: 290 },  // 54 + 236 = 290
-            ]
+                54,   // paddingOffset
+                290,  // 54 + 236 = 290
+            ].map((offsetLeft) => {
+                const child = document.createElement('div')
+                Object.defineProperty(child, 'offsetLeft', { value: offsetLeft })
+                return child
+            })
             Object.defineProperty(options.containerRef.current, 'children', {
                 value: mockChildren,
                 configurable: true
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useCarouselUrlSync, type UseCarouselUrlSyncOptions } from '../useCarouselUrlSync'
+
+describe('useCarouselUrlSync', () => {
+    const setup = (overrides: Partial<UseCarouselUrlSyncOptions> = {}) => {
+        const onNavigateToKey = vi.fn()
+        const { result } = renderHook(() => useCarouselUrlSync({
+            enabled: true,
+            throttleMs: 300,
+            onNavigateToKey,
+            ...overrides,
+        }))
+        return { result, onNavigateToKey }
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        window.history.replaceState(null, '', '/gallery')
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+        window.history.replaceState(null, '', '/')
+    })
+
+    it('reads the key from the query string', () => {
+        window.history.replaceState(null, '', '/gallery?slide=photo-42&page=2')
+        const { result } = setup()
+
+        expect(result.current.readKey()).toBe('photo-42')
+    })
+
+    it('reads the key from the hash in hash mode', () => {
+        window.history.replaceState(null, '', '/gallery#slide=photo-7')
+        const { result } = setup({ mode: 'hash' })
+
+        expect(result.current.readKey()).toBe('photo-7')
+    })
+
+    it('never reads or writes when disabled', () => {
+        window.history.replaceState(null, '', '/gallery?slide=photo-42')
+        const { result } = setup({ enabled: false })
+
+        result.current.writeKey('photo-1')
+
+        expect(result.current.readKey()).toBeNull()
+        expect(window.location.search).toBe('?slide=photo-42')
+    })
+
+    it('replaces the history entry instead of pushing', () => {
+        const pushState = vi.spyOn(window.history, 'pushState')
+        const { result } = setup({ param: 'item' })
+
+        result.current.writeKey('photo-3')
+
+        expect(window.location.search).toBe('?item=photo-3')
+        expect(pushState).not.toHaveBeenCalled()
+    })
+
+    it('writes the hash in hash mode, keeping the query string', () => {
+        window.history.replaceState(null, '', '/gallery?page=2')
+        const { result } = setup({ mode: 'hash' })
+
+        result.current.writeKey('photo-3')
+
+        expect(window.location.search).toBe('?page=2')
+        expect(window.location.hash).toBe('#slide=photo-3')
+    })
+
+    it('throttles writes and always lands the latest key', () => {
+        const replaceState = vi.spyOn(window.history, 'replaceState')
+        const { result } = setup()
+
+        result.current.writeKey('a')
+        result.current.writeKey('b')
+        result.current.writeKey('c')
+        expect(replaceState).toHaveBeenCalledTimes(1)
+        expect(window.location.search).toBe('?slide=a')
+
+        act(() => {
+            vi.advanceTimersByTime(300)
+        })
+
+        expect(replaceState).toHaveBeenCalledTimes(2)
+        expect(window.location.search).toBe('?slide=c')
+    })
+
+    it('reports back/forward navigation and drops pending writes', () => {
+        const { result, onNavigateToKey } = setup()
+        result.current.writeKey('a')
+        result.current.writeKey('b') // pending trailing write
+
+        window.history.replaceState(null, '', '/gallery?slide=photo-9')
+        act(() => {
+            window.dispatchEvent(new PopStateEvent('popstate'))
+            vi.advanceTimersByTime(300)
+        })
+
+        expect(onNavigateToKey).toHaveBeenCalledWith('photo-9')
+        expect(window.location.search).toBe('?slide=photo-9')
+    })
+})
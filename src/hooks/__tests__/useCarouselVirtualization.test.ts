@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useCarouselVirtualization, type UseCarouselVirtualizationOptions } from '../useCarouselVirtualization'
+
+describe('useCarouselVirtualization', () => {
+    // 100px stride, 300px viewport → 3 visible items, radius = 3 + overscan(2) = 5
+    const stride = 100
+    let container: HTMLDivElement
+
+    const setup = (overrides: Partial<UseCarouselVirtualizationOptions> = {}) => {
+        const containerRef = { current: container }
+        return renderHook(() => useCarouselVirtualization({
+            enabled: true,
+            containerRef,
+            slotCount: 20,
+            bufferBeforeCount: 0,
+            stride,
+            overscan: 2,
+            ...overrides,
+        }))
+    }
+
+    const scrollTo = (left: number) => {
+        container.scrollLeft = left
+        act(() => { container.dispatchEvent(new Event('scroll')) })
+    }
+
+    beforeEach(() => {
+        container = document.createElement('div')
+        Object.defineProperty(container, 'clientWidth', { value: 300, configurable: true })
+    })
+
+    it('mounts every slot when disabled', () => {
+        const { result } = setup({ enabled: false })
+        expect(result.current).toEqual({ start: 0, end: 20 })
+    })
+
+    it('mounts only the viewport plus overscan', () => {
+        const { result } = setup()
+        // Scroll 0 → slot 0 → slots 0..5
+        expect(result.current).toEqual({ start: 0, end: 6 })
+    })
+
+    it('re-centers the window once the viewport drifts past half the overscan', () => {
+        const { result } = setup()
+
+        scrollTo(100) // slot 1: drift of 1 stays within half the overscan
+        expect(result.current).toEqual({ start: 0, end: 6 })
+
+        scrollTo(1000) // slot 10
+        expect(result.current).toEqual({ start: 5, end: 16 })
+    })
+
+    it('clamps the window to the slots', () => {
+        const { result } = setup()
+
+        scrollTo(1900)
+        expect(result.current).toEqual({ start: 14, end: 20 })
+    })
+
+    it('starts centered on the initial item after the clone buffer', () => {
+        Object.defineProperty(container, 'clientWidth', { value: 0, configurable: true })
+        const { result } = setup({ slotCount: 300, bufferBeforeCount: 100, initialIndex: 5 })
+
+        expect(result.current.start).toBeLessThanOrEqual(105)
+        expect(result.current.end).toBeGreaterThan(105)
+        expect(result.current.end - result.current.start).toBeLessThan(300)
+    })
+
+    it('follows a teleport jump of a whole item set', () => {
+        // 10 real items with one clone set on each side: slots 0..29, originals at 10..19
+        const { result } = setup({ slotCount: 30, bufferBeforeCount: 10 })
+
+        scrollTo(25 * stride)
+        expect(result.current).toEqual({ start: 20, end: 30 })
+
+        scrollTo(15 * stride) // teleported back by one set
+        expect(result.current).toEqual({ start: 10, end: 21 })
+    })
+})
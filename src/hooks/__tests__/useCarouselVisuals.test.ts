@@ -96,12 +96,12 @@ describe('useCarouselVisuals', () => {
 
             expect(result.current.childrenPositions.current).toHaveLength(5)
             expect(result.current.childrenPositions.current[0]).toEqual({
-                left: 0,
-                width: 150
+                start: 0,
+                size: 150
             })
             expect(result.current.childrenPositions.current[1]).toEqual({
-                left: 166, // 150 + 16 gap
-                width: 150
+                start: 166, // 150 + 16 gap
+                size: 150
             })
         })
     })
@@ -260,6 +260,37 @@ describe('useCarouselVisuals', () => {
             expect(children[7].style.transform).toBe('') // left=1162, outside
             expect(children[9].style.transform).toBe('') // left=1494, outside
         })
+
+        it('should cull from cached positions when variableWidth is set', () => {
+            // Alternating 60px / 400px items: the stride of the first item (76px) is useless here
+            const container = document.createElement('div')
+            Object.defineProperty(container, 'clientWidth', { value: 800, configurable: true })
+            const children: HTMLElement[] = []
+            let left = 0
+            for (let i = 0; i < 30; i++) {
+                const width = i % 2 === 0 ? 60 : 400
+                const child = document.createElement('div')
+                Object.defineProperty(child, 'offsetLeft', { value: left, configurable: true })
+                Object.defineProperty(child, 'offsetWidth', { value: width, configurable: true })
+                left += width + 16
+                children.push(child)
+                container.appendChild(child)
+            }
+
+            const options = createDefaultOptions({ layout: { cardWidth: 60, gap: 16 }, itemsCount: 30, variableWidth: true })
+            const { result } = renderHook(() => useCarouselVisuals(options))
+
+            // Item 20 starts at 10 * 76 + 10 * 416 = 4920
+            act(() => {
+                result.current.updateCache(container)
+                result.current.applyVisuals(container, 4920)
+            })
+
+            expect(children[20].style.transform).not.toBe('')
+            expect(children[21].style.transform).not.toBe('')
+            expect(children[10].style.transform).toBe('')
+            expect(children[29].style.transform).toBe('')
+        })
     })
 
     describe('Cache invalidation', () => {
@@ -513,7 +544,130 @@ describe('useCarouselVisuals', () => {
             expect(children[2].style.transform).not.toBe('')
         })
     })
-})
 
+    describe('Custom effects', () => {
+        it('replaces the default effect and passes progress in items from the resting position', () => {
+            const { container, children } = createMockContainer(10, 150)
+            const effect = vi.fn()
+            const { result } = renderHook(() => useCarouselVisuals(createDefaultOptions({ effects: [effect] })))
+
+            act(() => {
+                result.current.updateCache(container)
+                // Item 2 (start 332, center 407) is centered at scroll 7
+                result.current.applyVisuals(container, 7)
+            })
+
+            const calls = new Map(effect.mock.calls.map(([progress, el]) => [el, progress]))
+            expect(calls.get(children[2])).toBeCloseTo(0)
+            expect(calls.get(children[3])).toBeCloseTo(1)
+            expect(calls.get(children[1])).toBeCloseTo(-1)
+            // The default scale/opacity effect does not run
+            expect(children[2].style.transform).toBe('')
+        })
 
+        it('measures progress from the aligned edge for start alignment', () => {
+            const { container, children } = createMockContainer(10, 150)
+            const effect = vi.fn()
+            const { result } = renderHook(() => useCarouselVisuals(createDefaultOptions({
+                effects: [effect],
+                align: 'start',
+                edgeInset: 0,
+            })))
+
+            act(() => {
+                result.current.updateCache(container)
+                result.current.applyVisuals(container, 166 * 2)
+            })
+
+            const calls = new Map(effect.mock.calls.map(([progress, el]) => [el, progress]))
+            expect(calls.get(children[2])).toBeCloseTo(0)
+            expect(calls.get(children[4])).toBeCloseTo(2)
+        })
+
+        it('only runs effects for items inside the culled range', () => {
+            const { container, children } = createMockContainer(30, 150)
+            const effect = vi.fn()
+            const { result } = renderHook(() => useCarouselVisuals(createDefaultOptions({ itemsCount: 30, effects: [effect] })))
+
+            act(() => {
+                result.current.updateCache(container)
+                result.current.applyVisuals(container, 0)
+            })
+
+            const touched = effect.mock.calls.map(([, el]) => el)
+            expect(touched).toContain(children[0])
+            expect(touched).not.toContain(children[29])
+        })
+
+        it('runs custom effects even when both default effects are disabled', () => {
+            const { container } = createMockContainer(4, 150)
+            const effect = vi.fn()
+            const { result } = renderHook(() => useCarouselVisuals(createDefaultOptions({
+                itemsCount: 4,
+                disableOpacityEffect: true,
+                disableScaleEffect: true,
+                effects: [effect],
+            })))
 
+            act(() => {
+                result.current.updateCache(container)
+                result.current.applyVisuals(container, 0)
+            })
+
+            expect(effect).toHaveBeenCalled()
+            expect(effect.mock.calls[0][2]).toMatchObject({ viewportSize: 800, orientation: 'horizontal', direction: 'ltr' })
+        })
+    })
+
+    describe('CSS progress', () => {
+        it('writes clamped progress, distance and active flag onto visible items', () => {
+            const { container, children } = createMockContainer(10, 150)
+            const { result } = renderHook(() => useCarouselVisuals(createDefaultOptions({ cssProgress: true })))
+
+            act(() => {
+                result.current.updateCache(container)
+                // Item 2 is centered at scroll 7
+                result.current.applyVisuals(container, 7)
+            })
+
+            expect(children[2].style.getPropertyValue('--carousel-progress')).toBe('0.000')
+            expect(children[2].style.getPropertyValue('--carousel-is-active')).toBe('1')
+            expect(children[3].style.getPropertyValue('--carousel-progress')).toBe('1.000')
+            expect(children[3].style.getPropertyValue('--carousel-is-active')).toBe('0')
+            expect(children[0].style.getPropertyValue('--carousel-progress')).toBe('-1.000')
+            expect(children[0].style.getPropertyValue('--carousel-distance')).toBe('2.000')
+            // Default effects still run alongside
+            expect(children[2].style.transform).toBe('scale(1)')
+        })
+
+        it('writes progress even when both default effects are disabled', () => {
+            const { container, children } = createMockContainer(4, 150)
+            const { result } = renderHook(() => useCarouselVisuals(createDefaultOptions({
+                itemsCount: 4,
+                disableOpacityEffect: true,
+                disableScaleEffect: true,
+                cssProgress: true,
+            })))
+
+            act(() => {
+                result.current.updateCache(container)
+                result.current.applyVisuals(container, 7)
+            })
+
+            expect(children[2].style.getPropertyValue('--carousel-is-active')).toBe('1')
+            expect(children[2].style.transform).toBe('')
+        })
+
+        it('writes nothing when disabled', () => {
+            const { container, children } = createMockContainer(4, 150)
+            const { result } = renderHook(() => useCarouselVisuals(createDefaultOptions({ itemsCount: 4 })))
+
+            act(() => {
+                result.current.updateCache(container)
+                result.current.applyVisuals(container, 7)
+            })
+
+            expect(children[2].style.getPropertyValue('--carousel-progress')).toBe('')
+        })
+    })
+})
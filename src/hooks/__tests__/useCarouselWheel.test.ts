@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useCarouselWheel, type UseCarouselWheelOptions } from '../useCarouselWheel'
+import { TIMING_CONFIG } from '../../config'
+
+const createContainer = () => {
+    const container = document.createElement('div')
+    Object.defineProperty(container, 'scrollLeft', { value: 0, writable: true })
+    Object.defineProperty(container, 'clientWidth', { value: 500 })
+    return { current: container }
+}
+
+const wheel = (init: WheelEventInit) => new WheelEvent('wheel', { cancelable: true, ...init })
+
+describe('useCarouselWheel', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] })
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    const setup = (overrides: Partial<UseCarouselWheelOptions> = {}) => {
+        const containerRef = createContainer()
+        const options = {
+            containerRef,
+            enabled: true,
+            canStep: vi.fn(() => true),
+            onStep: vi.fn(),
+            onInterrupt: vi.fn(),
+            ...overrides,
+        }
+        const { result } = renderHook(() => useCarouselWheel(options))
+        const dispatch = (init: WheelEventInit) => {
+            const event = wheel(init)
+            act(() => {
+                containerRef.current.dispatchEvent(event)
+            })
+            return event
+        }
+        return { ...options, el: containerRef.current, result, dispatch }
+    }
+
+    const endStream = () => act(() => {
+        vi.advanceTimersByTime(TIMING_CONFIG.WHEEL_STREAM_GAP_MS + 1)
+    })
+
+    it('advances exactly one slide per wheel notch', () => {
+        const { dispatch, onStep, result } = setup()
+
+        const first = dispatch({ deltaX: 100 })
+        dispatch({ deltaX: 100 })
+        dispatch({ deltaX: -100 })
+
+        expect(onStep.mock.calls).toEqual([[1], [1], [-1]])
+        expect(first.defaultPrevented).toBe(true)
+        expect(result.current.getInputType()).toBe('notch')
+    })
+
+    it('treats line-mode deltas as notches', () => {
+        const { dispatch, onStep } = setup()
+
+        dispatch({ deltaX: 3, deltaMode: WheelEvent.DOM_DELTA_LINE })
+
+        expect(onStep).toHaveBeenCalledWith(1)
+    })
+
+    it('mirrors horizontal notches in RTL', () => {
+        const { dispatch, onStep } = setup({ direction: 'rtl' })
+
+        dispatch({ deltaX: 100 })
+
+        expect(onStep).toHaveBeenCalledWith(-1)
+    })
+
+    it('maps vertical notches onto horizontal carousels unless disabled', () => {
+        const mapped = setup()
+        mapped.dispatch({ deltaY: 100 })
+        expect(mapped.onStep).toHaveBeenCalledWith(1)
+
+        const unmapped = setup({ mapVertical: false })
+        const event = unmapped.dispatch({ deltaY: 100 })
+        expect(unmapped.onStep).not.toHaveBeenCalled()
+        expect(event.defaultPrevented).toBe(false)
+    })
+
+    it('steps vertical carousels with vertical notches only', () => {
+        const { dispatch, onStep } = setup({ orientation: 'vertical' })
+
+        dispatch({ deltaX: 100 })
+        dispatch({ deltaY: -120 })
+
+        expect(onStep.mock.calls).toEqual([[-1]])
+    })
+
+    it('swallows notches while the carousel cannot step', () => {
+        const { dispatch, onStep } = setup({ canStep: () => false })
+
+        const event = dispatch({ deltaX: 100 })
+
+        expect(onStep).not.toHaveBeenCalled()
+        expect(event.defaultPrevented).toBe(true)
+    })
+
+    it('lets trackpad streams scroll natively with snap suspended until the stream ends', () => {
+        const { dispatch, onStep, onInterrupt, el, result } = setup()
+
+        const first = dispatch({ deltaX: 2.5 })
+        // A fast swipe later in the stream stays a trackpad gesture
+        dispatch({ deltaX: 120 })
+        dispatch({ deltaX: 0.5 })
+
+        expect(onStep).not.toHaveBeenCalled()
+        expect(onInterrupt).toHaveBeenCalledTimes(1)
+        expect(first.defaultPrevented).toBe(false)
+        expect(el.style.scrollSnapType).toBe('none')
+        expect(result.current.getInputType()).toBe('trackpad')
+
+        endStream()
+        expect(el.style.scrollSnapType).toBe('')
+        expect(result.current.getInputType()).toBeNull()
+
+        // The next gesture is classified afresh
+        dispatch({ deltaX: 100 })
+        expect(onStep).toHaveBeenCalledWith(1)
+    })
+
+    it('scrolls horizontal carousels by mapped vertical trackpad movement', () => {
+        const { dispatch, el } = setup()
+
+        const event = dispatch({ deltaY: 12.5 })
+        dispatch({ deltaY: 20 })
+
+        expect(event.defaultPrevented).toBe(true)
+        expect(el.scrollLeft).toBe(32.5)
+    })
+
+    it('scrolls instead of stepping when stepPerNotch is off', () => {
+        const { dispatch, onStep, el } = setup({ stepPerNotch: false })
+
+        dispatch({ deltaY: 100 })
+
+        expect(onStep).not.toHaveBeenCalled()
+        expect(el.scrollLeft).toBe(100)
+    })
+
+    it('ignores pinch-zoom gestures', () => {
+        const { dispatch, onStep, onInterrupt } = setup()
+
+        dispatch({ deltaY: 100, ctrlKey: true })
+
+        expect(onStep).not.toHaveBeenCalled()
+        expect(onInterrupt).not.toHaveBeenCalled()
+    })
+
+    it('only interrupts programmatic scrolls when disabled', () => {
+        const { dispatch, onStep, onInterrupt, el } = setup({ enabled: false })
+
+        const event = dispatch({ deltaX: 100 })
+        dispatch({ deltaY: 3 })
+
+        expect(onInterrupt).toHaveBeenCalledTimes(2)
+        expect(onStep).not.toHaveBeenCalled()
+        expect(event.defaultPrevented).toBe(false)
+        expect(el.style.scrollSnapType).toBe('')
+    })
+})
@@ -1,6 +1,6 @@
 import { renderHook, act } from '@testing-library/react'
-import { describe, it, expect, vi } from 'vitest'
-import { useDraggableScroll } from '../useDraggableScroll'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { useDraggableScroll, resolvePhysics, PHYSICS_PRESETS, type CarouselFreeModeOptions, type CarouselPhysicsOptions } from '../useDraggableScroll'
 
 describe('useDraggableScroll Logic', () => {
     it('initializes with default state', () => {
@@ -185,4 +185,463 @@ describe('useDraggableScroll Logic', () => {
         // Since we can't easily advance rAF loops in this environment without complex setup, 
         // we mainly cared about the Pull transform application above.
     })
+
+    it('does not pull past the start edge while a previous page can load', () => {
+        const { result } = renderHook(() => useDraggableScroll({ infinite: false, hasPreviousPage: true }))
+        const { events } = result.current
+
+        const mockDiv = document.createElement('div')
+        Object.defineProperty(mockDiv, 'scrollLeft', { value: 10, writable: true })
+        Object.defineProperty(mockDiv, 'scrollWidth', { value: 1000 })
+        Object.defineProperty(mockDiv, 'clientWidth', { value: 300 })
+        // @ts-ignore
+        mockDiv.setPointerCapture = vi.fn()
+        // @ts-ignore
+        mockDiv.releasePointerCapture = vi.fn()
+        // @ts-ignore
+        result.current.ref.current = mockDiv
+
+        act(() => {
+            events.onPointerDown({ pageX: 100, pointerType: 'mouse', preventDefault: vi.fn() } as any)
+        })
+        act(() => {
+            events.onPointerMove({ pageX: 150, preventDefault: vi.fn(), pointerId: 1 } as any)
+        })
+
+        expect(mockDiv.style.transform).toBe('')
+    })
+
+    it('calls onStartReached near the start edge', () => {
+        const mockDiv = document.createElement('div')
+        Object.defineProperty(mockDiv, 'scrollLeft', { value: 100, writable: true })
+        Object.defineProperty(mockDiv, 'scrollWidth', { value: 5000 })
+        Object.defineProperty(mockDiv, 'clientWidth', { value: 300 })
+
+        const { result, rerender } = renderHook(
+            ({ onStartReached }: { onStartReached?: () => void }) => useDraggableScroll({ hasPreviousPage: true, onStartReached }),
+            { initialProps: {} }
+        )
+        // @ts-ignore
+        result.current.ref.current = mockDiv
+
+        // Attach the scroll listener now that the element exists (runs the initial check).
+        // The first call is not throttled, however soon after page load it comes.
+        const onStartReached = vi.fn()
+        rerender({ onStartReached })
+        expect(onStartReached).toHaveBeenCalledTimes(1)
+
+        // Throttled: further scrolls within a second do not fire again
+        act(() => {
+            mockDiv.dispatchEvent(new Event('scroll'))
+        })
+        expect(onStartReached).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the scroll listener attached when the reached callbacks change identity', () => {
+        vi.useFakeTimers({ toFake: ['performance'] })
+        const mockDiv = document.createElement('div')
+        Object.defineProperty(mockDiv, 'scrollLeft', { value: 100, writable: true })
+        Object.defineProperty(mockDiv, 'scrollWidth', { value: 5000 })
+        Object.defineProperty(mockDiv, 'clientWidth', { value: 300 })
+
+        const { result, rerender } = renderHook(
+            ({ onStartReached }: { onStartReached?: () => void }) => useDraggableScroll({ hasPreviousPage: true, onStartReached }),
+            { initialProps: {} }
+        )
+        // @ts-ignore
+        result.current.ref.current = mockDiv
+        const first = vi.fn()
+        rerender({ onStartReached: first })
+        expect(first).toHaveBeenCalledTimes(1)
+
+        // New callbacks on every parent render must not re-run the initial check
+        vi.advanceTimersByTime(2000)
+        const latest = vi.fn()
+        rerender({ onStartReached: vi.fn() })
+        rerender({ onStartReached: latest })
+        expect(latest).not.toHaveBeenCalled()
+
+        // ...but scrolls reach the latest callback
+        act(() => {
+            mockDiv.dispatchEvent(new Event('scroll'))
+        })
+        expect(latest).toHaveBeenCalledTimes(1)
+        vi.useRealTimers()
+    })
+})
+
+describe('useDraggableScroll physics', () => {
+    it('resolves preset names and overrides on top of a preset', () => {
+        expect(resolvePhysics()).toEqual(PHYSICS_PRESETS.default)
+        expect(resolvePhysics('heavy')).toEqual(PHYSICS_PRESETS.heavy)
+        expect(resolvePhysics({ preset: 'ios', friction: 0.9 })).toEqual({ ...PHYSICS_PRESETS.ios, friction: 0.9 })
+        expect(resolvePhysics({ snapDuration: 100 })).toEqual({ ...PHYSICS_PRESETS.default, snapDuration: 100 })
+    })
+
+    it('keeps preset values for undefined overrides and falls back for unknown presets', () => {
+        expect(resolvePhysics({ preset: 'android', friction: undefined })).toEqual(PHYSICS_PRESETS.android)
+        expect(resolvePhysics('bouncy' as CarouselPhysicsOptions)).toEqual(PHYSICS_PRESETS.default)
+    })
+
+    const pullPastStart = (physics?: CarouselPhysicsOptions) => {
+        const { result } = renderHook(() => useDraggableScroll({ infinite: false, physics }))
+        const mockDiv = document.createElement('div')
+        Object.defineProperty(mockDiv, 'scrollLeft', { value: 10, writable: true })
+        Object.defineProperty(mockDiv, 'scrollWidth', { value: 1000 })
+        Object.defineProperty(mockDiv, 'clientWidth', { value: 300 })
+        // @ts-ignore
+        result.current.ref.current = mockDiv
+
+        act(() => {
+            result.current.events.onPointerDown({ pageX: 100, pointerType: 'mouse', preventDefault: vi.fn() } as any)
+        })
+        // Far enough that the pull saturates at maxPullDistance
+        act(() => {
+            result.current.events.onPointerMove({ pageX: 600, preventDefault: vi.fn(), pointerId: 1 } as any)
+        })
+        return mockDiv.style.transform
+    }
+
+    it('caps edge pulls at the profile max pull distance', () => {
+        expect(pullPastStart()).toBe('translateX(80px)')
+        expect(pullPastStart('heavy')).toBe(`translateX(${PHYSICS_PRESETS.heavy.maxPullDistance}px)`)
+        expect(pullPastStart({ maxPullDistance: 25 })).toBe('translateX(25px)')
+    })
+})
+
+// 20 items of 100px in a 300px viewport: settled (centered) positions are multiples of 100
+const createTrack = () => {
+    const track = document.createElement('div')
+    Object.defineProperty(track, 'scrollLeft', { value: 500, writable: true })
+    Object.defineProperty(track, 'scrollWidth', { value: 2000 })
+    Object.defineProperty(track, 'clientWidth', { value: 300 })
+    // @ts-ignore
+    track.setPointerCapture = vi.fn()
+    // @ts-ignore
+    track.releasePointerCapture = vi.fn()
+    for (let i = 0; i < 20; i++) {
+        const item = document.createElement('div')
+        Object.defineProperty(item, 'offsetLeft', { value: i * 100 })
+        Object.defineProperty(item, 'offsetWidth', { value: 100 })
+        track.appendChild(item)
+    }
+    return track
+}
+
+const useFakeFrames = () => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame', 'performance', 'setTimeout', 'clearTimeout'] })
+}
+
+/** Drags 80px toward the end over two frames, optionally pauses, releases and lets it settle */
+const flick = (options: Parameters<typeof useDraggableScroll>[0] = {}, pauseBeforeRelease = 0) => {
+    useFakeFrames()
+    const track = createTrack()
+    const { result } = renderHook(() => useDraggableScroll({ ...options, physics: { velocitySmoothing: 1 } }))
+    // @ts-ignore
+    result.current.ref.current = track
+
+    act(() => {
+        result.current.events.onPointerDown({ pageX: 500, pointerType: 'mouse', preventDefault: vi.fn() } as any)
+    })
+    for (const pageX of [460, 420]) {
+        act(() => {
+            vi.advanceTimersByTime(16)
+            result.current.events.onPointerMove({ pageX, preventDefault: vi.fn(), pointerId: 1 } as any)
+        })
+    }
+    act(() => {
+        vi.advanceTimersByTime(pauseBeforeRelease)
+        result.current.events.onPointerUp({} as any)
+    })
+    act(() => {
+        vi.advanceTimersByTime(5000)
+    })
+    return track
+}
+
+const touchEvent = (type: string, pageX?: number, pageY = 0) => {
+    const event = new Event(type)
+    Object.defineProperty(event, 'touches', { value: pageX === undefined ? [] : [{ pageX, pageY }] })
+    return event
+}
+
+describe('useDraggableScroll free mode', () => {
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('settles onto an item after momentum by default', () => {
+        const track = flick()
+
+        expect(track.scrollLeft).toBeGreaterThan(580)
+        expect(track.scrollLeft % 100).toBe(0)
+    })
+
+    it('lets momentum decay naturally and stop anywhere', () => {
+        const settled = flick().scrollLeft
+        const track = flick({ freeMode: true })
+
+        expect(track.scrollLeft).toBeGreaterThan(settled + 300)
+        expect(track.scrollLeft % 100).not.toBe(0)
+        expect(track.style.scrollSnapType).toBe('')
+    })
+
+    it('stays in place after a slow release', () => {
+        const track = flick({ freeMode: true }, 200)
+
+        expect(track.scrollLeft).toBe(580)
+    })
+
+    it('sticky free mode glides and then settles once slower than the threshold', () => {
+        const settled = flick().scrollLeft
+        const track = flick({ freeMode: { sticky: true, stickyThreshold: 5 } })
+
+        expect(track.scrollLeft).toBeGreaterThan(settled + 300)
+        expect(track.scrollLeft % 100).toBe(0)
+    })
+})
+
+describe('useDraggableScroll flicks', () => {
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    // The flick projects 80px/32ms of drag to ~960px of momentum: from item 6 (scroll 500) to item 16
+    it('lands on the item nearest the projected momentum stop', () => {
+        expect(flick({ maxSlidesPerSwipe: Infinity }).scrollLeft).toBe(1500)
+    })
+
+    it('limits the landing to maxSlidesPerSwipe items from the start of the gesture', () => {
+        expect(flick({ maxSlidesPerSwipe: 2 }).scrollLeft).toBe(700)
+        expect(flick({ maxSlidesPerSwipe: 1 }).scrollLeft).toBe(600)
+    })
+
+    it('leaves free mode momentum alone', () => {
+        expect(flick({ maxSlidesPerSwipe: 1, freeMode: true }).scrollLeft % 100).not.toBe(0)
+    })
+
+    const swipe = (maxSlidesPerSwipe: number, pauseBeforeRelease = 0) => {
+        useFakeFrames()
+        const track = createTrack()
+        const { result, rerender } = renderHook(
+            (props: { maxSlidesPerSwipe?: number }) => useDraggableScroll({ ...props, physics: { velocitySmoothing: 1 } }),
+            { initialProps: {} }
+        )
+        // @ts-ignore
+        result.current.ref.current = track
+        // Attach the touch listeners now that the element exists
+        rerender({ maxSlidesPerSwipe })
+
+        act(() => {
+            track.dispatchEvent(touchEvent('touchstart', 500))
+        })
+        // Native scrolling follows the finger
+        for (const pageX of [460, 420]) {
+            act(() => {
+                vi.advanceTimersByTime(16)
+                track.scrollLeft += 40
+                track.dispatchEvent(touchEvent('touchmove', pageX))
+            })
+        }
+        act(() => {
+            vi.advanceTimersByTime(pauseBeforeRelease)
+            track.dispatchEvent(touchEvent('touchend'))
+        })
+        return { track, result, rerender }
+    }
+
+    it('applies the same landing to touch swipes', () => {
+        const { track } = swipe(2)
+        expect(track.style.scrollSnapType).toBe('none')
+
+        act(() => {
+            vi.advanceTimersByTime(5000)
+        })
+        expect(track.scrollLeft).toBe(700)
+        expect(track.style.scrollSnapType).toBe('')
+    })
+
+    it('holds native momentum while a touch flick lands within maxSlidesPerSwipe', () => {
+        const { track } = swipe(1)
+        expect(track.style.overflow).toBe('hidden')
+
+        // Native momentum would carry the track on; the held scroller lands on the limited item
+        act(() => {
+            vi.advanceTimersByTime(5000)
+        })
+        expect(track.scrollLeft).toBe(600)
+        expect(track.style.overflow).toBe('')
+        expect(track.style.scrollSnapType).toBe('')
+    })
+
+    it('gives native scrolling back when a new touch interrupts the landing', () => {
+        const { track } = swipe(2)
+        act(() => {
+            vi.advanceTimersByTime(16)
+            track.dispatchEvent(touchEvent('touchstart', 300))
+        })
+
+        expect(track.style.overflow).toBe('')
+        expect(track.style.scrollSnapType).toBe('')
+    })
+
+    it('gives native scrolling back when the landing is cancelled', () => {
+        const { track, result } = swipe(2)
+        act(() => {
+            vi.advanceTimersByTime(16)
+            // Arrows, goTo and the wheel interrupt momentum through cancelMomentum
+            result.current.cancelMomentum()
+        })
+
+        expect(track.style.overflow).toBe('')
+        expect(track.style.scrollSnapType).toBe('')
+    })
+
+    it('gives native scrolling back when flicks are turned off mid-landing', () => {
+        const { track, rerender } = swipe(2)
+        act(() => {
+            vi.advanceTimersByTime(16)
+        })
+        rerender({})
+
+        expect(track.style.overflow).toBe('')
+        expect(track.style.scrollSnapType).toBe('')
+    })
+
+    it('leaves slow touch releases to CSS snapping', () => {
+        const { track } = swipe(2, 200)
+        act(() => {
+            vi.advanceTimersByTime(5000)
+        })
+
+        expect(track.scrollLeft).toBe(580)
+        expect(track.style.scrollSnapType).toBe('')
+    })
+})
+
+
+describe('useDraggableScroll touch overscroll', () => {
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    /** Touches down at 300 and moves the finger through `moves` on a track scrolled to `scrollLeft` */
+    const pull = (scrollLeft: number, moves: Array<[number, number?]>, touchOverscroll = true) => {
+        useFakeFrames()
+        const track = createTrack()
+        track.scrollLeft = scrollLeft
+        const onEdgePullStart = vi.fn()
+        const onEdgePullEnd = vi.fn()
+        const { result, rerender } = renderHook(
+            (props: { touchOverscroll?: boolean }) => useDraggableScroll({ ...props, onEdgePullStart, onEdgePullEnd }),
+            { initialProps: {} }
+        )
+        // @ts-ignore
+        result.current.ref.current = track
+        // Attach the touch listeners now that the element exists
+        rerender({ touchOverscroll })
+
+        act(() => {
+            track.dispatchEvent(touchEvent('touchstart', 300))
+        })
+        for (const [pageX, pageY] of moves) {
+            act(() => {
+                vi.advanceTimersByTime(16)
+                track.dispatchEvent(touchEvent('touchmove', pageX, pageY))
+            })
+        }
+        return { track, onEdgePullStart, onEdgePullEnd }
+    }
+
+    const release = (track: HTMLElement) => {
+        act(() => {
+            track.dispatchEvent(touchEvent('touchend'))
+        })
+        act(() => {
+            vi.advanceTimersByTime(1000)
+        })
+    }
+
+    it('stretches the track with resistance when pulled past the start', () => {
+        const { track, onEdgePullStart } = pull(0, [[340], [420]])
+
+        const offset = parseFloat(track.style.transform.replace('translateX(', ''))
+        expect(offset).toBeGreaterThan(0)
+        expect(offset).toBeLessThan(120)
+        expect(onEdgePullStart).toHaveBeenCalledTimes(1)
+    })
+
+    it('stretches the other way past the end', () => {
+        const { track } = pull(1700, [[260], [180]])
+
+        expect(parseFloat(track.style.transform.replace('translateX(', ''))).toBeLessThan(0)
+    })
+
+    it('springs back on release and reports the end of the pull', () => {
+        const { track, onEdgePullEnd } = pull(0, [[340], [420]])
+        expect(onEdgePullEnd).not.toHaveBeenCalled()
+
+        release(track)
+
+        expect(track.style.transform).toBe('')
+        expect(onEdgePullEnd).toHaveBeenCalledTimes(1)
+    })
+
+    it('releases the pull when the finger moves back into the track', () => {
+        const { track, onEdgePullEnd } = pull(0, [[340], [280]])
+
+        expect(track.style.transform).toBe('')
+        expect(onEdgePullEnd).toHaveBeenCalledTimes(1)
+    })
+
+    it('leaves native scrolling alone away from the edges', () => {
+        const { track, onEdgePullStart } = pull(500, [[340], [420]])
+
+        expect(track.style.transform).toBe('')
+        expect(onEdgePullStart).not.toHaveBeenCalled()
+    })
+
+    it('ignores mostly cross-axis gestures', () => {
+        const { track } = pull(0, [[310, 60], [320, 120]])
+
+        expect(track.style.transform).toBe('')
+    })
+
+    it('is off by default', () => {
+        const { track, onEdgePullStart } = pull(0, [[340], [420]], false)
+
+        expect(track.style.transform).toBe('')
+        expect(onEdgePullStart).not.toHaveBeenCalled()
+    })
+
+    it('reports mouse edge pulls too', () => {
+        useFakeFrames()
+        const track = createTrack()
+        track.scrollLeft = 0
+        const onEdgePullStart = vi.fn()
+        const onEdgePullEnd = vi.fn()
+        const { result } = renderHook(() => useDraggableScroll({ onEdgePullStart, onEdgePullEnd }))
+        // @ts-ignore
+        result.current.ref.current = track
+
+        act(() => {
+            result.current.events.onPointerDown({ pageX: 300, pointerType: 'mouse', preventDefault: vi.fn() } as any)
+        })
+        for (const pageX of [340, 380]) {
+            act(() => {
+                vi.advanceTimersByTime(16)
+                result.current.events.onPointerMove({ pageX, preventDefault: vi.fn(), pointerId: 1 } as any)
+            })
+        }
+        expect(onEdgePullStart).toHaveBeenCalledTimes(1)
+
+        act(() => {
+            result.current.events.onPointerUp({} as any)
+        })
+        act(() => {
+            vi.advanceTimersByTime(1000)
+        })
+        expect(track.style.transform).toBe('')
+        expect(onEdgePullEnd).toHaveBeenCalledTimes(1)
+    })
 })
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createElement, type ReactNode } from 'react'
 import { renderHook, act } from '@testing-library/react'
 import { useLoadingState, clearLoadingStateCache } from '../useLoadingState'
+import { createMemoryStorageAdapter, createUrlSearchParamsAdapter } from '../../storage'
+import { CarouselStorageProvider } from '../../CarouselStorageProvider'
 
 describe('useLoadingState', () => {
     beforeEach(() => {
@@ -87,4 +90,47 @@ describe('useLoadingState', () => {
 
         expect(result.current.isReady).toBe(firstIsReady)
     })
+
+    it('restores seen state from a storage adapter after the memory cache is cleared', () => {
+        const storage = createMemoryStorageAdapter()
+        const { result: first } = renderHook(() => useLoadingState({ cacheKey: 'stored-key', storage }))
+        act(() => { first.current.markReady() })
+
+        // e.g. Safari reclaimed memory, or a new JS context in an embedded webview
+        clearLoadingStateCache()
+        const { result: second } = renderHook(() => useLoadingState({ cacheKey: 'stored-key', storage }))
+
+        expect(second.current.isInstant).toBe(true)
+        expect(storage.getItem('carousel-seen-stored-key')).toBe('1')
+    })
+
+    it('does not restart the timers when an inline adapter is recreated on render', () => {
+        const storage = createMemoryStorageAdapter()
+        const { result, rerender } = renderHook(() => useLoadingState({
+            cacheKey: 'inline-key',
+            fallbackTimeout: 3000,
+            // New adapter object every render, backed by the same store
+            storage: { ...storage },
+        }))
+
+        act(() => { vi.advanceTimersByTime(2000) })
+        rerender()
+        act(() => { vi.advanceTimersByTime(1000) })
+
+        expect(result.current.isReady).toBe(true)
+        expect(storage.getItem('carousel-seen-inline-key')).toBe('1')
+    })
+
+    it('keeps seen state off the provider position storage', () => {
+        window.history.replaceState(null, '', '/')
+        const seenStorage = createMemoryStorageAdapter()
+        const wrapper = ({ children }: { children: ReactNode }) =>
+            createElement(CarouselStorageProvider, { storage: createUrlSearchParamsAdapter(), seenStorage }, children)
+        const { result } = renderHook(() => useLoadingState({ cacheKey: 'provider-key' }), { wrapper })
+
+        act(() => { result.current.markReady() })
+
+        expect(window.location.search).toBe('')
+        expect(seenStorage.getItem('carousel-seen-provider-key')).toBe('1')
+    })
 })
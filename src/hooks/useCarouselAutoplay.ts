@@ -0,0 +1,262 @@
+import { useRef, useState, useCallback, useEffect } from 'react'
+import { TIMING_CONFIG } from '../config'
+import type { CarouselLoggerInstance } from '../logger'
+
+export interface CarouselAutoplayOptions {
+    /** Delay between slides in ms. Default: 5000 */
+    interval?: number
+    /** Direction to advance in. Default: 'forward' */
+    direction?: 'forward' | 'backward'
+    /** Stop for good (until play() is called) once the user interacts. Default: false */
+    stopOnInteraction?: boolean
+    /** Pause while the pointer is over the carousel. Default: true */
+    pauseOnHover?: boolean
+    /** Pause while focus is inside the carousel. Default: true */
+    pauseOnFocus?: boolean
+    /** Pause while the document is hidden (background tab). Default: true */
+    pauseOnHidden?: boolean
+    /** Pause while the carousel is scrolled off-screen (IntersectionObserver). Default: true */
+    pauseWhenOffscreen?: boolean
+    /** Do not autoplay when the user prefers reduced motion. Default: true */
+    respectReducedMotion?: boolean
+}
+
+export interface UseCarouselAutoplayOptions extends CarouselAutoplayOptions {
+    /** Whether autoplay is configured at all */
+    enabled: boolean
+    /** Root element used for hover, focus, interaction and visibility tracking */
+    rootRef: React.RefObject<HTMLElement | null>
+    /** Whether the carousel can advance right now (e.g. coordinator phase is IDLE) */
+    canAdvance: () => boolean
+    /** Advance one step in the given direction */
+    onAdvance: (direction: -1 | 1) => void
+    /** Optional logger for debugging */
+    logger?: CarouselLoggerInstance
+}
+
+/** Temporary pause causes - autoplay resumes once all are cleared */
+export type AutoplayPauseReason = 'hover' | 'focus' | 'hidden' | 'offscreen' | 'reducedMotion'
+
+export interface UseCarouselAutoplayReturn {
+    /** True when autoplay is enabled, not stopped and not paused */
+    isPlaying: boolean
+    /** True when autoplay was stopped by the user (pause() or stopOnInteraction) */
+    isStopped: boolean
+    /** Active temporary pause reasons */
+    pauseReasons: AutoplayPauseReason[]
+    /** Resume autoplay after pause() or stopOnInteraction */
+    play: () => void
+    /** Stop autoplay until play() is called */
+    pause: () => void
+    /** Progress towards the next advance (0..1) */
+    getProgress: () => number
+}
+
+/**
+ * Hook that advances the carousel on a timer.
+ *
+ * Never fights the coordinator: when a tick lands while the carousel is busy
+ * (bouncing, teleporting, scrolling), it retries shortly instead of advancing.
+ * Remaining time is preserved across pauses so progress indicators stay continuous.
+ */
+export function useCarouselAutoplay({
+    enabled,
+    rootRef,
+    canAdvance,
+    onAdvance,
+    interval = TIMING_CONFIG.AUTOPLAY_INTERVAL_MS,
+    direction = 'forward',
+    stopOnInteraction = false,
+    pauseOnHover = true,
+    pauseOnFocus = true,
+    pauseOnHidden = true,
+    pauseWhenOffscreen = true,
+    respectReducedMotion = true,
+    logger,
+}: UseCarouselAutoplayOptions): UseCarouselAutoplayReturn {
+    const [isStopped, setIsStopped] = useState(false)
+    const [pauseReasons, setPauseReasons] = useState<AutoplayPauseReason[]>([])
+
+    const isPlaying = enabled && !isStopped && pauseReasons.length === 0
+
+    // Timer bookkeeping (refs: ticking must not re-render)
+    const timerRef = useRef<NodeJS.Timeout | null>(null)
+    const remainingRef = useRef(interval)
+    const startedAtRef = useRef<number | null>(null)
+    // Set by the timer effect: restarts the countdown with a full interval
+    const restartRef = useRef<(() => void) | null>(null)
+
+    // Store unstable callbacks in refs to avoid restarting the timer every render
+    const canAdvanceRef = useRef(canAdvance)
+    const onAdvanceRef = useRef(onAdvance)
+    const loggerRef = useRef(logger)
+    canAdvanceRef.current = canAdvance
+    onAdvanceRef.current = onAdvance
+    loggerRef.current = logger
+
+    const setPaused = useCallback((reason: AutoplayPauseReason, paused: boolean) => {
+        setPauseReasons(prev => {
+            const has = prev.includes(reason)
+            if (paused === has) return prev
+            return paused ? [...prev, reason] : prev.filter(r => r !== reason)
+        })
+    }, [])
+
+    // Interval changes restart the countdown
+    useEffect(() => {
+        remainingRef.current = interval
+    }, [interval])
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // TIMER: runs only while playing, preserves remaining time across pauses
+    // ═══════════════════════════════════════════════════════════════════════════
+    useEffect(() => {
+        if (!isPlaying) return
+
+        const step: -1 | 1 = direction === 'backward' ? -1 : 1
+
+        const schedule = (delay: number) => {
+            startedAtRef.current = Date.now()
+            remainingRef.current = delay
+            timerRef.current = setTimeout(tick, delay)
+        }
+
+        const tick = () => {
+            if (!canAdvanceRef.current()) {
+                // Busy (bouncing, teleporting, mid-scroll): retry without losing the slot
+                loggerRef.current?.log('NAV', 'Autoplay tick deferred - carousel busy')
+                schedule(TIMING_CONFIG.AUTOPLAY_RETRY_MS)
+                return
+            }
+            loggerRef.current?.log('NAV', 'Autoplay advancing', { direction: step })
+            onAdvanceRef.current(step)
+            schedule(interval)
+        }
+
+        schedule(remainingRef.current > 0 ? remainingRef.current : interval)
+
+        restartRef.current = () => {
+            if (timerRef.current) clearTimeout(timerRef.current)
+            schedule(interval)
+        }
+
+        return () => {
+            if (timerRef.current) clearTimeout(timerRef.current)
+            timerRef.current = null
+            restartRef.current = null
+            // Bank the remaining time so resuming continues where we left off
+            if (startedAtRef.current !== null) {
+                remainingRef.current = Math.max(0, remainingRef.current - (Date.now() - startedAtRef.current))
+                startedAtRef.current = null
+            }
+        }
+    }, [isPlaying, interval, direction])
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // PAUSE SOURCES: hover, focus, interaction, visibility, reduced motion
+    // ═══════════════════════════════════════════════════════════════════════════
+    useEffect(() => {
+        const el = rootRef.current
+        if (!el || !enabled) return
+
+        const handleMouseEnter = () => pauseOnHover && setPaused('hover', true)
+        const handleMouseLeave = () => setPaused('hover', false)
+        const handleFocusIn = () => pauseOnFocus && setPaused('focus', true)
+        const handleFocusOut = (e: FocusEvent) => {
+            // Focus moving between elements inside the carousel is not a focus loss
+            if (e.relatedTarget instanceof Node && el.contains(e.relatedTarget)) return
+            setPaused('focus', false)
+        }
+        const handleInteraction = () => {
+            if (stopOnInteraction) {
+                loggerRef.current?.log('NAV', 'Autoplay stopped by user interaction')
+                setIsStopped(true)
+            } else {
+                // Give the user a full interval after they navigate manually
+                if (restartRef.current) restartRef.current()
+                else remainingRef.current = interval
+            }
+        }
+
+        el.addEventListener('mouseenter', handleMouseEnter)
+        el.addEventListener('mouseleave', handleMouseLeave)
+        el.addEventListener('focusin', handleFocusIn)
+        el.addEventListener('focusout', handleFocusOut)
+        el.addEventListener('pointerdown', handleInteraction, { passive: true })
+        el.addEventListener('wheel', handleInteraction, { passive: true })
+        el.addEventListener('keydown', handleInteraction)
+
+        return () => {
+            el.removeEventListener('mouseenter', handleMouseEnter)
+            el.removeEventListener('mouseleave', handleMouseLeave)
+            el.removeEventListener('focusin', handleFocusIn)
+            el.removeEventListener('focusout', handleFocusOut)
+            el.removeEventListener('pointerdown', handleInteraction)
+            el.removeEventListener('wheel', handleInteraction)
+            el.removeEventListener('keydown', handleInteraction)
+        }
+    }, [rootRef, enabled, pauseOnHover, pauseOnFocus, stopOnInteraction, interval, setPaused])
+
+    useEffect(() => {
+        if (!enabled || !pauseOnHidden || typeof document === 'undefined') return
+
+        const handleVisibilityChange = () => setPaused('hidden', document.hidden)
+        handleVisibilityChange()
+        document.addEventListener('visibilitychange', handleVisibilityChange)
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibilityChange)
+            setPaused('hidden', false)
+        }
+    }, [enabled, pauseOnHidden, setPaused])
+
+    useEffect(() => {
+        const el = rootRef.current
+        if (!el || !enabled || !pauseWhenOffscreen || typeof IntersectionObserver === 'undefined') return
+
+        const io = new IntersectionObserver((entries) => {
+            const entry = entries[entries.length - 1]
+            if (entry) setPaused('offscreen', !entry.isIntersecting)
+        })
+        io.observe(el)
+        return () => {
+            io.disconnect()
+            setPaused('offscreen', false)
+        }
+    }, [rootRef, enabled, pauseWhenOffscreen, setPaused])
+
+    useEffect(() => {
+        if (!enabled || !respectReducedMotion || typeof window === 'undefined' || !window.matchMedia) return
+
+        const query = window.matchMedia('(prefers-reduced-motion: reduce)')
+        const handleChange = () => setPaused('reducedMotion', query.matches)
+        handleChange()
+        query.addEventListener?.('change', handleChange)
+        return () => {
+            query.removeEventListener?.('change', handleChange)
+            setPaused('reducedMotion', false)
+        }
+    }, [enabled, respectReducedMotion, setPaused])
+
+    const play = useCallback(() => {
+        setIsStopped(false)
+        setPaused('reducedMotion', false) // Explicit play overrides the reduced motion default
+    }, [setPaused])
+
+    const pause = useCallback(() => setIsStopped(true), [])
+
+    const getProgress = useCallback(() => {
+        if (interval <= 0) return 0
+        const running = startedAtRef.current !== null ? Date.now() - startedAtRef.current : 0
+        const remaining = Math.max(0, remainingRef.current - running)
+        return Math.min(1, Math.max(0, 1 - remaining / interval))
+    }, [interval])
+
+    return {
+        isPlaying,
+        isStopped,
+        pauseReasons,
+        play,
+        pause,
+        getProgress,
+    }
+}
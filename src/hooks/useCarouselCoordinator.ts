@@ -66,9 +66,10 @@ export type CarouselAction =
     | { type: 'INITIALIZE' }
     | { type: 'ARROW_CLICK'; direction: -1 | 1; targetScroll: number }
     | { type: 'ITEM_CLICK'; targetScroll: number }
+    | { type: 'GO_TO'; targetScroll: number }     // Imperative navigation (handle.goTo)
     | { type: 'SCROLL_COMPLETE' }
     | { type: 'USER_INTERRUPT' }  // PointerDown, Wheel, TouchStart
-    | { type: 'START_BOUNCE'; timeoutId: ReturnType<typeof setTimeout> }
+    | { type: 'START_BOUNCE'; timeoutId: ReturnType<typeof setTimeout> | null }  // null: an edge pull ends it on release
     | { type: 'END_BOUNCE' }
     | { type: 'START_PRE_TELEPORT' }
     | { type: 'EXECUTE_TELEPORT'; offset: number }
@@ -123,6 +124,19 @@ export function reduce(context: CarouselContext, action: CarouselAction): Carous
             }
         }
 
+        case 'GO_TO': {
+            // Same rules as ITEM_CLICK: never start while bouncing or teleporting
+            if (context.phase !== 'IDLE' && context.phase !== 'SCROLLING') {
+                return context
+            }
+            return {
+                ...context,
+                phase: 'SCROLLING',
+                pendingTarget: action.targetScroll,
+                scrollDirection: null,
+            }
+        }
+
         case 'SCROLL_COMPLETE': {
             if (context.phase !== 'SCROLLING') {
                 return context
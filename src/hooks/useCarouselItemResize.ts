@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react'
+import type { CarouselLoggerInstance } from '../logger'
+import { getSlotElements, getSlotIndex } from '../slots'
+
+export interface UseCarouselItemResizeOptions {
+    /** When false no observer is attached */
+    enabled: boolean
+    /** Reference to the scrollable container whose children are observed */
+    containerRef: React.RefObject<HTMLElement | null>
+    /** Number of slots (clones included). Nothing is observed while it is 0. */
+    slotCount: number
+    /** Called at most once per frame after one or more items changed size */
+    onResize: () => void
+    /** Optional logger for debugging */
+    logger?: CarouselLoggerInstance
+}
+
+/**
+ * Hook that watches every carousel item with a ResizeObserver.
+ *
+ * The layout hook only observes the container, which is enough when all items share
+ * one width. With variable-width items an image load or a text change resizes a single
+ * item and shifts every item after it, so the per-item position table must be rebuilt.
+ * Notifications are batched per animation frame: one resize typically reports many items.
+ * Slots added or replaced later (new items, render window moves) are picked up through
+ * a MutationObserver; observing a node reports its size once, which rebuilds the table.
+ */
+export function useCarouselItemResize({
+    enabled,
+    containerRef,
+    slotCount,
+    onResize,
+    logger,
+}: UseCarouselItemResizeOptions): void {
+    // Refs keep the observer attached while callbacks change identity every render
+    const onResizeRef = useRef(onResize)
+    onResizeRef.current = onResize
+    const loggerRef = useRef(logger)
+    loggerRef.current = logger
+
+    useEffect(() => {
+        const el = containerRef.current
+        if (!enabled || !el || slotCount === 0 || typeof ResizeObserver === 'undefined') return
+
+        let rafId: number | null = null
+
+        const ro = new ResizeObserver((entries) => {
+            if (rafId !== null) return
+            rafId = requestAnimationFrame(() => {
+                rafId = null
+                loggerRef.current?.log('LAYOUT', 'Item resized, rebuilding position table', { entries: entries.length })
+                onResizeRef.current()
+            })
+        })
+
+        const slots = getSlotElements(el)
+        slots.forEach((slot) => ro.observe(slot))
+        loggerRef.current?.log('LAYOUT', `Observing ${slots.length} items for resize`)
+
+        // Keyed re-renders swap slot nodes without changing their count
+        const mo = typeof MutationObserver === 'undefined' ? null : new MutationObserver((records) => {
+            records.forEach((record) => {
+                record.removedNodes.forEach((node) => {
+                    if (node instanceof Element) ro.unobserve(node)
+                })
+                record.addedNodes.forEach((node) => {
+                    if (node instanceof Element && getSlotIndex(el, node) >= 0) ro.observe(node)
+                })
+            })
+        })
+        mo?.observe(el, { childList: true })
+
+        return () => {
+            ro.disconnect()
+            mo?.disconnect()
+            if (rafId !== null) cancelAnimationFrame(rafId)
+        }
+    }, [enabled, containerRef, slotCount])
+}
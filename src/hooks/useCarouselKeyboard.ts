@@ -0,0 +1,192 @@
+import { useRef, useCallback } from 'react'
+import { TIMING_CONFIG } from '../config'
+import type { CarouselLoggerInstance } from '../logger'
+import type { CarouselDirection, CarouselOrientation } from '../axis'
+import { getSlotElement, getSlotIndex } from '../slots'
+
+/** Keyboard action resolved from a key press */
+export type CarouselKeyAction =
+    | { type: 'STEP'; delta: number }   // ArrowLeft/ArrowRight or ArrowUp/ArrowDown (±1), PageUp/PageDown (±page)
+    | { type: 'GO_TO'; index: number }  // Home/End (real index)
+
+export interface UseCarouselKeyboardOptions {
+    /** Reference to the scrollable container whose direct children are the item slots */
+    containerRef: React.RefObject<HTMLElement | null>
+    /** Number of real items (clones excluded) */
+    itemsCount: number
+    /** Number of items PageUp/PageDown move by (typically the number of visible items) */
+    getPageSize: () => number
+    /** Map a DOM slot index to its real item index */
+    getRealIndex: (domIndex: number) => number
+    /** Perform a keyboard navigation action */
+    onAction: (action: CarouselKeyAction) => void
+    /** Focus landed on a slot that is not the active one (Tab, screen reader cursor) */
+    onFocusItem: (domIndex: number) => void
+    /** Vertical carousels step with ArrowUp/ArrowDown instead of ArrowLeft/ArrowRight. Default: 'horizontal' */
+    orientation?: CarouselOrientation
+    /** In 'rtl' horizontal carousels ArrowLeft moves forward. Default: 'ltr' */
+    direction?: CarouselDirection
+    /** Optional logger for debugging */
+    logger?: CarouselLoggerInstance
+}
+
+export interface UseCarouselKeyboardReturn {
+    /** Move the roving tabIndex to a slot. Focus follows when it is inside another slot. */
+    syncRovingFocus: (domIndex: number) => void
+    /** DOM index of the slot that currently owns tabIndex=0 (null before the first sync) */
+    getRovingIndex: () => number | null
+    /** Event handlers to spread on the scroll container */
+    events: {
+        onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => void
+        onFocus: (e: React.FocusEvent<HTMLElement>) => void
+        onPointerDownCapture: () => void
+    }
+}
+
+/** Keys must not be hijacked while the user is typing inside an item */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * Find the node inside `toRoot` that mirrors `node` inside `fromRoot`.
+ * Clones render identical trees, so the child-index path is stable across copies.
+ */
+const findEquivalentNode = (fromRoot: HTMLElement, toRoot: HTMLElement, node: HTMLElement): HTMLElement => {
+    const path: number[] = []
+    let current: HTMLElement | null = node
+    while (current && current !== fromRoot) {
+        const parent: HTMLElement | null = current.parentElement
+        if (!parent) return toRoot
+        path.unshift(Array.prototype.indexOf.call(parent.children, current))
+        current = parent
+    }
+
+    let target: Element = toRoot
+    for (const childIndex of path) {
+        const next = target.children[childIndex]
+        if (!next) return toRoot
+        target = next
+    }
+    return target instanceof HTMLElement ? target : toRoot
+}
+
+/**
+ * Hook for keyboard navigation and roving focus.
+ *
+ * Exactly one item slot is tabbable (tabIndex=0); the rest are -1. tabIndex is
+ * written imperatively so moving it never re-renders the (potentially large) item list.
+ * When the active slot changes while it holds focus - including teleports, where the
+ * equivalent clone lives thousands of pixels away - focus moves along with it.
+ */
+export function useCarouselKeyboard({
+    containerRef,
+    itemsCount,
+    getPageSize,
+    getRealIndex,
+    onAction,
+    onFocusItem,
+    orientation = 'horizontal',
+    direction = 'ltr',
+    logger,
+}: UseCarouselKeyboardOptions): UseCarouselKeyboardReturn {
+    const rovingNodeRef = useRef<HTMLElement | null>(null)
+    const rovingIndexRef = useRef<number | null>(null)
+    // Pointer-initiated focus must not select (a drag starting on a card would fight the gesture)
+    const lastPointerDownRef = useRef(0)
+
+    const syncRovingFocus = useCallback((domIndex: number) => {
+        const el = containerRef.current
+        if (!el) return
+        // Not mounted (windowed rendering): synced again once the render window reaches it
+        const next = getSlotElement(el, domIndex)
+        if (!next) return
+
+        const prev = rovingNodeRef.current
+        const prevIndex = rovingIndexRef.current
+        if (prev === next && next.tabIndex === 0) return
+
+        if (prev && prev !== next) prev.tabIndex = -1
+        next.tabIndex = 0
+        rovingNodeRef.current = next
+        rovingIndexRef.current = domIndex
+
+        // Focus follows only when it is already inside the carousel (never steal it from the page)
+        const focused = typeof document !== 'undefined' ? document.activeElement : null
+        if (!(focused instanceof HTMLElement) || next.contains(focused)) return
+        // Inert clones cannot take focus: keep it where it is until the teleport lands on an original
+        if (next.hasAttribute('inert')) return
+        let focusedSlot: HTMLElement | null = focused
+        while (focusedSlot && focusedSlot.parentElement !== el) focusedSlot = focusedSlot.parentElement
+        if (!focusedSlot) return
+
+        // Same real item (teleport or clone swap): keep focus on the equivalent inner node
+        const focusedIndex = getSlotIndex(el, focusedSlot)
+        const isSameItem = getRealIndex(focusedIndex) === getRealIndex(domIndex)
+        const target = isSameItem ? findEquivalentNode(focusedSlot, next, focused) : next
+        logger?.log('INTERACT', `Roving focus ${prevIndex} → ${domIndex}`, { isSameItem })
+        target.focus({ preventScroll: true })
+    }, [containerRef, getRealIndex, logger])
+
+    const getRovingIndex = useCallback(() => rovingIndexRef.current, [])
+
+    const onKeyDown = useCallback((e: React.KeyboardEvent<HTMLElement>) => {
+        if (itemsCount === 0 || e.altKey || e.ctrlKey || e.metaKey || isEditableTarget(e.target)) return
+
+        const isRtl = orientation === 'horizontal' && direction === 'rtl'
+        const nextKey = orientation === 'vertical' ? 'ArrowDown' : isRtl ? 'ArrowLeft' : 'ArrowRight'
+        const prevKey = orientation === 'vertical' ? 'ArrowUp' : isRtl ? 'ArrowRight' : 'ArrowLeft'
+        let action: CarouselKeyAction
+        switch (e.key) {
+            case nextKey: action = { type: 'STEP', delta: 1 }; break
+            case prevKey: action = { type: 'STEP', delta: -1 }; break
+            case 'PageDown': action = { type: 'STEP', delta: Math.max(1, getPageSize()) }; break
+            case 'PageUp': action = { type: 'STEP', delta: -Math.max(1, getPageSize()) }; break
+            case 'Home': action = { type: 'GO_TO', index: 0 }; break
+            case 'End': action = { type: 'GO_TO', index: itemsCount - 1 }; break
+            default: return
+        }
+
+        // Prevent the browser's native scroll for these keys - the coordinator owns scrolling
+        e.preventDefault()
+        logger?.log('INTERACT', `Key ${e.key}`, action)
+        onAction(action)
+    }, [itemsCount, getPageSize, onAction, orientation, direction, logger])
+
+    const onFocus = useCallback((e: React.FocusEvent<HTMLElement>) => {
+        const el = containerRef.current
+        if (!el) return
+
+        // Resolve the slot (direct child of the container) holding the focused node
+        let slot = e.target as HTMLElement | null
+        while (slot && slot.parentElement !== el) slot = slot.parentElement
+        if (!slot) return
+
+        const domIndex = getSlotIndex(el, slot)
+        if (domIndex < 0 || domIndex === rovingIndexRef.current) return
+
+        if (Date.now() - lastPointerDownRef.current < TIMING_CONFIG.POINTER_FOCUS_GRACE_MS) {
+            logger?.log('INTERACT', `Ignoring pointer focus on slot ${domIndex}`)
+            return
+        }
+
+        // Focus follows selection: Tab / screen reader cursor into another item selects it
+        logger?.log('INTERACT', `Focus moved to slot ${domIndex}, selecting`)
+        onFocusItem(domIndex)
+    }, [containerRef, onFocusItem, logger])
+
+    const onPointerDownCapture = useCallback(() => {
+        lastPointerDownRef.current = Date.now()
+    }, [])
+
+    return {
+        syncRovingFocus,
+        getRovingIndex,
+        events: {
+            onKeyDown,
+            onFocus,
+            onPointerDownCapture,
+        },
+    }
+}
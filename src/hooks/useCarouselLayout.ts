@@ -1,6 +1,8 @@
 import { useRef, useCallback, useEffect, useState } from 'react'
 import { LAYOUT_CONFIG, TIMING_CONFIG } from '../config'
 import type { CarouselLoggerInstance } from '../logger'
+import { getAxis, type CarouselDirection, type CarouselOrientation } from '../axis'
+import { getSlotElements } from '../slots'
 
 export interface UseCarouselLayoutOptions {
     /** Ref to the scrollable carousel container */
@@ -9,12 +11,16 @@ export interface UseCarouselLayoutOptions {
     onLayoutChange?: (layout: { cardWidth: number; gap: number }) => void
     /** Debounce delay for resize handling in ms. Default: 100 */
     resizeDebounceMs?: number
+    /** Scroll axis; card sizes and strides are measured along it. Default: 'horizontal' */
+    orientation?: CarouselOrientation
+    /** Text direction; 'rtl' mirrors horizontal scroll positions. Default: 'ltr' */
+    direction?: CarouselDirection
     /** Optional logger for debugging */
     logger?: CarouselLoggerInstance
 }
 
 export interface UseCarouselLayoutReturn {
-    /** Current layout measurements */
+    /** Current layout measurements (cardWidth is the item size along the scroll axis) */
     layout: { cardWidth: number; gap: number; domStride: number }
     /** Computed stride (cardWidth + gap) - fallback if domStride unavailable */
     stride: number
@@ -35,20 +41,27 @@ export interface UseCarouselLayoutReturn {
 
 /**
  * Calculate layout measurements from a carousel container element.
- * Reads the first child's width and determines gap based on breakpoint.
+ * Reads the first child's size along the axis and determines gap based on breakpoint.
  * 
  * @param container - The scrollable carousel container element
+ * @param orientation - Scroll axis to measure along (default 'horizontal')
+ * @param direction - Text direction (default 'ltr')
  * @returns The measured cardWidth and gap values, or null if children aren't rendered yet
  */
-export function measureLayoutFromElement(container: HTMLElement): { cardWidth: number; gap: number; domStride: number } | null {
-    const firstCard = container.firstElementChild as HTMLElement
+export function measureLayoutFromElement(
+    container: HTMLElement,
+    orientation: CarouselOrientation = 'horizontal',
+    direction: CarouselDirection = 'ltr'
+): { cardWidth: number; gap: number; domStride: number } | null {
+    const axis = getAxis(orientation, direction)
+    const [firstCard, secondCard] = getSlotElements(container)
     if (!firstCard) {
         // Children not rendered yet - return null to signal "can't measure"
         return null
     }
 
     // Use getBoundingClientRect for sub-pixel precision (critical for large buffer accumulative drift)
-    const cardWidth = firstCard.getBoundingClientRect().width
+    const cardWidth = axis.getRectSize(firstCard.getBoundingClientRect())
     // Use known Tailwind gap values - responsive breakpoint
     const gap = window.innerWidth < LAYOUT_CONFIG.GAP_BREAKPOINT
         ? LAYOUT_CONFIG.GAP_MOBILE
@@ -57,9 +70,8 @@ export function measureLayoutFromElement(container: HTMLElement): { cardWidth: n
     // Measure actual stride from DOM (distance between item centers)
     // This accounts for sub-pixel rendering that may differ from cardWidth + gap
     let domStride = cardWidth + gap // fallback
-    const secondCard = container.children[1] as HTMLElement | undefined
     if (secondCard) {
-        domStride = secondCard.offsetLeft - firstCard.offsetLeft
+        domStride = axis.getOffset(secondCard) - axis.getOffset(firstCard)
     }
 
     return { cardWidth, gap, domStride }
@@ -77,6 +89,8 @@ export function useCarouselLayout({
     containerRef,
     onLayoutChange,
     resizeDebounceMs = TIMING_CONFIG.RESIZE_DEBOUNCE_MS,
+    orientation = 'horizontal',
+    direction,
     logger,
 }: UseCarouselLayoutOptions): UseCarouselLayoutReturn {
     // Layout state - triggers re-render on change
@@ -117,7 +131,7 @@ export function useCarouselLayout({
             return layout
         }
 
-        const measured = measureLayoutFromElement(el)
+        const measured = measureLayoutFromElement(el, orientation, direction)
 
         // If children aren't rendered yet, return current layout (don't update state)
         if (measured === null) {
@@ -146,7 +160,7 @@ export function useCarouselLayout({
 
         isLayoutDirty.current = false
         return measured
-    }, [containerRef, layout, logger])
+    }, [containerRef, layout, orientation, direction, logger])
 
     /**
      * Mark layout as dirty - will trigger remeasure on next access
@@ -3,6 +3,10 @@ import { LAYOUT_CONFIG, TIMING_CONFIG, FEATURE_FLAGS } from '../config'
 import { useScrollCompletion } from './useScrollCompletion'
 import type { UseCarouselCoordinatorReturn } from './useCarouselCoordinator'
 import type { CarouselLoggerInstance } from '../logger'
+import type { ChildPosition } from './useCarouselVisuals'
+import { getIndexAtScroll, getScrollAtIndex } from '../utils'
+import { getAxis, type CarouselAlign, type CarouselAxis, type CarouselDirection, type CarouselOrientation } from '../axis'
+import { getSlotElement, getSlotElements } from '../slots'
 
 export interface UseCarouselNavigationOptions {
     /** Ref to the scrollable carousel container */
@@ -15,14 +19,36 @@ export interface UseCarouselNavigationOptions {
     cancelMomentum: () => void
     /** Pre-teleport function for infinite carousels (from useCarouselTeleport) */
     preTeleport?: (targetScroll: number) => number
-    /** Callback when navigating to a new item */
-    onNavigate?: (targetScroll: number) => void
+    /**
+     * Callback when navigating to a new item.
+     * `targetIndex` is the requested DOM index for scrollToIndex (finite lists may clamp the
+     * scroll before the last items, so the index is more precise than the scroll position).
+     */
+    onNavigate?: (targetScroll: number, targetIndex?: number) => void
     /** Coordinator for state management (REQUIRED in Phase 2+) */
     coordinator: UseCarouselCoordinatorReturn
+    /**
+     * Per-item position table for variable-width items (from useCarouselVisuals).
+     * When provided, targets are item resting positions instead of multiples of one stride.
+     */
+    getItemPositions?: () => ChildPosition[]
+    /** Items advanced per arrow click (default: 1) */
+    slidesPerGroup?: number
+    /** Where items rest in the viewport (default: 'center' when infinite, 'start' otherwise) */
+    align?: CarouselAlign
+    /** Scroll axis (default: horizontal) */
+    orientation?: CarouselOrientation
+    /** Text direction; 'rtl' mirrors horizontal scroll positions. Default: 'ltr' */
+    direction?: CarouselDirection
     /** Optional logger for debugging */
     logger?: CarouselLoggerInstance
 }
 
+export interface ScrollToIndexOptions {
+    /** Smooth-scroll to the target (default: true). When false, jumps instantly. */
+    animate?: boolean
+}
+
 export interface UseCarouselNavigationReturn {
     /** Navigate left (previous item) */
     scrollLeft: () => void
@@ -30,6 +56,37 @@ export interface UseCarouselNavigationReturn {
     scrollRight: () => void
     /** Direct access to navigation handler */
     handleScrollNav: (direction: -1 | 1) => void
+    /**
+     * Navigate to a DOM child index (clone-aware: callers pick which copy to target).
+     * Routes through preTeleport and the coordinator like arrow navigation.
+     */
+    scrollToIndex: (index: number, options?: ScrollToIndexOptions) => void
+}
+
+/**
+ * Measure the real DOM stride and start padding ("ruler") of an infinite carousel.
+ * Both arrow and direct navigation must use the same ruler to avoid drift.
+ */
+function measureDomRuler(el: HTMLElement, stride: number, axis: CarouselAxis): { activeStride: number; paddingOffset: number } {
+    let activeStride = stride
+    let paddingOffset = 0
+
+    if (el.children.length > 0) {
+        // Slot 0, or the leading spacer standing in for it: both start where slot 0 does
+        paddingOffset = axis.getOffset(el.children[0] as HTMLElement)
+
+        const [firstSlot, secondSlot] = getSlotElements(el)
+        if (firstSlot && secondSlot) {
+            const domStride = axis.getOffset(secondSlot) - axis.getOffset(firstSlot)
+
+            // If DOM stride differs significantly, trust the DOM
+            if (domStride > 0 && Math.abs(domStride - stride) > 1) {
+                activeStride = domStride
+            }
+        }
+    }
+
+    return { activeStride, paddingOffset }
 }
 
 /**
@@ -52,8 +109,15 @@ export function useCarouselNavigation({
     preTeleport,
     onNavigate,
     coordinator,
+    getItemPositions,
+    slidesPerGroup = 1,
+    align = infinite ? 'center' : 'start',
+    orientation,
+    direction,
     logger,
 }: UseCarouselNavigationOptions): UseCarouselNavigationReturn {
+    const axis = getAxis(orientation, direction)
+
     // Internal refs that can't be stored in coordinator (functions/objects)
     const scrollEndListenerRef = useRef<(() => void) | null>(null)
     const scrollIdleTimeoutRef = useRef<NodeJS.Timeout | null>(null)
@@ -75,7 +139,7 @@ export function useCarouselNavigation({
         if (ctx.isPreTeleporting) return
 
         // POSITION CHECK: Verify we actually reached the target before clearing
-        const currentPos = el.scrollLeft
+        const currentPos = axis.getScroll(el)
         const targetPos = ctx.pendingTarget
         const stride = layout.cardWidth + layout.gap
 
@@ -97,7 +161,7 @@ export function useCarouselNavigation({
         // Coordinator: Notify scroll completion (clears pendingTarget internally)
         coordinator.transition({ type: 'SCROLL_COMPLETE' })
         if (infinite && el) el.style.scrollSnapType = ''
-    }, [containerRef, coordinator, infinite, layout.cardWidth, layout.gap, logger])
+    }, [containerRef, coordinator, infinite, layout.cardWidth, layout.gap, axis, logger])
 
     // Check for scrollend support
     const { waitForScrollCompletion } = useScrollCompletion({
@@ -136,8 +200,8 @@ export function useCarouselNavigation({
         // (cancelMomentum writes to the DOM, causing a forced reflow if we read after it)
         const perfStart = performance.now()
         const stride = layout.cardWidth + layout.gap
-        const currentScroll = el.scrollLeft
-        const maxScroll = el.scrollWidth - el.clientWidth
+        const currentScroll = axis.getScroll(el)
+        const maxScroll = axis.getScrollSize(el) - axis.getClientSize(el)
 
         // This measurement confirms we are NOT triggering a reflow (should be < 0.5ms)
         const readTime = performance.now() - perfStart
@@ -184,11 +248,11 @@ export function useCarouselNavigation({
                 coordinator.transition({ type: 'START_BOUNCE', timeoutId: bounceTimeoutId })
 
                 el.style.transition = 'transform 0.15s ease-out'
-                el.style.transform = `translateX(${-bounceAmount}px)`
+                el.style.transform = axis.translate(-bounceAmount)
 
                 setTimeout(() => {
                     el.style.transition = 'transform 0.3s cubic-bezier(0.34, 1.56, 0.64, 1)'
-                    el.style.transform = 'translateX(0)'
+                    el.style.transform = axis.orientation === 'vertical' ? 'translateY(0)' : 'translateX(0)'
                 }, TIMING_CONFIG.BOUNCE_PHASE1_MS)
 
                 return // Don't scroll further
@@ -209,29 +273,41 @@ export function useCarouselNavigation({
         // ═══════════════════════════════════════════════════════════════════════════
 
         let targetScroll: number
+        // Items to advance: one group per click
+        const step = direction * Math.max(1, slidesPerGroup)
 
         // COMMON: Measure real DOM stride and padding first
         // We must use the same "ruler" for both idle and rapid clicks to avoid drift.
-        let activeStride = stride
-        let paddingOffset = 0
-
-        if (infinite && el.children.length > 0) {
-            const firstChild = el.children[0] as HTMLElement
-            paddingOffset = firstChild.offsetLeft
-
-            if (el.children.length > 1) {
-                const secondChild = el.children[1] as HTMLElement
-                const domStride = secondChild.offsetLeft - firstChild.offsetLeft
+        const { activeStride, paddingOffset } = infinite
+            ? measureDomRuler(el, stride, axis)
+            : { activeStride: stride, paddingOffset: 0 }
 
-                // If DOM stride differs significantly, trust the DOM
-                if (domStride > 0 && Math.abs(domStride - stride) > 1) {
-                    activeStride = domStride
+        const pendingTarget = ctx.pendingTarget
+        const positions = getItemPositions?.() ?? []
+        if (positions.length > 0) {
+            // VARIABLE WIDTH: step between resting positions of the item table.
+            // Mid-animation, catch up to the previous target and advance from its index.
+            if (pendingTarget !== null) {
+                if (scrollEndListenerRef.current) {
+                    el.removeEventListener('scrollend', scrollEndListenerRef.current)
+                    el.removeEventListener('scroll', scrollEndListenerRef.current)
+                    scrollEndListenerRef.current = null
                 }
+                el.scrollTo(axis.toScrollOptions(el, pendingTarget, 'auto'))
             }
-        }
-
-        const pendingTarget = ctx.pendingTarget
-        if (pendingTarget !== null) {
+            const viewportSize = axis.getClientSize(el)
+            const currentIndex = Math.round(getIndexAtScroll(positions, pendingTarget ?? currentScroll, viewportSize, align))
+            const nextIndex = Math.max(0, Math.min(currentIndex + step, positions.length - 1))
+            targetScroll = getScrollAtIndex(positions, nextIndex, viewportSize, align)
+            if (!infinite) targetScroll = Math.max(0, Math.min(targetScroll, maxScroll))
+
+            logger?.log('NAV', `#${thisClickId} Variable-width target calculation`, {
+                caughtUpTo: pendingTarget,
+                currentIndex,
+                nextIndex,
+                targetScroll: targetScroll.toFixed(1)
+            })
+        } else if (pendingTarget !== null) {
             // Mid-animation: CATCH UP first, then advance
             const previousTarget = pendingTarget
 
@@ -244,10 +320,10 @@ export function useCarouselNavigation({
             }
 
             // Instantly snap to where we were headed (no animation restart lag)
-            el.scrollTo({ left: previousTarget, behavior: 'auto' })
+            el.scrollTo(axis.toScrollOptions(el, previousTarget, 'auto'))
 
             // Now calculate the next target from that position
-            targetScroll = previousTarget + (direction * activeStride)
+            targetScroll = previousTarget + (step * activeStride)
 
             logger?.log('NAV', `#${thisClickId} Mid-animation: Caught up to ${previousTarget}, now targeting`, {
                 caughtUpTo: previousTarget,
@@ -261,22 +337,22 @@ export function useCarouselNavigation({
             // Calculate index directly from scroll position
             // We assume Scroll 0 = Index 0, so simply dividing by stride works.
             const currentIndex = Math.round(currentScroll / activeStride)
-            const nextIndex = currentIndex + direction
+            const nextIndex = currentIndex + step
 
             // TARGET CALCULATION: TRUST THE DOM
             // Instead of multiplying Stride * Index (which accumulates errors),
             // we find the exact DOM element we want to land on and scroll there.
             let domTargetFound = false
 
-            if (infinite && el.children[nextIndex]) {
-                const targetNode = el.children[nextIndex] as HTMLElement
+            const targetNode = infinite ? getSlotElement(el, nextIndex) : undefined
+            if (targetNode) {
                 // We know paddingOffset is essentially (ContainerWidth - CardWidth)/2
                 // So Target = ItemLeft - PaddingOffset centers the item.
-                targetScroll = targetNode.offsetLeft - paddingOffset
+                targetScroll = axis.getOffset(targetNode) - paddingOffset
                 domTargetFound = true
             } else {
                 // Fallback to math if item not rendered yet
-                targetScroll = paddingOffset + (nextIndex * activeStride)
+                targetScroll = nextIndex * activeStride
             }
 
             logger?.log('NAV', `#${thisClickId} Idle target calculation`, {
@@ -290,6 +366,11 @@ export function useCarouselNavigation({
             })
         }
 
+        // Groups can overshoot the last page of a finite list: land on the end instead
+        if (!infinite && slidesPerGroup > 1) {
+            targetScroll = Math.max(0, Math.min(targetScroll, maxScroll))
+        }
+
         // Pre-emptive teleport: If target would cross a threshold, teleport FIRST
         if (infinite && preTeleport) {
             targetScroll = preTeleport(targetScroll)
@@ -309,16 +390,10 @@ export function useCarouselNavigation({
         // Scroll to target - with or without RAF frame separation based on flag
         if (FEATURE_FLAGS.USE_RAF_FRAME_SEPARATION) {
             requestAnimationFrame(() => {
-                el.scrollTo({
-                    left: targetScroll,
-                    behavior: 'smooth',
-                })
+                el.scrollTo(axis.toScrollOptions(el, targetScroll, 'smooth'))
             })
         } else {
-            el.scrollTo({
-                left: targetScroll,
-                behavior: 'smooth',
-            })
+            el.scrollTo(axis.toScrollOptions(el, targetScroll, 'smooth'))
         }
 
         // Start listening for completion
@@ -340,7 +415,73 @@ export function useCarouselNavigation({
             totalDuration: `${clickDuration.toFixed(1)}ms`,
             finalTarget: targetScroll.toFixed(1)
         })
-    }, [containerRef, infinite, layout, cancelMomentum, preTeleport, onNavigate, coordinator, waitForScrollCompletion, logger])
+    }, [containerRef, infinite, layout, cancelMomentum, preTeleport, onNavigate, coordinator, waitForScrollCompletion, getItemPositions, slidesPerGroup, align, axis, logger])
+
+    const scrollToIndex = useCallback((index: number, options: ScrollToIndexOptions = {}) => {
+        const { animate = true } = options
+        const el = containerRef.current
+        if (!el) return
+
+        // Bounce owns the transform; never start a programmatic scroll mid-bounce
+        if (coordinator.getPhase() === 'BOUNCING') {
+            logger?.log('NAV', `scrollToIndex(${index}) ABORT: Currently bouncing`)
+            return
+        }
+
+        const stride = layout.cardWidth + layout.gap
+        if (stride <= 0) return
+        const maxScroll = axis.getScrollSize(el) - axis.getClientSize(el)
+
+        cancelMomentum()
+
+        const positions = getItemPositions?.() ?? []
+        let targetScroll: number
+        if (positions.length > 0) {
+            targetScroll = getScrollAtIndex(positions, index, axis.getClientSize(el), align)
+            if (!infinite) targetScroll = Math.max(0, Math.min(targetScroll, maxScroll))
+        } else if (infinite) {
+            const { activeStride, paddingOffset } = measureDomRuler(el, stride, axis)
+            const targetNode = getSlotElement(el, index)
+            targetScroll = targetNode
+                ? axis.getOffset(targetNode) - paddingOffset
+                : index * activeStride
+        } else {
+            targetScroll = Math.max(0, Math.min(index * stride, maxScroll))
+        }
+
+        logger?.log('NAV', `scrollToIndex(${index})`, { targetScroll: targetScroll.toFixed(1), animate })
+
+        if (!animate) {
+            // Instant jump: enter and leave SCROLLING in the same tick so observers
+            // (teleport, active item tracking) see a consistent coordinator state
+            coordinator.transition({ type: 'GO_TO', targetScroll })
+            el.scrollTo(axis.toScrollOptions(el, targetScroll, 'auto'))
+            coordinator.transition({ type: 'SCROLL_COMPLETE' })
+            if (onNavigate) onNavigate(targetScroll, index)
+            return
+        }
+
+        if (infinite) {
+            el.style.scrollSnapType = 'none'
+            if (preTeleport) targetScroll = preTeleport(targetScroll)
+        }
+
+        coordinator.transition({ type: 'GO_TO', targetScroll })
+
+        if (onNavigate) {
+            onNavigate(targetScroll, index)
+        }
+
+        if (FEATURE_FLAGS.USE_RAF_FRAME_SEPARATION) {
+            requestAnimationFrame(() => {
+                el.scrollTo(axis.toScrollOptions(el, targetScroll, 'smooth'))
+            })
+        } else {
+            el.scrollTo(axis.toScrollOptions(el, targetScroll, 'smooth'))
+        }
+
+        waitForScrollCompletion()
+    }, [containerRef, infinite, layout, cancelMomentum, preTeleport, onNavigate, coordinator, waitForScrollCompletion, getItemPositions, align, axis, logger])
 
     const scrollLeft = useCallback(() => handleScrollNav(-1), [handleScrollNav])
     const scrollRight = useCallback(() => handleScrollNav(1), [handleScrollNav])
@@ -349,5 +490,6 @@ export function useCarouselNavigation({
         scrollLeft,
         scrollRight,
         handleScrollNav,
+        scrollToIndex,
     }
 }
@@ -1,33 +1,93 @@
-import { useRef, useCallback, useEffect } from 'react'
+import { useRef, useCallback, useEffect, useContext } from 'react'
+import { createSessionStorageAdapter, type CarouselStorageAdapter } from '../storage'
+import { CarouselStorageContext } from '../CarouselStorageProvider'
 
 export interface UseCarouselPersistenceOptions {
     /** Unique key for this carousel's scroll position in sessionStorage */
     persistKey?: string
     /** Debounce delay in ms for saving scroll position. Default: 150 */
     debounceMs?: number
+    /**
+     * Storage for this carousel. Defaults to the CarouselStorageProvider's, then sessionStorage.
+     * Read through a ref, so inline adapters are fine.
+     */
+    storage?: CarouselStorageAdapter
+}
+
+/** Item-relative position: survives viewport, gap and item list changes between visits */
+export interface CarouselPositionAnchor {
+    /** getItemKey value of the active item */
+    itemKey: string
+    /** Scroll offset from the item's resting position, in strides (-0.5..0.5) */
+    offset: number
+}
+
+export interface CarouselSavedPosition extends Partial<CarouselPositionAnchor> {
+    /** Raw scroll position, used when the anchor item can no longer be found */
+    scrollLeft: number
 }
 
 export interface UseCarouselPersistenceReturn {
-    /** Get saved scroll position from sessionStorage (null if not found) */
+    /** Get saved scroll position from storage (null if not found) */
     getSavedPosition: () => number | null
-    /** Save current scroll position to sessionStorage (debounced) */
-    savePosition: (scrollLeft: number) => void
+    /** Get the saved anchor and pixel fallback (null if not found) */
+    getSavedEntry: () => CarouselSavedPosition | null
+    /** Save current scroll position to storage (debounced) */
+    savePosition: (scrollLeft: number, anchor?: CarouselPositionAnchor) => void
     /** Immediately save position (no debounce, for unmount) */
-    savePositionImmediate: (scrollLeft: number) => void
-    /** Clear saved position from sessionStorage */
+    savePositionImmediate: (scrollLeft: number, anchor?: CarouselPositionAnchor) => void
+    /** Clear saved position from storage */
     clearPosition: () => void
 }
 
+const serializeSavedPosition = (scrollLeft: number, anchor?: CarouselPositionAnchor): string => {
+    const rounded = Math.round(scrollLeft)
+    if (!anchor) return String(rounded)
+    return JSON.stringify({
+        itemKey: anchor.itemKey,
+        offset: Number.isFinite(anchor.offset) ? Math.round(anchor.offset * 1000) / 1000 : 0,
+        scrollLeft: rounded,
+    })
+}
+
+/** Accepts both the JSON anchor format and legacy pixel-only entries */
+const parseSavedPosition = (stored: string): CarouselSavedPosition | null => {
+    if (stored.startsWith('{')) {
+        try {
+            const parsed = JSON.parse(stored) as Partial<CarouselSavedPosition>
+            if (typeof parsed.scrollLeft !== 'number' || !Number.isFinite(parsed.scrollLeft)) return null
+            const hasAnchor = typeof parsed.itemKey === 'string'
+            return {
+                scrollLeft: parsed.scrollLeft,
+                ...(hasAnchor && {
+                    itemKey: parsed.itemKey,
+                    offset: typeof parsed.offset === 'number' && Number.isFinite(parsed.offset) ? parsed.offset : 0,
+                }),
+            }
+        } catch {
+            return null
+        }
+    }
+
+    const parsed = parseInt(stored, 10)
+    return Number.isFinite(parsed) ? { scrollLeft: parsed } : null
+}
+
+const defaultStorage = createSessionStorageAdapter()
+
 /**
  * Hook for persisting carousel scroll position across navigation.
  * 
- * Uses sessionStorage so position survives:
+ * Uses sessionStorage by default (see CarouselStorageAdapter for alternatives) so position survives:
  * - Browser back/forward navigation
  * - Same-tab navigation
  * 
  * But resets on:
  * - New tab/window
  * - Browser close
+ *
+ * When an anchor is passed, the active item's key and intra-item offset are stored
+ * alongside the pixel position (as JSON). Pixel-only entries are stored as plain numbers.
  * 
  * @example
  * ```tsx
@@ -48,44 +108,44 @@ export interface UseCarouselPersistenceReturn {
 export function useCarouselPersistence({
     persistKey,
     debounceMs = 150,
+    storage,
 }: UseCarouselPersistenceOptions = {}): UseCarouselPersistenceReturn {
+    const contextStorage = useContext(CarouselStorageContext)
+    // Callbacks read the adapter through a ref: a new adapter object must not recreate them
+    const adapterRef = useRef(storage ?? contextStorage ?? defaultStorage)
+    adapterRef.current = storage ?? contextStorage ?? defaultStorage
+
     const debounceTimerRef = useRef<NodeJS.Timeout | null>(null)
-    const lastSavedRef = useRef<number | null>(null)
+    const lastSavedRef = useRef<string | null>(null)
 
     // Build storage key
     const storageKey = persistKey ? `carousel-scroll-${persistKey}` : null
 
-    const getSavedPosition = useCallback((): number | null => {
+    const getSavedEntry = useCallback((): CarouselSavedPosition | null => {
         if (!storageKey) return null
 
-        try {
-            const stored = sessionStorage.getItem(storageKey)
-            if (stored === null) return null
-
-            const parsed = parseInt(stored, 10)
-            return Number.isFinite(parsed) ? parsed : null
-        } catch {
-            // sessionStorage may throw in private mode or when disabled
-            return null
-        }
+        const stored = adapterRef.current.getItem(storageKey)
+        return stored === null ? null : parseSavedPosition(stored)
     }, [storageKey])
 
-    const savePositionImmediate = useCallback((scrollLeft: number) => {
+    const getSavedPosition = useCallback((): number | null => {
+        return getSavedEntry()?.scrollLeft ?? null
+    }, [getSavedEntry])
+
+    const savePositionImmediate = useCallback((scrollLeft: number, anchor?: CarouselPositionAnchor) => {
         if (!storageKey) return
         if (!Number.isFinite(scrollLeft)) return
 
+        const serialized = serializeSavedPosition(scrollLeft, anchor)
+
         // Skip if value hasn't changed (optimization)
-        if (lastSavedRef.current === scrollLeft) return
-        lastSavedRef.current = scrollLeft
+        if (lastSavedRef.current === serialized) return
+        lastSavedRef.current = serialized
 
-        try {
-            sessionStorage.setItem(storageKey, String(Math.round(scrollLeft)))
-        } catch {
-            // sessionStorage may throw when full or in private mode
-        }
+        adapterRef.current.setItem(storageKey, serialized)
     }, [storageKey])
 
-    const savePosition = useCallback((scrollLeft: number) => {
+    const savePosition = useCallback((scrollLeft: number, anchor?: CarouselPositionAnchor) => {
         if (!storageKey) return
 
         // Clear previous debounce timer
@@ -95,19 +155,15 @@ export function useCarouselPersistence({
 
         // Debounce the save
         debounceTimerRef.current = setTimeout(() => {
-            savePositionImmediate(scrollLeft)
+            savePositionImmediate(scrollLeft, anchor)
         }, debounceMs)
     }, [storageKey, debounceMs, savePositionImmediate])
 
     const clearPosition = useCallback(() => {
         if (!storageKey) return
 
-        try {
-            sessionStorage.removeItem(storageKey)
-            lastSavedRef.current = null
-        } catch {
-            // Ignore errors
-        }
+        adapterRef.current.removeItem(storageKey)
+        lastSavedRef.current = null
     }, [storageKey])
 
     // Cleanup debounce timer on unmount
@@ -121,6 +177,7 @@ export function useCarouselPersistence({
 
     return {
         getSavedPosition,
+        getSavedEntry,
         savePosition,
         savePositionImmediate,
         clearPosition,
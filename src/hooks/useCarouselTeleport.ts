@@ -1,6 +1,10 @@
 import { useEffect, useRef } from 'react'
 import type { UseCarouselCoordinatorReturn } from './useCarouselCoordinator'
 import type { CarouselLoggerInstance } from '../logger'
+import type { ChildPosition } from './useCarouselVisuals'
+import { getIndexAtScroll, getScrollAtIndex } from '../utils'
+import { getAxis, type CarouselAlign, type CarouselDirection, type CarouselOrientation } from '../axis'
+import { getSlotElements } from '../slots'
 
 export interface UseCarouselTeleportOptions {
     /** Ref to the scrollable carousel container */
@@ -9,7 +13,7 @@ export interface UseCarouselTeleportOptions {
     infinite: boolean
     /** Number of items in the original set */
     itemsCount: number
-    /** Width of each card in pixels */
+    /** Size of each card along the scroll axis in pixels */
     cardWidth: number
     /** Gap between cards in pixels */
     gap: number
@@ -23,6 +27,17 @@ export interface UseCarouselTeleportOptions {
     preTeleportClearDelayMs: number
     /** Coordinator for state management (required - Phase 3) */
     coordinator: UseCarouselCoordinatorReturn
+    /**
+     * Per-item position table for variable-width items (from useCarouselVisuals).
+     * When provided, set and buffer widths are measured from it instead of multiples of one stride.
+     */
+    getItemPositions?: () => ChildPosition[]
+    /** Where items rest in the viewport (resting positions of the position table). Default: 'center' */
+    align?: CarouselAlign
+    /** Scroll axis. Default: 'horizontal' */
+    orientation?: CarouselOrientation
+    /** Text direction; 'rtl' mirrors horizontal scroll positions. Default: 'ltr' */
+    direction?: CarouselDirection
     /** Optional logger for debugging */
     logger?: CarouselLoggerInstance
 }
@@ -47,8 +62,13 @@ export function useCarouselTeleport({
     adjustScroll,
     preTeleportClearDelayMs,
     coordinator,
+    getItemPositions,
+    align = 'center',
+    orientation = 'horizontal',
+    direction,
     logger,
 }: UseCarouselTeleportOptions) {
+    const axis = getAxis(orientation, direction)
     // HYBRID STRATEGY: Track if last interaction was touch (mobile) to disable during-scroll teleport
     const isTouchInteraction = useRef(false)
     // Internal ref for scrollend listener (holds function reference, managed by this hook)
@@ -62,12 +82,29 @@ export function useCarouselTeleport({
     const applyVisualsRef = useRef(applyVisuals)
     const adjustScrollRef = useRef(adjustScroll)
     const loggerRef = useRef(logger)
+    const getItemPositionsRef = useRef(getItemPositions)
 
     // Sync refs on every render (no effect trigger)
     coordinatorRef.current = coordinator
     applyVisualsRef.current = applyVisuals
     adjustScrollRef.current = adjustScroll
     loggerRef.current = logger
+    getItemPositionsRef.current = getItemPositions
+
+    /**
+     * Variable width: one loop of the original set and the resting position of its first item,
+     * read from the position table (items may have resized since the last teleport).
+     * Returns null when there is no table, so callers fall back to the stride math.
+     */
+    const measureSetFromPositions = (el: HTMLElement): { originalSetWidth: number; bufferBeforeWidth: number } | null => {
+        const positions = getItemPositionsRef.current?.() ?? []
+        const setEnd = positions[bufferBeforeCount + itemsCount]
+        if (!setEnd) return null
+        return {
+            originalSetWidth: setEnd.start - positions[bufferBeforeCount].start,
+            bufferBeforeWidth: getScrollAtIndex(positions, bufferBeforeCount, axis.getClientSize(el), align),
+        }
+    }
 
     useEffect(() => {
         const el = containerRef.current
@@ -78,10 +115,9 @@ export function useCarouselTeleport({
         // CORRECTION: Measure real DOM stride to ensure teleport is visually perfect.
         // If we use calculated stride (162) vs real (166), teleporting 12 items (buffer)
         // results in a ~48px jump (misalignment) because 12 * 4px error = 48px.
-        if (infinite && el.children.length > 1) {
-            const firstChild = el.children[0] as HTMLElement
-            const secondChild = el.children[1] as HTMLElement
-            const domStride = secondChild.offsetLeft - firstChild.offsetLeft
+        const [firstSlot, secondSlot] = getSlotElements(el)
+        if (infinite && firstSlot && secondSlot) {
+            const domStride = axis.getOffset(secondSlot) - axis.getOffset(firstSlot)
 
             if (domStride > 0 && Math.abs(domStride - stride) > 1) {
                 loggerRef.current?.log('TELEPORT', `Using DOM stride for teleport accuracy`, { calculated: stride, measured: domStride })
@@ -89,8 +125,8 @@ export function useCarouselTeleport({
             }
         }
 
-        const originalSetWidth = itemsCount * stride
-        const bufferBeforeWidth = bufferBeforeCount * stride
+        const strideSetWidth = itemsCount * stride
+        const strideBufferWidth = bufferBeforeCount * stride
 
         let rafId: number | null = null
 
@@ -106,7 +142,11 @@ export function useCarouselTeleport({
                 return false
             }
 
-            const currentScroll = el.scrollLeft
+            const currentScroll = axis.getScroll(el)
+            const {
+                originalSetWidth,
+                bufferBeforeWidth,
+            } = measureSetFromPositions(el) ?? { originalSetWidth: strideSetWidth, bufferBeforeWidth: strideBufferWidth }
 
             if (currentScroll >= bufferBeforeWidth + originalSetWidth) {
                 // Teleport Back
@@ -121,10 +161,10 @@ export function useCarouselTeleport({
                     coordinatorRef.current.transition({ type: 'SET_TELEPORTING', value: true })
                     // Momentum cancel for desktop only
                     if (!isTouchInteraction.current) {
-                        el.scrollTo({ left: el.scrollLeft, behavior: 'auto' })
+                        el.scrollTo(axis.toScrollOptions(el, axis.getScroll(el), 'auto'))
                     }
                     const newPos = currentScroll - adjust
-                    el.scrollLeft = newPos
+                    axis.setScroll(el, newPos)
                     // Platform-optimized visuals
                     if (!isTouchInteraction.current) {
                         applyVisualsRef.current(el, newPos)
@@ -145,10 +185,10 @@ export function useCarouselTeleport({
                 coordinatorRef.current.transition({ type: 'SET_TELEPORTING', value: true })
                 // Momentum cancel for desktop only
                 if (!isTouchInteraction.current) {
-                    el.scrollTo({ left: el.scrollLeft, behavior: 'auto' })
+                    el.scrollTo(axis.toScrollOptions(el, axis.getScroll(el), 'auto'))
                 }
                 const newPos = currentScroll + originalSetWidth
-                el.scrollLeft = newPos
+                axis.setScroll(el, newPos)
                 // Platform-optimized visuals
                 if (!isTouchInteraction.current) {
                     applyVisualsRef.current(el, newPos)
@@ -203,17 +243,21 @@ export function useCarouselTeleport({
             // If we teleport mid-snap (e.g. at index 72.5), we kill momentum and the browser
             // snaps back to 72 instead of continuing to 73.
             // We must only teleport if we are effectively "settled" on a slot.
-            const currentScroll = el.scrollLeft
+            const currentScroll = axis.getScroll(el)
 
             // Calculate raw index to check alignment
             // Note: We need paddingOffset and stride. Stride is available in scope.
             // PaddingOffset we can infer from first child or assume standard centering.
+            // (A leading spacer of windowed rendering starts where slot 0 does.)
             let paddingOffset = 0
             if (el.children.length > 0) {
-                paddingOffset = (el.children[0] as HTMLElement).offsetLeft
+                paddingOffset = axis.getOffset(el.children[0] as HTMLElement)
             }
 
-            const rawIndex = (currentScroll - paddingOffset) / stride
+            const positions = getItemPositionsRef.current?.() ?? []
+            const rawIndex = positions.length > 0
+                ? getIndexAtScroll(positions, currentScroll, axis.getClientSize(el), align)
+                : (currentScroll - paddingOffset) / stride
             const snapSkew = Math.abs(rawIndex - Math.round(rawIndex))
 
             // Tolerance: 5% of a card width (e.g. ~8px for a 160px card)
@@ -240,10 +284,10 @@ export function useCarouselTeleport({
                 // SAFETY VALVE CHECK:
                 // We have a huge buffer (~6000px). Only teleport if we are running out of runway.
                 const SAFETY_THRESHOLD = 500 // pixels indicating "dangerously close to edge"
-                const maxScroll = el.scrollWidth - el.clientWidth
+                const maxScroll = axis.getScrollSize(el) - axis.getClientSize(el)
 
-                const isDangerouslyCloseToStart = el.scrollLeft < SAFETY_THRESHOLD
-                const isDangerouslyCloseToEnd = el.scrollLeft > maxScroll - SAFETY_THRESHOLD
+                const isDangerouslyCloseToStart = axis.getScroll(el) < SAFETY_THRESHOLD
+                const isDangerouslyCloseToEnd = axis.getScroll(el) > maxScroll - SAFETY_THRESHOLD
 
                 if (isDangerouslyCloseToStart || isDangerouslyCloseToEnd) {
                     loggerRef.current?.log('TELEPORT', '⚠️ SAFETY VALVE TRIGGERED: Teleporting during touch to prevent hitting wall')
@@ -267,9 +311,10 @@ export function useCarouselTeleport({
 
         loggerRef.current?.log('TELEPORT', 'Hybrid teleport handlers attached', {
             stride,
-            originalSetWidth,
-            bufferBeforeWidth,
-            itemsCount
+            originalSetWidth: strideSetWidth,
+            bufferBeforeWidth: strideBufferWidth,
+            itemsCount,
+            variableWidth: !!getItemPositionsRef.current
         })
 
         return () => {
@@ -279,7 +324,7 @@ export function useCarouselTeleport({
             if (rafId) cancelAnimationFrame(rafId)
             loggerRef.current?.log('TELEPORT', 'Scroll handlers removed')
         }
-    }, [containerRef, infinite, itemsCount, cardWidth, gap, bufferBeforeCount])
+    }, [containerRef, infinite, itemsCount, cardWidth, gap, bufferBeforeCount, align, axis])
 
     /**
      * Proactive pre-teleport for arrow navigation.
@@ -292,18 +337,19 @@ export function useCarouselTeleport({
         // Using calculated stride (cardWidth + gap) causes misalignment when DOM stride differs
         // e.g., calculated=232 vs DOM=236 → 40px drift per 10-item cycle
         let stride = cardWidth + gap
-        if (el.children.length > 1) {
-            const firstChild = el.children[0] as HTMLElement
-            const secondChild = el.children[1] as HTMLElement
-            const domStride = secondChild.offsetLeft - firstChild.offsetLeft
+        const [firstSlot, secondSlot] = getSlotElements(el)
+        if (firstSlot && secondSlot) {
+            const domStride = axis.getOffset(secondSlot) - axis.getOffset(firstSlot)
             if (domStride > 0 && Math.abs(domStride - stride) > 1) {
                 logger?.log('TELEPORT', 'preTeleport using DOM stride', { calculated: stride, measured: domStride })
                 stride = domStride
             }
         }
 
-        const originalSetWidth = itemsCount * stride
-        const bufferBeforeWidth = bufferBeforeCount * stride
+        const {
+            originalSetWidth,
+            bufferBeforeWidth,
+        } = measureSetFromPositions(el) ?? { originalSetWidth: itemsCount * stride, bufferBeforeWidth: bufferBeforeCount * stride }
 
         // Check if target is outside safe zone
         const needsLeftPreTeleport = targetScroll < bufferBeforeWidth
@@ -340,14 +386,14 @@ export function useCarouselTeleport({
 
         // STOP any ongoing smooth scroll animation first
         logger?.log('TELEPORT', 'Stopping ongoing smooth scroll...')
-        el.scrollTo({ left: el.scrollLeft, behavior: 'auto' })
+        el.scrollTo(axis.toScrollOptions(el, axis.getScroll(el), 'auto'))
 
         // Perform the instant teleport
         coordinator.transition({ type: 'SET_TELEPORTING', value: true })
-        const oldScrollLeft = el.scrollLeft
+        const oldScrollLeft = axis.getScroll(el)
         const newScrollLeft = oldScrollLeft + offset
-        el.scrollLeft = newScrollLeft
-        logger?.log('TELEPORT', `Instant teleport: ${oldScrollLeft.toFixed(1)} → ${el.scrollLeft.toFixed(1)}`)
+        axis.setScroll(el, newScrollLeft)
+        logger?.log('TELEPORT', `Instant teleport: ${oldScrollLeft.toFixed(1)} → ${axis.getScroll(el).toFixed(1)}`)
 
         // Apply visuals via RAF to avoid layout thrashing
         logger?.log('TELEPORT', 'Applying visuals after teleport...')
@@ -0,0 +1,123 @@
+import { useRef, useEffect, useCallback } from 'react'
+import { TIMING_CONFIG } from '../config'
+import type { CarouselLoggerInstance } from '../logger'
+
+/** URL sync configuration (the `urlSync` prop accepts `true` for defaults) */
+export interface CarouselUrlSyncOptions {
+    /** Param holding the active item's key. Defaults to 'slide' */
+    param?: string
+    /** 'query' (`?slide=key`) or 'hash' (`#slide=key`). Defaults to 'query' */
+    mode?: 'query' | 'hash'
+    /** Minimum delay between URL writes. Defaults to TIMING_CONFIG.URL_SYNC_THROTTLE_MS */
+    throttleMs?: number
+}
+
+export interface UseCarouselUrlSyncOptions extends CarouselUrlSyncOptions {
+    /** When false the URL is never read or written */
+    enabled: boolean
+    /** Back/forward navigation changed the key in the URL */
+    onNavigateToKey: (key: string) => void
+    /** Optional logger for debugging */
+    logger?: CarouselLoggerInstance
+}
+
+export interface UseCarouselUrlSyncReturn {
+    /** Item key currently in the URL (null when absent, disabled, or during SSR) */
+    readKey: () => string | null
+    /** Write the active item key to the URL (throttled, replaces the history entry) */
+    writeKey: (key: string) => void
+}
+
+/** Params of the query string or of a `#a=1&b=2` style hash */
+const getParams = (mode: 'query' | 'hash'): URLSearchParams => new URLSearchParams(
+    mode === 'hash' ? window.location.hash.slice(1) : window.location.search
+)
+
+/**
+ * Hook for deep-linkable carousels: mirrors the active item key in the URL.
+ *
+ * Writes use history.replaceState (swiping never floods the back stack) and are
+ * throttled with a trailing write, so the final position always lands in the URL
+ * while staying under the browsers' replaceState rate limits.
+ * Back/forward (popstate, and hashchange in hash mode) reports the URL key back.
+ */
+export function useCarouselUrlSync({
+    enabled,
+    param = 'slide',
+    mode = 'query',
+    throttleMs = TIMING_CONFIG.URL_SYNC_THROTTLE_MS,
+    onNavigateToKey,
+    logger,
+}: UseCarouselUrlSyncOptions): UseCarouselUrlSyncReturn {
+    const lastWriteTimeRef = useRef(0)
+    const pendingKeyRef = useRef<string | null>(null)
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const navigateRef = useRef(onNavigateToKey)
+    navigateRef.current = onNavigateToKey
+
+    const readKey = useCallback((): string | null => {
+        if (!enabled || typeof window === 'undefined') return null
+        return getParams(mode).get(param)
+    }, [enabled, mode, param])
+
+    const flush = useCallback(() => {
+        timerRef.current = null
+        const key = pendingKeyRef.current
+        pendingKeyRef.current = null
+        if (key === null || typeof window === 'undefined') return
+        lastWriteTimeRef.current = Date.now()
+
+        const params = getParams(mode)
+        if (params.get(param) === key) return
+        params.set(param, key)
+
+        try {
+            const url = new URL(window.location.href)
+            if (mode === 'hash') url.hash = params.toString()
+            else url.search = params.toString()
+            window.history.replaceState(window.history.state, '', url)
+            logger?.log('NAV', `URL ${param} → ${key}`)
+        } catch {
+            // Sandboxed frames may reject history updates
+        }
+    }, [mode, param, logger])
+
+    const writeKey = useCallback((key: string) => {
+        if (!enabled || typeof window === 'undefined') return
+        pendingKeyRef.current = key
+        if (timerRef.current) return
+
+        const wait = throttleMs - (Date.now() - lastWriteTimeRef.current)
+        if (wait <= 0) flush()
+        else timerRef.current = setTimeout(flush, wait)
+    }, [enabled, throttleMs, flush])
+
+    useEffect(() => {
+        if (!enabled || typeof window === 'undefined') return
+
+        const handleHistoryChange = () => {
+            // The URL is the source of truth here: drop any write still waiting
+            if (timerRef.current) clearTimeout(timerRef.current)
+            timerRef.current = null
+            pendingKeyRef.current = null
+
+            const key = getParams(mode).get(param)
+            if (key === null) return
+            logger?.log('NAV', `History navigation → ${param}=${key}`)
+            navigateRef.current(key)
+        }
+
+        window.addEventListener('popstate', handleHistoryChange)
+        if (mode === 'hash') window.addEventListener('hashchange', handleHistoryChange)
+        return () => {
+            window.removeEventListener('popstate', handleHistoryChange)
+            window.removeEventListener('hashchange', handleHistoryChange)
+        }
+    }, [enabled, mode, param, logger])
+
+    useEffect(() => () => {
+        if (timerRef.current) clearTimeout(timerRef.current)
+    }, [])
+
+    return { readKey, writeKey }
+}
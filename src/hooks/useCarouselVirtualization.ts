@@ -0,0 +1,120 @@
+import { useState, useEffect, useRef } from 'react'
+import { flushSync } from 'react-dom'
+import { LAYOUT_CONFIG } from '../config'
+import type { CarouselLoggerInstance } from '../logger'
+import { getAxis, type CarouselDirection, type CarouselOrientation } from '../axis'
+
+export interface UseCarouselVirtualizationOptions {
+    /** When false every slot is mounted */
+    enabled: boolean
+    /** Reference to the scrollable container */
+    containerRef: React.RefObject<HTMLElement | null>
+    /** Number of slots (clones included) */
+    slotCount: number
+    /** Number of clone slots before the originals (0 when finite) */
+    bufferBeforeCount: number
+    /** Distance between item starts in pixels (card width + gap) */
+    stride: number
+    /** Items mounted beyond each side of the viewport. Defaults to LAYOUT_CONFIG.VIRTUALIZATION_OVERSCAN */
+    overscan?: number
+    /** Real index the window starts centered on, before the first scroll is measured */
+    initialIndex?: number
+    /** Scroll axis (default: horizontal) */
+    orientation?: CarouselOrientation
+    /** Text direction; 'rtl' mirrors horizontal scroll positions. Default: 'ltr' */
+    direction?: CarouselDirection
+    /** Optional logger for debugging */
+    logger?: CarouselLoggerInstance
+}
+
+export interface UseCarouselVirtualizationReturn {
+    /** First mounted slot index */
+    start: number
+    /** One past the last mounted slot index */
+    end: number
+}
+
+interface RenderWindow {
+    /** Slot index the window is centered on */
+    center: number
+    /** Slots mounted on each side of the center */
+    radius: number
+}
+
+/** Viewport size used before the container is measured */
+const getFallbackViewportSize = () => (typeof window !== 'undefined' ? window.innerWidth : 1024)
+
+/**
+ * Hook for windowed rendering of large item lists.
+ *
+ * Only a contiguous window of slots around the viewport is mounted; the carousel renders
+ * spacers sized on the stride in place of the rest, so the scroll size, snap points and
+ * teleport offsets are unchanged. Item i rests at i * stride in every alignment, so the
+ * window follows the scroll position directly.
+ *
+ * The window re-centers only after the viewport drifts more than half the overscan,
+ * keeping re-renders to a handful per screen of scrolling. Jumps past the mounted window
+ * (teleports, instant goTo) render synchronously so the new position never paints empty.
+ */
+export function useCarouselVirtualization({
+    enabled,
+    containerRef,
+    slotCount,
+    bufferBeforeCount,
+    stride,
+    overscan = LAYOUT_CONFIG.VIRTUALIZATION_OVERSCAN,
+    initialIndex = 0,
+    orientation,
+    direction,
+    logger,
+}: UseCarouselVirtualizationOptions): UseCarouselVirtualizationReturn {
+    const axis = getAxis(orientation, direction)
+    const [renderWindow, setRenderWindow] = useState<RenderWindow>(() => ({
+        center: bufferBeforeCount + initialIndex,
+        radius: Math.ceil(getFallbackViewportSize() / Math.max(1, stride)) + overscan,
+    }))
+    // Mirrors the state for scroll listeners deciding whether a commit must be synchronous
+    const renderWindowRef = useRef(renderWindow)
+
+    useEffect(() => {
+        const el = containerRef.current
+        if (!enabled || !el || slotCount === 0 || stride <= 0) return
+
+        const update = (isScrollEvent: boolean) => {
+            const visibleCount = Math.max(1, Math.ceil(axis.getClientSize(el) / stride))
+            const radius = visibleCount + overscan
+            const prev = renderWindowRef.current
+            // Until the first scroll the carousel may not be positioned yet: keep the initial center
+            const center = isScrollEvent ? Math.round(axis.getScroll(el) / stride) : prev.center
+            const drift = Math.abs(center - prev.center)
+            if (prev.radius === radius && drift <= Math.floor(overscan / 2)) return
+
+            const next = { center, radius }
+            renderWindowRef.current = next
+            logger?.log('LAYOUT', `Render window → slot ${center} ± ${radius}`)
+            if (isScrollEvent && drift > prev.radius - visibleCount) {
+                // The viewport left the mounted slots: commit before the browser paints
+                flushSync(() => setRenderWindow(next))
+            } else {
+                setRenderWindow(next)
+            }
+        }
+
+        const handleScroll = () => update(true)
+        const handleResize = () => update(false)
+
+        update(false)
+        el.addEventListener('scroll', handleScroll, { passive: true })
+        window.addEventListener('resize', handleResize)
+        return () => {
+            el.removeEventListener('scroll', handleScroll)
+            window.removeEventListener('resize', handleResize)
+        }
+    }, [enabled, containerRef, slotCount, stride, overscan, axis, logger])
+
+    if (!enabled) return { start: 0, end: slotCount }
+    return {
+        start: Math.min(slotCount, Math.max(0, renderWindow.center - renderWindow.radius)),
+        end: Math.min(slotCount, Math.max(0, renderWindow.center + renderWindow.radius + 1)),
+    }
+}
@@ -1,6 +1,10 @@
-import { useCallback, useRef, useEffect } from 'react'
-import { VISUAL_CONFIG } from '../config'
+import { useCallback, useRef, useEffect, useMemo } from 'react'
+import { LAYOUT_CONFIG, VISUAL_CONFIG } from '../config'
 import type { CarouselLoggerInstance } from '../logger'
+import { getAlignedScroll, getItemRangeInView } from '../utils'
+import { getAxis, type CarouselAlign, type CarouselDirection, type CarouselOrientation } from '../axis'
+import { createScaleOpacityEffect, type CarouselEffect, type CarouselEffectContext } from '../effects'
+import { getSlotElement, getSlotElements, getSlotIndex } from '../slots'
 
 export interface UseCarouselVisualsOptions {
     /** Layout measurements */
@@ -9,40 +13,86 @@ export interface UseCarouselVisualsOptions {
     itemsCount: number
     /** Buffer items before original set */
     bufferBeforeCount: number
+    /**
+     * Number of slots (clones included). With windowed rendering only some are mounted:
+     * the rest are placed on the stride of the mounted ones. Defaults to the mounted count.
+     */
+    slotCount?: number
     /** Disable opacity effect */
     disableOpacityEffect: boolean
     /** Disable scale effect */
     disableScaleEffect: boolean
+    /** Items have different sizes: cull from the position cache instead of the stride */
+    variableWidth?: boolean
+    /** Scroll axis. Default: 'horizontal' */
+    orientation?: CarouselOrientation
+    /** Text direction; 'rtl' mirrors horizontal scroll positions. Default: 'ltr' */
+    direction?: CarouselDirection
+    /** Custom effects, run in order; replace the default scale/opacity effect when non-empty */
+    effects?: CarouselEffect[]
+    /**
+     * Write per-item progress as CSS custom properties (`--carousel-progress` clamped to -1..1,
+     * `--carousel-distance`, `--carousel-is-active`) for stylesheet-driven effects
+     */
+    cssProgress?: boolean
+    /** Resting alignment that effect progress is measured from. Default: 'center' */
+    align?: CarouselAlign
+    /** Inset from the viewport edge for 'start' / 'end' alignment. Default: LAYOUT_CONFIG.EDGE_INSET */
+    edgeInset?: number
     /** Optional logger for debugging */
     logger?: CarouselLoggerInstance
 }
 
+/** Cached child geometry along the scroll axis */
 export interface ChildPosition {
-    left: number
-    width: number
+    /** offsetLeft / offsetTop */
+    start: number
+    /** offsetWidth / offsetHeight */
+    size: number
 }
 
 /**
  * Hook that manages visual effects for carousel items.
  * Handles:
- * - Position cache for children (offsetLeft, offsetWidth)
- * - Container width cache (to avoid layout thrashing)
- * - Apply visual effects (scale, opacity, shadow, z-index)
+ * - Position cache for children (offset and size along the axis)
+ * - Container size cache (to avoid layout thrashing)
+ * - Apply visual effects (default scale/opacity, or custom effect plugins)
  * - Viewport culling (skip items outside visible area)
  */
 export function useCarouselVisuals({
     layout,
     itemsCount,
     bufferBeforeCount,
+    slotCount,
     disableOpacityEffect,
     disableScaleEffect,
+    variableWidth = false,
+    orientation = 'horizontal',
+    direction = 'ltr',
+    effects,
+    cssProgress = false,
+    align = 'center',
+    edgeInset = LAYOUT_CONFIG.EDGE_INSET,
     logger,
 }: UseCarouselVisualsOptions) {
+    const axis = getAxis(orientation, direction)
+
+    // Effects are usually inline arrays: read them from a ref so applyVisuals stays stable
+    const effectsRef = useRef(effects)
+    effectsRef.current = effects
+
+    const defaultEffects = useMemo(
+        () => disableOpacityEffect && disableScaleEffect
+            ? []
+            : [createScaleOpacityEffect({ opacity: !disableOpacityEffect, scale: !disableScaleEffect })],
+        [disableOpacityEffect, disableScaleEffect]
+    )
+
     // Position cache for all children
     const childrenPositions = useRef<ChildPosition[]>([])
     const isCacheDirty = useRef(true)
 
-    // Container width cache (avoids reflow when reading clientWidth after scrollLeft write)
+    // Container size cache (avoids reflow when reading clientWidth after scrollLeft write)
     const containerWidthRef = useRef(0)
     const isContainerWidthDirty = useRef(true)
 
@@ -54,70 +104,82 @@ export function useCarouselVisuals({
     }, [itemsCount, bufferBeforeCount, logger])
 
     /**
-     * Update the position cache for all children
+     * Update the position cache for all slots
      */
     const updateCache = useCallback((el: HTMLElement) => {
-        childrenPositions.current = Array.from(el.children).map((child) => {
-            const node = child as HTMLElement
-            return {
-                left: node.offsetLeft,
-                width: node.offsetWidth,
-            }
-        })
-        logger?.log('VISUALS', 'Updated positions cache', { count: childrenPositions.current.length })
-    }, [logger])
+        const slots = getSlotElements(el)
+        const measured = slots.map((node) => ({
+            start: axis.getOffset(node),
+            size: axis.getSize(node),
+        }))
+        const total = slotCount ?? measured.length
+        if (measured.length === 0 || measured.length >= total) {
+            childrenPositions.current = measured
+        } else {
+            // Windowed rendering: unmounted slots sit on the stride of the mounted ones
+            const firstIndex = getSlotIndex(el, slots[0])
+            const stride = measured.length > 1 ? measured[1].start - measured[0].start : layout.cardWidth + layout.gap
+            childrenPositions.current = Array.from({ length: total }, (_, i) => measured[i - firstIndex] ?? {
+                start: measured[0].start + (i - firstIndex) * stride,
+                size: measured[0].size,
+            })
+        }
+        logger?.log('VISUALS', 'Updated positions cache', { count: childrenPositions.current.length, mounted: measured.length })
+    }, [slotCount, layout, axis, logger])
 
     /**
-     * Apply visual effects (scale, opacity, shadow) to visible items
+     * Apply visual effects to visible items
      * Uses position cache to avoid layout thrashing
      */
-    const applyVisuals = useCallback((el: HTMLElement, overrideScrollLeft?: number) => {
+    const applyVisuals = useCallback((el: HTMLElement, overrideScroll?: number) => {
         // OPTIMIZATION: Use override value if provided to avoid DOM Read after Write
-        const currentScrollLeft = overrideScrollLeft ?? el.scrollLeft
+        const currentScroll = overrideScroll ?? axis.getScroll(el)
 
         // Cache container width to avoid reflow
         if (isContainerWidthDirty.current || containerWidthRef.current === 0) {
-            containerWidthRef.current = el.clientWidth
+            containerWidthRef.current = axis.getClientSize(el)
             isContainerWidthDirty.current = false
         }
 
-        const containerCenter = currentScrollLeft + containerWidthRef.current / 2
+        const viewportSize = containerWidthRef.current
+        const containerCenter = currentScroll + viewportSize / 2
         if (childrenPositions.current.length === 0) {
             logger?.log('VISUALS', 'Skipping: positions cache empty')
             return
         }
         const positions = childrenPositions.current
 
-        // Skip if both effects are disabled
-        if (disableOpacityEffect && disableScaleEffect) return
+        const customEffects = effectsRef.current
+        const activeEffects = customEffects && customEffects.length > 0 ? customEffects : defaultEffects
+
+        // Skip if both default effects are disabled and nothing replaces them
+        if (activeEffects.length === 0 && !cssProgress) return
 
         // Responsive breakpoints
         const width = window.innerWidth
-        const isMobile = width < 640
-        const isTablet = width < 1024
-
-        const maxDist = isMobile
-            ? VISUAL_CONFIG.MAX_DIST_MOBILE
-            : isTablet
-                ? VISUAL_CONFIG.MAX_DIST_TABLET
-                : VISUAL_CONFIG.MAX_DIST_DESKTOP
-        const baseScale = isMobile
-            ? VISUAL_CONFIG.BASE_SCALE_MOBILE
-            : isTablet
-                ? VISUAL_CONFIG.BASE_SCALE_TABLET
-                : VISUAL_CONFIG.BASE_SCALE_DESKTOP
-        const scaleRange = 1 - baseScale
+        const breakpoint = width < 640 ? 'mobile' : width < 1024 ? 'tablet' : 'desktop'
+
+        // OPTIMIZATION: One context object per frame, mutated per item (no per-item allocation)
+        const context: CarouselEffectContext = {
+            index: 0,
+            size: 0,
+            viewportSize,
+            centerDistance: 0,
+            breakpoint,
+            orientation,
+            direction,
+        }
 
         // Viewport culling bounds
-        const viewStart = currentScrollLeft - VISUAL_CONFIG.VIEW_BUFFER
-        const viewEnd = currentScrollLeft + containerWidthRef.current + VISUAL_CONFIG.VIEW_BUFFER
+        const viewStart = currentScroll - VISUAL_CONFIG.VIEW_BUFFER
+        const viewEnd = currentScroll + containerWidthRef.current + VISUAL_CONFIG.VIEW_BUFFER
 
-        // OPTIMIZATION: Iterate HTMLCollection directly to avoid Array allocation (GC pressure)
-        const count = el.children.length
+        // One entry per slot, mounted or not
+        const count = positions.length
 
         // Calculate stride for index-based culling
         const stride = layout.cardWidth + layout.gap
-        const firstItemLeft = positions[0]?.left ?? 0
+        const firstItemStart = positions[0]?.start ?? 0
 
         // Calculate visible index range
         // We add a safety buffer of +/- 4 items to ensure we don't accidentally cull partially visible items due to sub-pixel rounding
@@ -125,14 +187,19 @@ export function useCarouselVisuals({
         let startIndex = 0
         let endIndex = count
 
-        if (stride > 0) {
-            // Formula: itemLeft = firstItemLeft + index * stride
-            // Want: itemLeft + itemWidth > viewStart  -> index > (viewStart - itemWidth - firstItemLeft) / stride
-            startIndex = Math.floor((viewStart - layout.cardWidth - firstItemLeft) / stride) - 4
+        if (variableWidth) {
+            // No common stride: binary-search the cached positions (same +/- 4 safety buffer)
+            const range = getItemRangeInView(positions, viewStart, viewEnd)
+            startIndex = Math.max(0, range.start - 4)
+            endIndex = Math.min(count, range.end + 4)
+        } else if (stride > 0) {
+            // Formula: itemStart = firstItemStart + index * stride
+            // Want: itemStart + itemSize > viewStart  -> index > (viewStart - itemSize - firstItemStart) / stride
+            startIndex = Math.floor((viewStart - layout.cardWidth - firstItemStart) / stride) - 4
             startIndex = Math.max(0, startIndex)
 
-            // Want: itemLeft < viewEnd -> index < (viewEnd - firstItemLeft) / stride
-            endIndex = Math.ceil((viewEnd - firstItemLeft) / stride) + 4
+            // Want: itemStart < viewEnd -> index < (viewEnd - firstItemStart) / stride
+            endIndex = Math.ceil((viewEnd - firstItemStart) / stride) + 4
             endIndex = Math.min(count, endIndex)
         }
 
@@ -140,45 +207,35 @@ export function useCarouselVisuals({
         let processedCount = 0
 
         for (let i = startIndex; i < endIndex; i++) {
-            const child = el.children[i] as HTMLElement
+            const child = getSlotElement(el, i)
             const pos = positions[i]
-            if (!pos) continue
+            if (!child || !pos) continue
 
             // Double check bounds (cheap) just in case calc was off
-            if (pos.left + pos.width < viewStart || pos.left > viewEnd) {
+            if (pos.start + pos.size < viewStart || pos.start > viewEnd) {
                 continue
             }
 
             processedCount++
 
-            const childCenter = pos.left + pos.width / 2
-            const dist = Math.abs(containerCenter - childCenter)
-
-            // Cubic easing for smooth falloff
-            const normDist = Math.min(dist / maxDist, 1)
-            const factor = 1 - normDist
-            const easeFactor = 1 - Math.pow(1 - factor, 3)
-
-            const opacity = 0.5 + (0.5 * easeFactor)
-
-            if (!disableOpacityEffect) {
-                child.style.opacity = `${opacity}`
-                if (dist < VISUAL_CONFIG.CENTER_THRESHOLD) child.style.opacity = '1'
-            }
+            context.index = i
+            context.size = pos.size
+            context.centerDistance = pos.start + pos.size / 2 - containerCenter
 
-            const zIndex = Math.round(easeFactor * 100)
-            child.style.zIndex = `${zIndex}`
+            // Signed distance in items from the resting position of the active item
+            const itemStride = variableWidth ? pos.size + layout.gap : stride
+            const restingScroll = getAlignedScroll(pos.start, pos.size, viewportSize, align, edgeInset)
+            const progress = itemStride > 0 ? (restingScroll - currentScroll) / itemStride : 0
 
-            // PERF: Dynamic box-shadow animations trigger a "Paint" on every frame, which is very expensive (>1ms/frame).
-            // We disable this by default to maintain 60fps, especially with many items on screen.
-            if (!disableScaleEffect && !VISUAL_CONFIG.DISABLE_DYNAMIC_SHADOW) {
-                const shadowOpacity = 0.12 * easeFactor
-                child.style.boxShadow = `0 10px 20px -5px rgba(0, 0, 0, ${shadowOpacity})`
+            if (cssProgress) {
+                const distance = Math.abs(progress)
+                child.style.setProperty('--carousel-progress', Math.max(-1, Math.min(progress, 1)).toFixed(3))
+                child.style.setProperty('--carousel-distance', distance.toFixed(3))
+                child.style.setProperty('--carousel-is-active', distance < 0.5 ? '1' : '0')
             }
 
-            if (!disableScaleEffect) {
-                const scale = baseScale + (scaleRange * easeFactor)
-                child.style.transform = `scale(${scale})`
+            for (let e = 0; e < activeEffects.length; e++) {
+                activeEffects[e](progress, child, context)
             }
         }
 
@@ -191,7 +248,7 @@ export function useCarouselVisuals({
                 range: `${startIndex}-${endIndex}`
             })
         }
-    }, [disableOpacityEffect, disableScaleEffect, logger, layout])
+    }, [defaultEffects, cssProgress, variableWidth, orientation, direction, align, edgeInset, logger, layout, axis])
 
     return {
         /** Position cache for all children */
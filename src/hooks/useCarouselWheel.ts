@@ -0,0 +1,171 @@
+import { useRef, useEffect, useCallback } from 'react'
+import { LAYOUT_CONFIG, TIMING_CONFIG } from '../config'
+import type { CarouselLoggerInstance } from '../logger'
+import { getAxis, type CarouselDirection, type CarouselOrientation } from '../axis'
+
+/** How a wheel gesture was classified */
+export type CarouselWheelInput = 'notch' | 'trackpad'
+
+export interface CarouselWheelOptions {
+    /** Vertical wheel and trackpad movement scrolls a horizontal carousel. Default: true */
+    mapVertical?: boolean
+    /** Each discrete mouse-wheel notch advances exactly one slide. Default: true */
+    stepPerNotch?: boolean
+}
+
+export interface UseCarouselWheelOptions extends CarouselWheelOptions {
+    /** Reference to the scrollable container */
+    containerRef: React.RefObject<HTMLElement | null>
+    /** When false, wheel input is left to the browser and only interrupts programmatic scrolls */
+    enabled: boolean
+    /** Whether a notch may step now (e.g. not mid-teleport) */
+    canStep: () => boolean
+    /** Advance one slide for a discrete notch */
+    onStep: (direction: -1 | 1) => void
+    /** The user took over scrolling (trackpad gesture, or any wheel input when disabled) */
+    onInterrupt: () => void
+    /** Scroll axis. Default: 'horizontal' */
+    orientation?: CarouselOrientation
+    /** In 'rtl' horizontal carousels a rightward wheel moves backward. Default: 'ltr' */
+    direction?: CarouselDirection
+    /** Optional logger for debugging */
+    logger?: CarouselLoggerInstance
+}
+
+export interface UseCarouselWheelReturn {
+    /** Classification of the current wheel gesture (null when no gesture is in progress) */
+    getInputType: () => CarouselWheelInput | null
+}
+
+// Line / page deltas (Firefox mouse wheels) and large whole-pixel deltas are mouse notches;
+// trackpads start their streams with small, often fractional deltas
+const isNotchDelta = (deltaMode: number, delta: number): boolean =>
+    deltaMode !== 0 || (Number.isInteger(delta) && Math.abs(delta) >= LAYOUT_CONFIG.WHEEL_NOTCH_MIN_DELTA)
+
+// Line and page deltas in px, for manually applied scrolling
+const LINE_HEIGHT_PX = 16
+
+/**
+ * Hook for mouse-wheel and trackpad input.
+ *
+ * Wheel events closer than WHEEL_STREAM_GAP_MS form one gesture, classified by its first event:
+ * - Discrete notches (mouse wheels) step exactly one slide each through `onStep`
+ * - Trackpad streams (including their inertial tail) scroll natively with CSS snap suspended,
+ *   so the snap settles once when the stream ends instead of fighting teleports mid-gesture
+ * Vertical input optionally drives horizontal carousels. Listeners are attached natively
+ * because React wheel listeners are passive and cannot preventDefault.
+ */
+export function useCarouselWheel({
+    containerRef,
+    enabled,
+    mapVertical = true,
+    stepPerNotch = true,
+    canStep,
+    onStep,
+    onInterrupt,
+    orientation = 'horizontal',
+    direction = 'ltr',
+    logger,
+}: UseCarouselWheelOptions): UseCarouselWheelReturn {
+    const axis = getAxis(orientation, direction)
+
+    // Callbacks are usually recreated every render: read them from refs so listeners attach once
+    const callbacksRef = useRef({ canStep, onStep, onInterrupt })
+    callbacksRef.current = { canStep, onStep, onInterrupt }
+
+    const inputTypeRef = useRef<CarouselWheelInput | null>(null)
+    const lastEventTimeRef = useRef(-Infinity)
+    const streamEndTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const isSnapSuspendedRef = useRef(false)
+
+    useEffect(() => {
+        const el = containerRef.current
+        if (!el) return
+
+        const endStream = () => {
+            streamEndTimeoutRef.current = null
+            inputTypeRef.current = null
+            if (isSnapSuspendedRef.current) {
+                isSnapSuspendedRef.current = false
+                el.style.scrollSnapType = ''
+                logger?.log('INTERACT', 'Wheel: stream ended, snap restored')
+            }
+        }
+
+        const handleWheel = (e: WheelEvent) => {
+            if (!enabled) {
+                callbacksRef.current.onInterrupt()
+                return
+            }
+
+            // Trackpad pinch-zoom arrives as ctrl+wheel: leave it to the browser
+            if (e.ctrlKey) return
+
+            // Movement along the carousel, positive toward the end
+            const isHorizontalIntent = Math.abs(e.deltaX) > Math.abs(e.deltaY)
+            let delta: number
+            let isMapped = false
+            if (orientation === 'vertical') {
+                if (isHorizontalIntent) return
+                delta = e.deltaY
+            } else if (isHorizontalIntent) {
+                delta = direction === 'rtl' ? -e.deltaX : e.deltaX
+            } else if (mapVertical) {
+                delta = e.deltaY
+                isMapped = true
+            } else {
+                return // Vertical wheel keeps scrolling the page
+            }
+            if (delta === 0) return
+
+            const now = performance.now()
+            const isNewStream = now - lastEventTimeRef.current > TIMING_CONFIG.WHEEL_STREAM_GAP_MS
+            lastEventTimeRef.current = now
+
+            if (isNewStream || inputTypeRef.current === null) {
+                inputTypeRef.current = isNotchDelta(e.deltaMode, delta) ? 'notch' : 'trackpad'
+                logger?.log('INTERACT', `Wheel: ${inputTypeRef.current} stream started`, { delta, deltaMode: e.deltaMode })
+            }
+            const isStepping = inputTypeRef.current === 'notch' && stepPerNotch
+
+            if (isStepping) {
+                e.preventDefault()
+                if (callbacksRef.current.canStep()) {
+                    callbacksRef.current.onStep(delta > 0 ? 1 : -1)
+                } else {
+                    logger?.log('INTERACT', 'Wheel: notch ignored while the carousel is blocked')
+                }
+            } else {
+                if (isNewStream) callbacksRef.current.onInterrupt()
+                // Suspend snapping until the stream (and its inertia) ends
+                if (!isSnapSuspendedRef.current) {
+                    isSnapSuspendedRef.current = true
+                    el.style.scrollSnapType = 'none'
+                }
+                if (isMapped) {
+                    // The browser would scroll the page: move the carousel instead
+                    e.preventDefault()
+                    const scale = e.deltaMode === 1 ? LINE_HEIGHT_PX : e.deltaMode === 2 ? axis.getClientSize(el) : 1
+                    axis.setScroll(el, axis.getScroll(el) + delta * scale)
+                }
+            }
+
+            if (streamEndTimeoutRef.current) clearTimeout(streamEndTimeoutRef.current)
+            streamEndTimeoutRef.current = setTimeout(endStream, TIMING_CONFIG.WHEEL_STREAM_GAP_MS)
+        }
+
+        el.addEventListener('wheel', handleWheel, { passive: false })
+
+        return () => {
+            el.removeEventListener('wheel', handleWheel)
+            if (streamEndTimeoutRef.current) {
+                clearTimeout(streamEndTimeoutRef.current)
+                endStream()
+            }
+        }
+    }, [containerRef, enabled, mapVertical, stepPerNotch, orientation, direction, axis, logger])
+
+    const getInputType = useCallback(() => inputTypeRef.current, [])
+
+    return { getInputType }
+}
@@ -1,47 +1,215 @@
 import { useRef, useState, useCallback, useEffect, type PointerEvent as ReactPointerEvent, type MouseEvent } from 'react'
+import { getAxis, type CarouselAlign, type CarouselDirection, type CarouselOrientation } from '../axis'
+import { getSlotElements } from '../slots'
+import { LAYOUT_CONFIG } from '../config'
+import { getAlignedScroll, getFlickTargetIndex, getMomentumDistance } from '../utils'
+
+/** Tuning for mouse drag momentum, edge rubber-banding and snapping */
+export interface CarouselPhysics {
+    /** Momentum decay per frame (closer to 1 glides further) */
+    friction: number
+    /** Maximum momentum speed */
+    maxVelocity: number
+    /** Minimum release velocity to trigger momentum (slower releases just snap) */
+    minVelocity: number
+    /** How quickly tracked velocity responds to pointer input (0..1) */
+    velocitySmoothing: number
+    /** How far to bounce when momentum hits an edge (px) */
+    bounceDistance: number
+    /** Bounce animation duration (ms) */
+    bounceDuration: number
+    /** How hard it is to pull past an edge (lower = more resistance) */
+    pullResistance: number
+    /** Maximum edge pull distance (px) */
+    maxPullDistance: number
+    /** How fast an edge pull snaps back on release (ms) */
+    snapBackDuration: number
+    /** Duration of the snap-to-item animation (ms) */
+    snapDuration: number
+    /** Momentum speed below which the carousel snaps to the nearest item */
+    snapThreshold: number
+}
 
-// Configuration constants
-const MAX_VELOCITY = 500          // Maximum momentum speed
-const MIN_VELOCITY_THRESHOLD = 10 // Minimum velocity to trigger momentum
-const FRICTION = 0.96              // Momentum decay per frame
-const VELOCITY_SMOOTHING = 0.15    // How quickly velocity responds to input
-
-// Bounce effect constants
-const BOUNCE_DISTANCE = 35        // How far to bounce on momentum hit (pixels)
-const BOUNCE_DURATION = 400       // Bounce animation duration (ms)
-
-// Rubber band pull constants
-const PULL_RESISTANCE = 0.35      // How hard it is to pull at edges (lower = more resistance)
-const MAX_PULL_DISTANCE = 80      // Maximum pull distance (pixels)
-const SNAP_BACK_DURATION = 250    // How fast it snaps back when released (ms)
+export type CarouselPhysicsPreset = 'default' | 'ios' | 'android' | 'heavy' | 'free'
+
+/** A named preset, or individual overrides on top of one (`preset` defaults to 'default') */
+export type CarouselPhysicsOptions = CarouselPhysicsPreset | (Partial<CarouselPhysics> & { preset?: CarouselPhysicsPreset })
+
+export const PHYSICS_PRESETS: Record<CarouselPhysicsPreset, CarouselPhysics> = {
+    default: {
+        friction: 0.96,
+        maxVelocity: 500,
+        minVelocity: 10,
+        velocitySmoothing: 0.15,
+        bounceDistance: 35,
+        bounceDuration: 400,
+        pullResistance: 0.35,
+        maxPullDistance: 80,
+        snapBackDuration: 250,
+        snapDuration: 200,
+        snapThreshold: 30,
+    },
+    // Long glide, soft and deep rubber band, unhurried settle
+    ios: {
+        friction: 0.975,
+        maxVelocity: 600,
+        minVelocity: 8,
+        velocitySmoothing: 0.2,
+        bounceDistance: 45,
+        bounceDuration: 500,
+        pullResistance: 0.5,
+        maxPullDistance: 120,
+        snapBackDuration: 350,
+        snapDuration: 300,
+        snapThreshold: 20,
+    },
+    // Shorter glide, stiff edges, quick settle
+    android: {
+        friction: 0.94,
+        maxVelocity: 450,
+        minVelocity: 12,
+        velocitySmoothing: 0.25,
+        bounceDistance: 20,
+        bounceDuration: 300,
+        pullResistance: 0.2,
+        maxPullDistance: 50,
+        snapBackDuration: 200,
+        snapDuration: 180,
+        snapThreshold: 40,
+    },
+    // Damped and deliberate: for large media where flicking past items is unwanted
+    heavy: {
+        friction: 0.9,
+        maxVelocity: 250,
+        minVelocity: 20,
+        velocitySmoothing: 0.1,
+        bounceDistance: 15,
+        bounceDuration: 350,
+        pullResistance: 0.2,
+        maxPullDistance: 40,
+        snapBackDuration: 300,
+        snapDuration: 320,
+        snapThreshold: 45,
+    },
+    // Low friction and a high speed cap, snapping only once nearly stopped
+    free: {
+        friction: 0.985,
+        maxVelocity: 900,
+        minVelocity: 5,
+        velocitySmoothing: 0.2,
+        bounceDistance: 35,
+        bounceDuration: 400,
+        pullResistance: 0.35,
+        maxPullDistance: 80,
+        snapBackDuration: 250,
+        snapDuration: 200,
+        snapThreshold: 10,
+    },
+}
 
-// Snap-to-item constants
-const SNAP_DURATION = 200         // Duration of snap animation (ms)
-const SNAP_THRESHOLD = 30         // Minimum velocity to consider for snap direction
+/**
+ * Resolve a physics option to a full profile. Unknown presets fall back to 'default'.
+ */
+export function resolvePhysics(physics: CarouselPhysicsOptions = 'default'): CarouselPhysics {
+    if (typeof physics === 'string') return PHYSICS_PRESETS[physics] ?? PHYSICS_PRESETS.default
+    const { preset = 'default', ...overrides } = physics
+    const base = PHYSICS_PRESETS[preset] ?? PHYSICS_PRESETS.default
+    // Drop explicit undefined overrides so they don't erase preset values
+    const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined))
+    return { ...base, ...defined }
+}
 
+/** Rubber-band curve: resistance grows toward maxPullDistance, which is never exceeded */
+const getDampedPull = (pull: number, maxPullDistance: number): number => {
+    const absPull = Math.min(Math.abs(pull), maxPullDistance)
+    return Math.sign(pull) * Math.sqrt(absPull / maxPullDistance) * maxPullDistance
+}
 
+/** Free-mode scrolling: momentum decays naturally instead of ending on an item */
+export interface CarouselFreeModeOptions {
+    /** Settle onto the nearest item once momentum slows below `stickyThreshold`. Default: false */
+    sticky?: boolean
+    /** Momentum speed below which a sticky free mode settles. Default: the physics `snapThreshold` */
+    stickyThreshold?: number
+}
 
 interface UseDraggableScrollOptions {
     infinite?: boolean
     hasNextPage?: boolean
     onEndReached?: () => void
+    hasPreviousPage?: boolean
+    onStartReached?: () => void
     cardWidth?: number
     gap?: number
     cloneCount?: number
+    /** Drag feel: a preset name or overrides on top of one. Default: 'default' */
+    physics?: CarouselPhysicsOptions
+    /** Let momentum stop anywhere (optionally settling once slow); `true` for plain free mode */
+    freeMode?: boolean | CarouselFreeModeOptions
+    /**
+     * Flick navigation: project the landing position from release velocity and settle on the item
+     * there, at most this many items from where the gesture started (mouse drag and touch)
+     */
+    maxSlidesPerSwipe?: number
+    /**
+     * Rubber-band pull at the edges of finite carousels for native touch scrolling too
+     * (mouse and pen drags always pull). Default: false
+     */
+    touchOverscroll?: boolean
+    /** An edge pull (mouse or touch) started: the container is translated past its edge */
+    onEdgePullStart?: () => void
+    /** The edge pull was released and has snapped back (or was cancelled) */
+    onEdgePullEnd?: () => void
+    /** Resting alignment of items, for snap targets. Default: 'center' */
+    align?: CarouselAlign
+    /** Inset from the viewport edge for 'start' / 'end' alignment. Default: LAYOUT_CONFIG.EDGE_INSET */
+    edgeInset?: number
+    /** Overrides `physics.friction` */
     friction?: number
+    /** Overrides `physics.maxVelocity` */
     maxVelocity?: number
+    orientation?: CarouselOrientation
+    /** Text direction; 'rtl' mirrors horizontal scroll positions. Default: 'ltr' */
+    direction?: CarouselDirection
 }
 
 export function useDraggableScroll({
     infinite = false,
     hasNextPage = false,
     onEndReached,
+    hasPreviousPage = false,
+    onStartReached,
     cardWidth = 320,
     gap = 24,
     cloneCount = 3,
+    physics,
+    freeMode = false,
+    maxSlidesPerSwipe,
+    touchOverscroll = false,
+    onEdgePullStart,
+    onEdgePullEnd,
+    align = 'center',
+    edgeInset = LAYOUT_CONFIG.EDGE_INSET,
     friction,
     maxVelocity,
+    orientation,
+    direction,
 }: UseDraggableScrollOptions = {}) {
+    const axis = getAxis(orientation, direction)
+
+    // Physics is usually an inline object: read it from a ref so the handlers stay stable
+    const resolvedPhysics = resolvePhysics(physics)
+    const physicsRef = useRef(resolvedPhysics)
+    physicsRef.current = {
+        ...resolvedPhysics,
+        friction: friction ?? resolvedPhysics.friction,
+        maxVelocity: maxVelocity ?? resolvedPhysics.maxVelocity,
+    }
+
+    // Same for free mode options: null when momentum always ends on an item
+    const freeModeRef = useRef<CarouselFreeModeOptions | null>(null)
+    freeModeRef.current = freeMode === true ? {} : freeMode || null
+
     const ref = useRef<HTMLDivElement>(null)
     const [isDragging, setIsDragging] = useState(false)
 
@@ -63,11 +231,35 @@ export function useDraggableScroll({
     const startedAtLeftEdge = useRef(false)
     const startedAtRightEdge = useRef(false)
     const isBouncing = useRef(false)
-    const lastEndReachedTime = useRef(0)
+    // -Infinity: the first call must not wait for the throttle window after page load
+    const lastEndReachedTime = useRef(-Infinity)
+    const lastStartReachedTime = useRef(-Infinity)
 
     // Infinite scroll state
     const stride = cardWidth + gap
 
+    // Edge pulls are reported once per pull so the parent can hold its bounce phase
+    const edgePullCallbacksRef = useRef({ onEdgePullStart, onEdgePullEnd })
+    edgePullCallbacksRef.current = { onEdgePullStart, onEdgePullEnd }
+    const isEdgePullActive = useRef(false)
+
+    const setEdgePullActive = useCallback((active: boolean) => {
+        if (isEdgePullActive.current === active) return
+        isEdgePullActive.current = active
+        if (active) edgePullCallbacksRef.current.onEdgePullStart?.()
+        else edgePullCallbacksRef.current.onEdgePullEnd?.()
+    }, [])
+
+    // A touch flick holds native scrolling (overflow and CSS snap) until its landing ends
+    const isFlickHoldingScroll = useRef(false)
+
+    const setFlickHoldingScroll = useCallback((el: HTMLElement, holding: boolean) => {
+        if (isFlickHoldingScroll.current === holding) return
+        isFlickHoldingScroll.current = holding
+        el.style.overflow = holding ? 'hidden' : ''
+        el.style.scrollSnapType = holding ? 'none' : ''
+    }, [])
+
     const cancelAnimation = useCallback((force = false) => {
         if (isBouncing.current && !force) return
 
@@ -77,38 +269,45 @@ export function useDraggableScroll({
         }
         if (ref.current) {
             ref.current.style.transform = ''
+            // An interrupted flick landing (arrows, goTo, wheel, a new touch) hands scrolling back
+            setFlickHoldingScroll(ref.current, false)
         }
         currentPullOffset.current = 0
         isPullingEdge.current = false
         isBouncing.current = false
-    }, [])
+        setEdgePullActive(false)
+    }, [setEdgePullActive, setFlickHoldingScroll])
+
+    // Resting scroll position of every child (aligned like CSS snapping), clamped to the scroll range
+    const getSnapPoints = useCallback((container: HTMLElement) => {
+        const clientSize = axis.getClientSize(container)
+        const maxScroll = axis.getScrollSize(container) - clientSize
+        const points: number[] = []
+        for (const child of getSlotElements(container)) {
+            const target = getAlignedScroll(axis.getOffset(child), axis.getSize(child), clientSize, align, edgeInset)
+            points.push(Math.max(0, Math.min(maxScroll, target)))
+        }
+        return points
+    }, [axis, align, edgeInset])
 
-    // Find nearest snap point (center of child to center of container)
+    // Find nearest snap point (resting position closest to the current scroll)
     const findNearestSnapPoint = useCallback((currentScroll: number, direction: number) => {
         if (!ref.current) return currentScroll
 
-        const container = ref.current
-        const children = Array.from(container.children) as HTMLElement[]
-
-        if (children.length === 0) return currentScroll
+        const points = getSnapPoints(ref.current)
+        if (points.length === 0) return currentScroll
 
         let nearestPoint = currentScroll
         let minDistance = Infinity
-        const containerCenter = currentScroll + container.clientWidth / 2
 
-        children.forEach((child) => {
-            // Snap to center of each child
-            const childCenter = child.offsetLeft + child.offsetWidth / 2
-            const distance = Math.abs(childCenter - containerCenter)
-
-            // Calculate the exact scroll position to center this child
-            const targetScroll = childCenter - container.clientWidth / 2
+        points.forEach((targetScroll) => {
+            const distance = Math.abs(targetScroll - currentScroll)
 
             // If we have a direction preference, favor that direction
             if (direction !== 0) {
                 const isInDirection = direction > 0
-                    ? childCenter < containerCenter
-                    : childCenter > containerCenter
+                    ? targetScroll < currentScroll
+                    : targetScroll > currentScroll
 
                 if (isInDirection && distance < minDistance) {
                     minDistance = distance
@@ -120,48 +319,65 @@ export function useDraggableScroll({
             }
         })
 
-        // Clamp to valid scroll range if not infinite (or handle clamping differently)
-        const maxScroll = container.scrollWidth - container.clientWidth
-        return Math.max(0, Math.min(maxScroll, nearestPoint))
-    }, [])
+        return nearestPoint
+    }, [getSnapPoints])
+
+    // Flick landing: project where momentum would stop and land on the nearest item there,
+    // at most maxSlidesPerSwipe items from where the gesture started
+    const findFlickTarget = useCallback((el: HTMLElement, releaseVelocity: number) => {
+        const points = getSnapPoints(el)
+        const projected = axis.getScroll(el) - getMomentumDistance(releaseVelocity, physicsRef.current.friction)
+        const index = getFlickTargetIndex(points, scrollLeftStart.current, projected, maxSlidesPerSwipe ?? Infinity)
+        return index < 0 ? axis.getScroll(el) : points[index]
+    }, [getSnapPoints, axis, maxSlidesPerSwipe])
 
-    // Smooth snap animation to target position (for mouse drag)
-    const snapToPosition = useCallback((targetScroll: number) => {
+    // Smooth snap animation to target position (for mouse drag and flicks)
+    const snapToPosition = useCallback((targetScroll: number, duration?: number) => {
         if (!ref.current) return
 
         const el = ref.current
-        const startScroll = el.scrollLeft
+        const startScroll = axis.getScroll(el)
         const distance = targetScroll - startScroll
 
         if (Math.abs(distance) < 1) {
-            // Even if no movement, re-enable snap
+            // Even if no movement, re-enable snap (and native scrolling held for a touch flick)
             el.style.scrollSnapType = ''
+            setFlickHoldingScroll(el, false)
             return
         }
 
         const startTime = performance.now()
+        const snapDuration = duration ?? physicsRef.current.snapDuration
 
         const snapLoop = () => {
             const elapsed = performance.now() - startTime
-            const progress = Math.min(elapsed / SNAP_DURATION, 1)
+            const progress = Math.min(elapsed / snapDuration, 1)
 
             // Smooth ease-out curve
             const easeProgress = 1 - Math.pow(1 - progress, 3)
 
-            el.scrollLeft = startScroll + (distance * easeProgress)
+            axis.setScroll(el, startScroll + (distance * easeProgress))
 
             if (progress < 1) {
                 animationFrameId.current = requestAnimationFrame(snapLoop)
             } else {
-                el.scrollLeft = targetScroll
+                axis.setScroll(el, targetScroll)
                 animationFrameId.current = null
-                // Re-enable CSS snap after custom positioning completes
+                // Re-enable CSS snap and native scrolling after custom positioning completes
                 el.style.scrollSnapType = ''
+                setFlickHoldingScroll(el, false)
             }
         }
 
         animationFrameId.current = requestAnimationFrame(snapLoop)
-    }, [])
+    }, [axis, setFlickHoldingScroll])
+
+    // Land a flick on its projected item; longer landings animate a little longer
+    const flickTo = useCallback((el: HTMLElement, releaseVelocity: number) => {
+        const target = findFlickTarget(el, releaseVelocity)
+        const travel = Math.abs(target - axis.getScroll(el)) / Math.max(1, axis.getClientSize(el))
+        snapToPosition(target, physicsRef.current.snapDuration * (1 + Math.min(travel, 2)))
+    }, [findFlickTarget, snapToPosition, axis])
 
     const snapBack = useCallback(() => {
         if (!ref.current) return
@@ -176,27 +392,29 @@ export function useDraggableScroll({
 
         if (Math.abs(startOffset) < 1) {
             el.style.transform = ''
+            setEdgePullActive(false)
             return
         }
 
         const snapLoop = () => {
             const elapsed = performance.now() - startTime
-            const progress = Math.min(elapsed / SNAP_BACK_DURATION, 1)
+            const progress = Math.min(elapsed / physicsRef.current.snapBackDuration, 1)
             const easeProgress = 1 - Math.pow(1 - progress, 3)
             const offset = startOffset * (1 - easeProgress)
 
-            el.style.transform = Math.abs(offset) > 0.5 ? `translateX(${offset}px)` : ''
+            el.style.transform = Math.abs(offset) > 0.5 ? axis.translate(offset) : ''
 
             if (progress < 1) {
                 animationFrameId.current = requestAnimationFrame(snapLoop)
             } else {
                 el.style.transform = ''
                 animationFrameId.current = null
+                setEdgePullActive(false)
             }
         }
 
         animationFrameId.current = requestAnimationFrame(snapLoop)
-    }, [])
+    }, [axis, setEdgePullActive])
 
     const triggerBounce = useCallback((direction: 'left' | 'right') => {
         if (!ref.current) return
@@ -204,6 +422,7 @@ export function useDraggableScroll({
         // Or if we are loading next page
         if (infinite) return
         if (direction === 'right' && hasNextPage) return
+        if (direction === 'left' && hasPreviousPage) return
 
         cancelAnimation(true)
         isBouncing.current = true
@@ -211,14 +430,15 @@ export function useDraggableScroll({
         const el = ref.current
         const startTime = performance.now()
         const bounceDirection = direction === 'left' ? 1 : -1
+        const { bounceDistance, bounceDuration } = physicsRef.current
 
         const bounceLoop = () => {
             const elapsed = performance.now() - startTime
-            const progress = Math.min(elapsed / BOUNCE_DURATION, 1)
+            const progress = Math.min(elapsed / bounceDuration, 1)
             const easeProgress = Math.sin(progress * Math.PI)
-            const offset = BOUNCE_DISTANCE * bounceDirection * easeProgress
+            const offset = bounceDistance * bounceDirection * easeProgress
 
-            el.style.transform = `translateX(${offset}px)`
+            el.style.transform = axis.translate(offset)
 
             if (progress < 1) {
                 animationFrameId.current = requestAnimationFrame(bounceLoop)
@@ -230,37 +450,61 @@ export function useDraggableScroll({
         }
 
         animationFrameId.current = requestAnimationFrame(bounceLoop)
-    }, [cancelAnimation, infinite, hasNextPage])
+    }, [cancelAnimation, infinite, hasNextPage, hasPreviousPage, axis])
 
     const startMomentumScroll = useCallback(() => {
         if (!ref.current) return
 
         const el = ref.current
-        const activeFriction = friction ?? FRICTION
-        const activeMaxVelocity = maxVelocity ?? MAX_VELOCITY
+        const {
+            friction: activeFriction,
+            maxVelocity: activeMaxVelocity,
+            minVelocity,
+            snapThreshold,
+        } = physicsRef.current
+        const freeModeOptions = freeModeRef.current
+        // Momentum speed below which it settles onto an item (never, in plain free mode)
+        const settleThreshold = !freeModeOptions
+            ? snapThreshold
+            : freeModeOptions.sticky ? (freeModeOptions.stickyThreshold ?? snapThreshold) : 0
+
+        // Free mode: stop in place, handing scrolling back to the CSS (free modes have no mandatory snap)
+        const stopInPlace = () => {
+            animationFrameId.current = null
+            el.style.scrollSnapType = ''
+        }
 
         let currentVel = Math.max(-activeMaxVelocity, Math.min(activeMaxVelocity, velocity.current * 16))
         let lastLoopTime = performance.now()
         const initialDirection = currentVel > 0 ? 1 : currentVel < 0 ? -1 : 0
 
-        if (Math.abs(currentVel) <= MIN_VELOCITY_THRESHOLD) {
+        if (Math.abs(currentVel) <= minVelocity) {
+            if (freeModeOptions && !freeModeOptions.sticky) {
+                stopInPlace()
+                return
+            }
             // No momentum, just snap to nearest
-            const snapTarget = findNearestSnapPoint(el.scrollLeft, 0)
+            const snapTarget = findNearestSnapPoint(axis.getScroll(el), 0)
             snapToPosition(snapTarget)
             return
         }
 
-        const maxScroll = el.scrollWidth - el.clientWidth
+        const maxScroll = axis.getScrollSize(el) - axis.getClientSize(el)
 
-        if (el.scrollLeft <= 0 && currentVel > 0) {
+        if (axis.getScroll(el) <= 0 && currentVel > 0) {
             triggerBounce('left')
             return
         }
-        if (el.scrollLeft >= maxScroll && currentVel < 0) {
+        if (axis.getScroll(el) >= maxScroll && currentVel < 0) {
             triggerBounce('right')
             return
         }
 
+        if (maxSlidesPerSwipe !== undefined && !freeModeOptions) {
+            flickTo(el, currentVel)
+            return
+        }
+
         const momentumLoop = () => {
             if (!ref.current) return
 
@@ -271,20 +515,21 @@ export function useDraggableScroll({
             const frameRatio = Math.min(dt / 16, 3)
             currentVel *= Math.pow(activeFriction, frameRatio)
 
-            const prevScroll = el.scrollLeft
-            const max = el.scrollWidth - el.clientWidth
+            const prevScroll = axis.getScroll(el)
+            const max = axis.getScrollSize(el) - axis.getClientSize(el)
 
-            el.scrollLeft = prevScroll - (currentVel * frameRatio)
-            const newScroll = el.scrollLeft
+            axis.setScroll(el, prevScroll - (currentVel * frameRatio))
+            const newScroll = axis.getScroll(el)
 
             // Check if scroll hit an edge
             // Logic updated for infinite:
             // infinite + hasNextPage -> no bounce right
+            // hasPreviousPage -> no bounce left
             const hitLeft = currentVel > 0 && newScroll <= 0 && prevScroll > 0
             const hitRight = currentVel < 0 && newScroll >= max && prevScroll < max
 
             if (hitLeft) {
-                if (!infinite) triggerBounce('left')
+                if (!infinite && !hasPreviousPage) triggerBounce('left')
                 return
             }
             if (hitRight) {
@@ -293,23 +538,26 @@ export function useDraggableScroll({
             }
 
             // When velocity is low enough, snap to nearest item
-            if (Math.abs(currentVel) < SNAP_THRESHOLD) {
-                const snapTarget = findNearestSnapPoint(el.scrollLeft, initialDirection)
+            if (Math.abs(currentVel) < settleThreshold) {
+                const snapTarget = findNearestSnapPoint(axis.getScroll(el), initialDirection)
                 snapToPosition(snapTarget)
                 return
             }
 
             if (Math.abs(currentVel) > 0.5) {
                 animationFrameId.current = requestAnimationFrame(momentumLoop)
+            } else if (freeModeOptions) {
+                // Free mode: momentum decayed naturally, rest where it stopped
+                stopInPlace()
             } else {
                 // Snap when momentum ends
-                const snapTarget = findNearestSnapPoint(el.scrollLeft, 0)
+                const snapTarget = findNearestSnapPoint(axis.getScroll(el), 0)
                 snapToPosition(snapTarget)
             }
         }
 
         animationFrameId.current = requestAnimationFrame(momentumLoop)
-    }, [triggerBounce, findNearestSnapPoint, snapToPosition, infinite, hasNextPage])
+    }, [triggerBounce, findNearestSnapPoint, snapToPosition, flickTo, maxSlidesPerSwipe, infinite, hasNextPage, hasPreviousPage, axis])
 
     const endDrag = useCallback(() => {
         if (!isDown.current) return
@@ -354,22 +602,22 @@ export function useDraggableScroll({
 
         if (ref.current) {
             const el = ref.current
-            const maxScroll = el.scrollWidth - el.clientWidth
+            const maxScroll = axis.getScrollSize(el) - axis.getClientSize(el)
 
 
             // We don't set capture here yet to allow simple clicks to pass through
             // Capture will be set in onPointerMove if movement threshold is exceeded
-            startX.current = e.pageX
-            scrollLeftStart.current = el.scrollLeft
-            lastPageX.current = e.pageX
+            startX.current = axis.getPointer(e)
+            scrollLeftStart.current = axis.getScroll(el)
+            lastPageX.current = axis.getPointer(e)
             lastTimestamp.current = performance.now()
             velocity.current = 0
 
             // Use 20px tolerance for left edge to account for padding in finite carousels
-            startedAtLeftEdge.current = el.scrollLeft <= 20
-            startedAtRightEdge.current = el.scrollLeft >= maxScroll - 5
+            startedAtLeftEdge.current = axis.getScroll(el) <= 20
+            startedAtRightEdge.current = axis.getScroll(el) >= maxScroll - 5
         }
-    }, [cancelAnimation])
+    }, [cancelAnimation, axis])
 
     const onPointerUp = useCallback((e: ReactPointerEvent<HTMLDivElement>) => {
         if (!isDown.current) return
@@ -386,7 +634,7 @@ export function useDraggableScroll({
         e.preventDefault()
 
         const now = performance.now()
-        const pageX = e.pageX
+        const pageX = axis.getPointer(e)
         const el = ref.current
 
         // Optimization: Removed getBoundingClientRect() to avoid reflows
@@ -394,7 +642,8 @@ export function useDraggableScroll({
         const timeDelta = now - lastTimestamp.current
         if (timeDelta > 0) {
             const instantVel = (pageX - lastPageX.current) / timeDelta
-            velocity.current = velocity.current * (1 - VELOCITY_SMOOTHING) + instantVel * VELOCITY_SMOOTHING
+            const { velocitySmoothing } = physicsRef.current
+            velocity.current = velocity.current * (1 - velocitySmoothing) + instantVel * velocitySmoothing
             lastTimestamp.current = now
             lastPageX.current = pageX
         }
@@ -402,31 +651,31 @@ export function useDraggableScroll({
         const x = pageX
         const walk = x - startX.current
         const intendedScroll = scrollLeftStart.current - walk
-        const maxScroll = el.scrollWidth - el.clientWidth
+        const maxScroll = axis.getScrollSize(el) - axis.getClientSize(el)
 
-        const isAtLeftEdge = el.scrollLeft <= 20  // 20px tolerance for padding
-        const isAtRightEdge = el.scrollLeft >= maxScroll - 5
+        const isAtLeftEdge = axis.getScroll(el) <= 20  // 20px tolerance for padding
+        const isAtRightEdge = axis.getScroll(el) >= maxScroll - 5
 
         // Pull resistance logic disabled if infinite
-        const canPullLeft = !infinite && !isBouncing.current && startedAtLeftEdge.current && isAtLeftEdge && intendedScroll < 0
+        const canPullLeft = !infinite && !hasPreviousPage && !isBouncing.current && startedAtLeftEdge.current && isAtLeftEdge && intendedScroll < 0
         const canPullRight = !infinite && !hasNextPage && !isBouncing.current && startedAtRightEdge.current && isAtRightEdge && intendedScroll > maxScroll
 
         if (canPullLeft || canPullRight) {
             isPullingEdge.current = true
 
+            const { pullResistance, maxPullDistance } = physicsRef.current
             let pullAmount: number
             if (canPullLeft) {
-                pullAmount = -intendedScroll * PULL_RESISTANCE
+                pullAmount = -intendedScroll * pullResistance
             } else {
-                pullAmount = -(intendedScroll - maxScroll) * PULL_RESISTANCE
+                pullAmount = -(intendedScroll - maxScroll) * pullResistance
             }
 
-            const sign = pullAmount > 0 ? 1 : -1
-            const absPull = Math.min(Math.abs(pullAmount), MAX_PULL_DISTANCE)
-            const dampedPull = sign * Math.sqrt(absPull / MAX_PULL_DISTANCE) * MAX_PULL_DISTANCE
+            const dampedPull = getDampedPull(pullAmount, maxPullDistance)
 
             currentPullOffset.current = dampedPull
-            el.style.transform = `translateX(${dampedPull}px)`
+            el.style.transform = axis.translate(dampedPull)
+            setEdgePullActive(true)
 
             if (!isDragging) setIsDragging(true)
         } else {
@@ -435,6 +684,7 @@ export function useDraggableScroll({
                 el.style.transform = ''
                 currentPullOffset.current = 0
                 isPullingEdge.current = false
+                setEdgePullActive(false)
             }
 
             if (Math.abs(walk) > 10) {
@@ -448,10 +698,10 @@ export function useDraggableScroll({
                         // Ignore
                     }
                 }
-                el.scrollLeft = intendedScroll
+                axis.setScroll(el, intendedScroll)
             }
         }
-    }, [isDragging, endDrag, infinite, hasNextPage])
+    }, [isDragging, endDrag, infinite, hasNextPage, hasPreviousPage, axis])
 
     const onClickCapture = useCallback((e: MouseEvent) => {
         if (isDragging) {
@@ -491,19 +741,27 @@ export function useDraggableScroll({
         // Also adjust current velocity tracking to prevent jumps? Not needed for velocity, just position.
     }, [])
 
+    // Parents usually pass new callbacks every render: read them from a ref so the listener
+    // (and its initial check) is attached once rather than on every render
+    const reachedCallbacksRef = useRef({ onEndReached, onStartReached })
+    reachedCallbacksRef.current = { onEndReached, onStartReached }
+    const hasEndReached = !!onEndReached
+    const hasStartReached = !!onStartReached
+
     useEffect(() => {
         const el = ref.current
-        if (!el) return
+        if (!el || (!hasEndReached && !hasStartReached)) return
 
         const handleScroll = () => {
+            const { onEndReached, onStartReached } = reachedCallbacksRef.current
             // Check for OnEndReached (Append Logic - Legacy support if needed)
             if (onEndReached) {
-                const scrollLeft = el.scrollLeft
-                const scrollWidth = el.scrollWidth
-                const clientWidth = el.clientWidth
+                const scrollPos = axis.getScroll(el)
+                const scrollSize = axis.getScrollSize(el)
+                const clientSize = axis.getClientSize(el)
 
-                const distToEnd = scrollWidth - (scrollLeft + clientWidth)
-                const threshold = 2 * clientWidth
+                const distToEnd = scrollSize - (scrollPos + clientSize)
+                const threshold = 2 * clientSize
 
                 if (distToEnd < threshold) {
                     const now = performance.now()
@@ -513,6 +771,19 @@ export function useDraggableScroll({
                     }
                 }
             }
+
+            // Mirror for OnStartReached (Prepend Logic - the parent anchors the scroll position)
+            if (onStartReached) {
+                const threshold = 2 * axis.getClientSize(el)
+
+                if (axis.getScroll(el) < threshold) {
+                    const now = performance.now()
+                    if (now - lastStartReachedTime.current > 1000) {
+                        onStartReached()
+                        lastStartReachedTime.current = now
+                    }
+                }
+            }
         }
 
         el.addEventListener('scroll', handleScroll, { passive: true })
@@ -522,17 +793,165 @@ export function useDraggableScroll({
         return () => {
             el.removeEventListener('scroll', handleScroll)
         }
-    }, [onEndReached])
+    }, [hasEndReached, hasStartReached, axis])
 
-    // Touch-based edge effects for infinite carousels
-    // Currently disabled for performance optimization (Phase 1)
-    // The previous implementation used heavy paint operations (gradients) on the main thread
+    // Touch flicks: native scrolling follows the finger, then the release velocity picks the landing
+    // item (same projection as mouse drags) instead of CSS snap stopping on the next item
     useEffect(() => {
         const el = ref.current
-        if (!el || infinite) return
+        if (!el || maxSlidesPerSwipe === undefined) return
+
+        let isTracking = false
+        let touchVelocity = 0
+        let lastTouchTime = 0
+        let lastTouchPos = 0
+
+        const handleTouchStart = (e: TouchEvent) => {
+            isTracking = e.touches.length === 1
+            if (!isTracking) return
+            // A new touch takes over from any running landing animation, with native scrolling back on
+            cancelAnimation(true)
+            touchVelocity = 0
+            lastTouchTime = performance.now()
+            lastTouchPos = axis.getPointer(e.touches[0])
+            scrollLeftStart.current = axis.getScroll(el)
+        }
+
+        const handleTouchMove = (e: TouchEvent) => {
+            if (!isTracking) return
+            const now = performance.now()
+            const pos = axis.getPointer(e.touches[0])
+            const timeDelta = now - lastTouchTime
+            if (timeDelta > 0) {
+                const { velocitySmoothing } = physicsRef.current
+                touchVelocity = touchVelocity * (1 - velocitySmoothing) + ((pos - lastTouchPos) / timeDelta) * velocitySmoothing
+                lastTouchTime = now
+                lastTouchPos = pos
+            }
+        }
+
+        const handleTouchEnd = () => {
+            if (!isTracking) return
+            isTracking = false
+            if (freeModeRef.current) return
+
+            const { maxVelocity: activeMaxVelocity, minVelocity } = physicsRef.current
+            // A finger resting before release is not a flick
+            const releaseVelocity = performance.now() - lastTouchTime > 80
+                ? 0
+                : Math.max(-activeMaxVelocity, Math.min(activeMaxVelocity, touchVelocity * 16))
+            // Slow releases keep the native CSS snap
+            if (Math.abs(releaseVelocity) <= minVelocity) return
+
+            // Native momentum and CSS snap would fight the landing animation: a scroller that cannot
+            // scroll drops its fling, and pinning the position stops browsers that keep coasting.
+            // Scroll writes still apply, so the landing animation runs on the held scroller.
+            setFlickHoldingScroll(el, true)
+            axis.setScroll(el, axis.getScroll(el))
+            flickTo(el, releaseVelocity)
+        }
 
-        // Lightweight scroll end detection (optional future use)
-    }, [infinite])
+        el.addEventListener('touchstart', handleTouchStart, { passive: true })
+        el.addEventListener('touchmove', handleTouchMove, { passive: true })
+        el.addEventListener('touchend', handleTouchEnd, { passive: true })
+        el.addEventListener('touchcancel', handleTouchEnd, { passive: true })
+
+        return () => {
+            el.removeEventListener('touchstart', handleTouchStart)
+            el.removeEventListener('touchmove', handleTouchMove)
+            el.removeEventListener('touchend', handleTouchEnd)
+            el.removeEventListener('touchcancel', handleTouchEnd)
+            // Turning flicks off mid-landing must not leave the track held
+            if (isFlickHoldingScroll.current) cancelAnimation(true)
+        }
+    }, [maxSlidesPerSwipe, flickTo, cancelAnimation, setFlickHoldingScroll, axis])
+
+    // Touch rubber-band: native scrolling stops dead at the edges of a finite track, so the finger's
+    // overshoot is mirrored as a transform (compositor only, no paint) and snapped back on release
+    useEffect(() => {
+        const el = ref.current
+        if (!el || infinite || !touchOverscroll) return
+
+        let isTracking = false
+        let pullEdge: 'start' | 'end' | null = null
+        let pullAnchor = 0
+        let startPos = 0
+        let startCross = 0
+        let lastPos = 0
+
+        const getCross = (touch: Touch) => orientation === 'vertical' ? touch.pageX : touch.pageY
+
+        const handleTouchStart = (e: TouchEvent) => {
+            isTracking = e.touches.length === 1
+            if (!isTracking) return
+            // Catch the track mid snap-back
+            if (isPullingEdge.current || animationFrameId.current) cancelAnimation(true)
+            pullEdge = null
+            startPos = lastPos = axis.getPointer(e.touches[0])
+            startCross = getCross(e.touches[0])
+        }
+
+        const handleTouchMove = (e: TouchEvent) => {
+            if (!isTracking) return
+            const touch = e.touches[0]
+            const pos = axis.getPointer(touch)
+            const prevPos = lastPos
+            lastPos = pos
+
+            if (pullEdge === null) {
+                // Mostly cross-axis gestures scroll the page, not the carousel
+                if (Math.abs(getCross(touch) - startCross) > Math.abs(pos - startPos)) return
+
+                const scroll = axis.getScroll(el)
+                const maxScroll = axis.getScrollSize(el) - axis.getClientSize(el)
+                if (pos > prevPos && !hasPreviousPage && scroll <= 1) {
+                    pullEdge = 'start'
+                } else if (pos < prevPos && !hasNextPage && scroll >= maxScroll - 1) {
+                    pullEdge = 'end'
+                } else {
+                    return
+                }
+                pullAnchor = prevPos
+            }
+
+            const walk = pos - pullAnchor
+            if ((pullEdge === 'start' && walk <= 0) || (pullEdge === 'end' && walk >= 0)) {
+                // Back inside the track: native scrolling takes over
+                pullEdge = null
+                el.style.transform = ''
+                currentPullOffset.current = 0
+                isPullingEdge.current = false
+                setEdgePullActive(false)
+                return
+            }
+
+            const { pullResistance, maxPullDistance } = physicsRef.current
+            const dampedPull = getDampedPull(walk * pullResistance, maxPullDistance)
+            isPullingEdge.current = true
+            currentPullOffset.current = dampedPull
+            el.style.transform = axis.translate(dampedPull)
+            setEdgePullActive(true)
+        }
+
+        const handleTouchEnd = () => {
+            isTracking = false
+            if (pullEdge === null) return
+            pullEdge = null
+            snapBack()
+        }
+
+        el.addEventListener('touchstart', handleTouchStart, { passive: true })
+        el.addEventListener('touchmove', handleTouchMove, { passive: true })
+        el.addEventListener('touchend', handleTouchEnd, { passive: true })
+        el.addEventListener('touchcancel', handleTouchEnd, { passive: true })
+
+        return () => {
+            el.removeEventListener('touchstart', handleTouchStart)
+            el.removeEventListener('touchmove', handleTouchMove)
+            el.removeEventListener('touchend', handleTouchEnd)
+            el.removeEventListener('touchcancel', handleTouchEnd)
+        }
+    }, [infinite, touchOverscroll, hasNextPage, hasPreviousPage, orientation, snapBack, cancelAnimation, setEdgePullActive, axis])
 
     return {
         ref,
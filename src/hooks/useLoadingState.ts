@@ -1,4 +1,6 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useContext } from 'react'
+import type { CarouselStorageAdapter } from '../storage'
+import { CarouselSeenStorageContext } from '../CarouselStorageProvider'
 
 // ┌─────────────────────────────────────────────────────────────────────────────┐
 // │ SESSION CACHE: Tracks which resources have been loaded this session         │
@@ -9,19 +11,25 @@ import { useState, useEffect, useRef, useCallback } from 'react'
 // │   - Long scroll away from component (DOM virtualization)                    │
 // │   - Extended inactivity (30+ minutes)                                       │
 // │                                                                             │
-// │ FUTURE ENHANCEMENT (if Safari issues persist):                              │
-// │ Add sessionStorage fallback - replace seenResources.has(key) with:          │
-// │   function hasBeenSeen(key: string): boolean {                              │
-// │     if (seenResources.has(key)) return true                                 │
-// │     if (typeof sessionStorage !== 'undefined') {                            │
-// │       return sessionStorage.getItem(`seen-${key}`) === '1'                  │
-// │     }                                                                        │
-// │     return false                                                             │
-// │   }                                                                          │
-// │ And update markAsSeen to write to both memory and sessionStorage.           │
+// │ MITIGATION:                                                                 │
+// │ Pass a CarouselStorageAdapter (option or the provider's `seenStorage`) to   │
+// │ also record seen resources there under `carousel-seen-${key}`. The Set      │
+// │ stays the fast path; the adapter is consulted when the Set has been cleared.│
 // └─────────────────────────────────────────────────────────────────────────────┘
 const seenResources = new Set<string>()
 
+const SEEN_KEY_PREFIX = 'carousel-seen-'
+
+function hasBeenSeen(key: string, storage: CarouselStorageAdapter | null): boolean {
+    if (seenResources.has(key)) return true
+    return storage?.getItem(SEEN_KEY_PREFIX + key) === '1'
+}
+
+function markAsSeen(key: string, storage: CarouselStorageAdapter | null) {
+    seenResources.add(key)
+    storage?.setItem(SEEN_KEY_PREFIX + key, '1')
+}
+
 export interface UseLoadingStateOptions {
     /** Unique key for session cache. If provided, enables caching behavior. */
     cacheKey?: string
@@ -34,6 +42,11 @@ export interface UseLoadingStateOptions {
      * Useful when the component should skip the loading phase entirely.
      */
     startReady?: boolean
+    /**
+     * Also record "seen" state here. Defaults to the CarouselStorageProvider's `seenStorage`;
+     * in-memory only without one. Read through a ref, so inline adapters are fine.
+     */
+    storage?: CarouselStorageAdapter
 }
 
 export interface UseLoadingStateReturn {
@@ -58,9 +71,16 @@ export function useLoadingState({
     skeletonDelay = 500,
     fallbackTimeout = 3000,
     startReady = false,
+    storage,
 }: UseLoadingStateOptions = {}): UseLoadingStateReturn {
+    const contextStorage = useContext(CarouselSeenStorageContext)
+    const seenStorage = storage ?? contextStorage
+    // Timers read the adapter through a ref: a new adapter object must not restart them
+    const seenStorageRef = useRef(seenStorage)
+    seenStorageRef.current = seenStorage
+
     // Check if this resource was seen before in this session
-    const wasCached = cacheKey ? seenResources.has(cacheKey) : false
+    const wasCached = cacheKey ? hasBeenSeen(cacheKey, seenStorage) : false
 
     const [isReady, setIsReady] = useState(startReady || wasCached)
     const [showSkeleton, setShowSkeleton] = useState(false)
@@ -82,7 +102,7 @@ export function useLoadingState({
         if (fallbackTimerRef.current) clearTimeout(fallbackTimerRef.current)
 
         // Add to cache
-        if (cacheKey) seenResources.add(cacheKey)
+        if (cacheKey) markAsSeen(cacheKey, seenStorageRef.current)
 
         // Update state
         if (mountedRef.current) {
@@ -108,7 +128,7 @@ export function useLoadingState({
         fallbackTimerRef.current = setTimeout(() => {
             if (mountedRef.current && !readyFiredRef.current) {
                 readyFiredRef.current = true
-                if (cacheKey) seenResources.add(cacheKey)
+                if (cacheKey) markAsSeen(cacheKey, seenStorageRef.current)
                 setIsReady(true)
                 setShowSkeleton(false)
             }
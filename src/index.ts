@@ -1,11 +1,54 @@
 export { Carousel } from './Carousel'
+export type { BaseCarouselProps, CarouselHandle, CarouselGoToOptions, CarouselChangeReason, CarouselBreakpointOptions } from './Carousel'
 export { CarouselArrow } from './CarouselArrow'
+export { CarouselPagination } from './CarouselPagination'
+export type { CarouselPaginationProps } from './CarouselPagination'
+export { CarouselSyncGroup, CarouselSyncContext, createSyncRegistry } from './CarouselSyncGroup'
+export type { CarouselSyncGroupProps, CarouselSyncRole, CarouselSyncMember, CarouselSyncRegistry } from './CarouselSyncGroup'
+export { useCarouselState, CarouselStateContext } from './carouselState'
+export { CarouselStorageProvider, CarouselStorageContext, CarouselSeenStorageContext } from './CarouselStorageProvider'
+export type { CarouselStorageProviderProps } from './CarouselStorageProvider'
+export {
+    createSessionStorageAdapter,
+    createLocalStorageAdapter,
+    createMemoryStorageAdapter,
+    createUrlSearchParamsAdapter,
+} from './storage'
+export type { CarouselStorageAdapter, UrlSearchParamsAdapterOptions } from './storage'
+export type { CarouselSnapshot, CarouselStore, UseCarouselStateReturn } from './carouselState'
+export { getAxis, getRtlScrollType, HORIZONTAL_AXIS, HORIZONTAL_RTL_AXIS, VERTICAL_AXIS } from './axis'
+export type { CarouselAlign, CarouselAxis, CarouselDirection, CarouselOrientation, RtlScrollType } from './axis'
+export { getSlotElement, getSlotElements, getSlotIndex, SLOT_INDEX_ATTRIBUTE, SPACER_ATTRIBUTE } from './slots'
+export {
+    createScaleOpacityEffect,
+    createCoverflowEffect,
+    createRotate3dEffect,
+    createFadeEffect,
+    createParallaxEffect,
+    createDepthBlurEffect,
+} from './effects'
+export type {
+    CarouselEffect,
+    CarouselEffectContext,
+    CarouselBreakpoint,
+    ScaleOpacityEffectOptions,
+    CoverflowEffectOptions,
+    Rotate3dEffectOptions,
+    ParallaxEffectOptions,
+    DepthBlurEffectOptions,
+} from './effects'
+export * from './hooks/useCarouselAutoplay'
 export * from './hooks/useCarouselCoordinator'
+export * from './hooks/useCarouselItemResize'
+export * from './hooks/useCarouselKeyboard'
 export * from './hooks/useCarouselLayout'
 export * from './hooks/useCarouselNavigation'
 export * from './hooks/useCarouselPersistence'
 export * from './hooks/useCarouselTeleport'
+export * from './hooks/useCarouselUrlSync'
+export * from './hooks/useCarouselVirtualization'
 export * from './hooks/useCarouselVisuals'
+export * from './hooks/useCarouselWheel'
 export * from './hooks/useDraggableScroll'
 export * from './hooks/useLoadingState'
 export * from './hooks/useScrollCompletion'
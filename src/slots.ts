@@ -0,0 +1,36 @@
+/**
+ * Slot lookup.
+ * With windowed rendering (`virtualize`) only the slots near the viewport are mounted, between
+ * a leading and a trailing spacer that keep the scroll size. A slot's child index in the
+ * container is then no longer its slot index: hooks resolve slots through these helpers.
+ */
+
+/** Attribute holding a slot's index among all slots (clones included) */
+export const SLOT_INDEX_ATTRIBUTE = 'data-carousel-slot'
+
+/** Attribute marking the spacers standing in for unmounted slots */
+export const SPACER_ATTRIBUTE = 'data-carousel-spacer'
+
+const isSpacer = (node: Element): boolean => node.hasAttribute(SPACER_ATTRIBUTE)
+
+/** Slot index of a direct child of the container (-1 for spacers) */
+export function getSlotIndex(container: Element, child: Element): number {
+    if (isSpacer(child)) return -1
+    const attribute = child.getAttribute(SLOT_INDEX_ATTRIBUTE)
+    return attribute !== null ? Number(attribute) : Array.prototype.indexOf.call(container.children, child)
+}
+
+/** The mounted slot at a slot index (undefined when it is outside the rendered window) */
+export function getSlotElement(container: Element, slotIndex: number): HTMLElement | undefined {
+    const children = container.children
+    const lead = children.length > 0 && isSpacer(children[0]) ? 1 : 0
+    const firstSlot = children[lead]
+    if (!firstSlot || slotIndex < 0) return undefined
+    const child = children[lead + slotIndex - getSlotIndex(container, firstSlot)]
+    return child && !isSpacer(child) ? child as HTMLElement : undefined
+}
+
+/** Mounted slots in DOM order (spacers excluded) */
+export function getSlotElements(container: Element): HTMLElement[] {
+    return Array.from(container.children).filter(child => !isSpacer(child)) as HTMLElement[]
+}
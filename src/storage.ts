@@ -0,0 +1,89 @@
+/**
+ * Key-value storage used for persisted scroll positions and "seen" loading state.
+ * Implementations must never throw: storage failures degrade to "nothing saved".
+ */
+export interface CarouselStorageAdapter {
+    getItem: (key: string) => string | null
+    setItem: (key: string, value: string) => void
+    removeItem: (key: string) => void
+}
+
+/**
+ * Wrap a Web Storage area. Access is resolved lazily and guarded, so the adapter is
+ * safe to create during SSR and inside webviews where touching storage throws.
+ */
+const createWebStorageAdapter = (getStorage: () => Storage): CarouselStorageAdapter => ({
+    getItem: (key) => {
+        try {
+            return getStorage().getItem(key)
+        } catch {
+            return null
+        }
+    },
+    setItem: (key, value) => {
+        try {
+            getStorage().setItem(key, value)
+        } catch {
+            // Storage may be full, disabled, or unavailable (private mode, SSR, webviews)
+        }
+    },
+    removeItem: (key) => {
+        try {
+            getStorage().removeItem(key)
+        } catch {
+            // Ignore errors
+        }
+    },
+})
+
+/** Per-tab storage: survives reloads and back/forward navigation (default for scroll positions) */
+export function createSessionStorageAdapter(): CarouselStorageAdapter {
+    return createWebStorageAdapter(() => sessionStorage)
+}
+
+/** Persistent storage shared across tabs */
+export function createLocalStorageAdapter(): CarouselStorageAdapter {
+    return createWebStorageAdapter(() => localStorage)
+}
+
+/** In-memory storage: works everywhere, lasts as long as the adapter instance */
+export function createMemoryStorageAdapter(): CarouselStorageAdapter {
+    const entries = new Map<string, string>()
+    return {
+        getItem: (key) => entries.get(key) ?? null,
+        setItem: (key, value) => { entries.set(key, value) },
+        removeItem: (key) => { entries.delete(key) },
+    }
+}
+
+export interface UrlSearchParamsAdapterOptions {
+    /** Prefix added to every search param name. Defaults to '' */
+    prefix?: string
+}
+
+/**
+ * Stores entries as URL search params (shareable links, restored by the browser on back/forward).
+ * Writes use history.replaceState, so scrolling never adds history entries.
+ * Reads return null during SSR.
+ */
+export function createUrlSearchParamsAdapter({ prefix = '' }: UrlSearchParamsAdapterOptions = {}): CarouselStorageAdapter {
+    const update = (mutate: (params: URLSearchParams) => void) => {
+        if (typeof window === 'undefined') return
+        try {
+            const url = new URL(window.location.href)
+            mutate(url.searchParams)
+            window.history.replaceState(window.history.state, '', url)
+        } catch {
+            // Sandboxed frames may reject history updates
+        }
+    }
+
+    return {
+        getItem: (key) => {
+            if (typeof window === 'undefined') return null
+            return new URLSearchParams(window.location.search).get(prefix + key)
+        },
+        setItem: (key, value) => update(params => params.set(prefix + key, value)),
+        removeItem: (key) => update(params => params.delete(prefix + key)),
+    }
+}
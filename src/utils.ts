@@ -1,3 +1,5 @@
+import type { CarouselAlign } from './axis'
+
 /**
  * Calculate the index of the item currently at the center of the viewport
  */
@@ -73,6 +75,220 @@ export function calculateRapidClickTarget(
     }
 }
 
+/**
+ * Find the DOM index of the copy of `targetIndex` closest to `currentDomIndex`.
+ * Clone buffers are whole multiples of the item set, so `domIndex % itemsCount`
+ * is always the real index. Used for shortest-path navigation in infinite mode.
+ */
+export function findNearestCloneIndex(
+    currentDomIndex: number,
+    targetIndex: number,
+    itemsCount: number
+): number {
+    if (itemsCount <= 0) return currentDomIndex
+    const currentRealIndex = ((currentDomIndex % itemsCount) + itemsCount) % itemsCount
+    let delta = targetIndex - currentRealIndex
+    if (delta > itemsCount / 2) delta -= itemsCount
+    else if (delta < -itemsCount / 2) delta += itemsCount
+    return currentDomIndex + delta
+}
+
+/**
+ * Window of pagination dots to render for long lists, centered on the active index.
+ * `end` is exclusive. Lists shorter than `maxDots` render every dot.
+ */
+export function calculateDotWindow(
+    count: number,
+    activeIndex: number,
+    maxDots: number
+): { start: number; end: number } {
+    if (count <= maxDots || maxDots <= 0) return { start: 0, end: count }
+    const start = Math.max(0, Math.min(activeIndex - Math.floor(maxDots / 2), count - maxDots))
+    return { start, end: start + maxDots }
+}
+
+/**
+ * Scroll position that aligns an item (start offset and size along the axis) in the viewport.
+ * `inset` is the gap kept between the item and the viewport edge for 'start' and 'end'.
+ */
+export function getAlignedScroll(
+    itemStart: number,
+    itemSize: number,
+    viewportSize: number,
+    align: CarouselAlign,
+    inset: number
+): number {
+    if (align === 'start') return itemStart - inset
+    if (align === 'end') return itemStart + itemSize + inset - viewportSize
+    return itemStart + (itemSize / 2) - (viewportSize / 2)
+}
+
+/**
+ * Scroll position at which item `index` rests, from a per-item position table.
+ * 'center' centers the item in the viewport; 'start' and 'end' align its edge with the first
+ * item's (the container padding aligns the first item at scroll 0).
+ * Fractional indices interpolate between neighbouring resting positions.
+ */
+export function getScrollAtIndex(
+    positions: ReadonlyArray<{ start: number; size: number }>,
+    index: number,
+    viewportSize: number,
+    align: CarouselAlign
+): number {
+    if (positions.length === 0) return 0
+    const edgeOf = (pos: { start: number; size: number }) => align === 'end' ? pos.start + pos.size : pos.start
+    const restingAt = (i: number) => {
+        const pos = positions[Math.max(0, Math.min(i, positions.length - 1))]
+        return align === 'center'
+            ? pos.start + (pos.size / 2) - (viewportSize / 2)
+            : edgeOf(pos) - edgeOf(positions[0])
+    }
+    const base = Math.floor(index)
+    const fraction = index - base
+    if (fraction === 0 || base >= positions.length - 1) return restingAt(base)
+    return restingAt(base) + fraction * (restingAt(base + 1) - restingAt(base))
+}
+
+/**
+ * Fractional item index at a scroll position (inverse of getScrollAtIndex).
+ * Clamped to the first and last item; binary search keeps it cheap on long lists.
+ */
+export function getIndexAtScroll(
+    positions: ReadonlyArray<{ start: number; size: number }>,
+    scroll: number,
+    viewportSize: number,
+    align: CarouselAlign
+): number {
+    const last = positions.length - 1
+    if (last < 0) return 0
+    if (scroll <= getScrollAtIndex(positions, 0, viewportSize, align)) return 0
+    if (scroll >= getScrollAtIndex(positions, last, viewportSize, align)) return last
+
+    // Largest index whose resting position is <= scroll
+    let low = 0
+    let high = last
+    while (high - low > 1) {
+        const mid = (low + high) >> 1
+        if (getScrollAtIndex(positions, mid, viewportSize, align) <= scroll) low = mid
+        else high = mid
+    }
+    const from = getScrollAtIndex(positions, low, viewportSize, align)
+    const to = getScrollAtIndex(positions, high, viewportSize, align)
+    return to > from ? low + (scroll - from) / (to - from) : low
+}
+
+/**
+ * Range of items (end exclusive) overlapping [viewStart, viewEnd] in a position table.
+ * Items are laid out in order, so both bounds are found by binary search.
+ */
+export function getItemRangeInView(
+    positions: ReadonlyArray<{ start: number; size: number }>,
+    viewStart: number,
+    viewEnd: number
+): { start: number; end: number } {
+    // First item ending after viewStart
+    let low = 0
+    let high = positions.length
+    while (low < high) {
+        const mid = (low + high) >> 1
+        if (positions[mid].start + positions[mid].size < viewStart) low = mid + 1
+        else high = mid
+    }
+    const start = low
+    // First item starting after viewEnd
+    high = positions.length
+    while (low < high) {
+        const mid = (low + high) >> 1
+        if (positions[mid].start <= viewEnd) low = mid + 1
+        else high = mid
+    }
+    return { start, end: low }
+}
+
+/**
+ * Distance a momentum scroll travels before stopping: velocity (px per frame) decays by
+ * `friction` every frame, so the travel is the geometric series v*f + v*f^2 + ...
+ */
+export function getMomentumDistance(velocity: number, friction: number): number {
+    if (friction <= 0 || friction >= 1) return 0
+    return velocity * friction / (1 - friction)
+}
+
+/**
+ * Index of the snap point a flick lands on: the point nearest the projected landing scroll,
+ * at most `maxItems` points away from the point nearest where the gesture started.
+ * Returns -1 when there are no snap points.
+ */
+export function getFlickTargetIndex(
+    snapPoints: ReadonlyArray<number>,
+    originScroll: number,
+    projectedScroll: number,
+    maxItems: number
+): number {
+    if (snapPoints.length === 0) return -1
+    const nearest = (scroll: number) => {
+        let best = 0
+        for (let i = 1; i < snapPoints.length; i++) {
+            if (Math.abs(snapPoints[i] - scroll) < Math.abs(snapPoints[best] - scroll)) best = i
+        }
+        return best
+    }
+    const origin = nearest(originScroll)
+    const limit = Math.max(0, maxItems)
+    return Math.max(origin - limit, Math.min(nearest(projectedScroll), origin + limit))
+}
+
+/**
+ * Merge the breakpoint overrides that apply at `width` into `base`.
+ * Keys are min-widths in pixels (mobile first): every breakpoint <= width applies, larger ones win.
+ */
+export function resolveBreakpoint<T extends object>(
+    base: T,
+    breakpoints: Record<number, Partial<T>> | undefined,
+    width: number
+): T {
+    if (!breakpoints) return base
+    return Object.keys(breakpoints)
+        .map(Number)
+        .filter(minWidth => minWidth <= width)
+        .sort((a, b) => a - b)
+        .reduce<T>((resolved, minWidth) => ({ ...resolved, ...breakpoints[minWidth] }), base)
+}
+
+/**
+ * Item size that fits exactly `slidesPerView` items (and the gaps between them)
+ * into the viewport minus its edge insets.
+ */
+export function calculateSlideSize(
+    viewportSize: number,
+    slidesPerView: number,
+    gap: number,
+    insets: number
+): number {
+    if (slidesPerView <= 0) return 0
+    return Math.max(0, (viewportSize - insets - gap * (slidesPerView - 1)) / slidesPerView)
+}
+
+/**
+ * Split items into consecutive groups of `size` (grid columns). The last group holds the
+ * remainder when the count is not divisible by `size`. Items for which `startsGroup` returns
+ * true always open a new group, cutting the one before short.
+ */
+export function chunkItems<T>(items: T[], size: number, startsGroup?: (item: T, index: number) => boolean): T[][] {
+    const groupSize = Math.max(1, Math.floor(size))
+    const groups: T[][] = []
+    let group: T[] = []
+    items.forEach((item, index) => {
+        if (group.length === groupSize || (group.length > 0 && startsGroup?.(item, index))) {
+            groups.push(group)
+            group = []
+        }
+        group.push(item)
+    })
+    if (group.length > 0) groups.push(group)
+    return groups
+}
+
 /**
  * Calculate teleport offset
  */